@@ -0,0 +1,109 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { fakeDb } from "./fakeSupabase.js";
+import { callRoute } from "./callRoute.js";
+import { attachAdjustmentsToClaim } from "../_utils/adjustments.js";
+import { transitionClaim } from "../_utils/claimLifecycle.js";
+import adjustmentsRoute from "../admin/charities/adjustments.js";
+
+vi.mock("../_utils/supabase.js", async () => ({
+  supabaseAdmin: (await import("./fakeSupabase.js")).fakeDb.client,
+}));
+vi.mock("../_utils/requireOperator.js", () => ({
+  requireOperator: async () => ({ id: "op-1" }),
+}));
+// content rules are covered elsewhere; here every claim passes them
+vi.mock("../_utils/hmrcXml.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../_utils/hmrcXml.js")>()),
+  validateClaimContent: async () => ({ problems: [] }),
+}));
+
+const OPERATOR = { userId: "op-1" };
+
+function seed() {
+  fakeDb.reset();
+  fakeDb.tables.charities = [{ id: "ch-1", name: "Test Charity", hmrc_mode: "charity" }];
+  fakeDb.tables.claims = [
+    { id: "claim-1", charity_id: "ch-1", status: "draft", period_end: "2024-03-31", created_at: "2024-04-01" },
+    { id: "claim-2", charity_id: "ch-1", status: "draft", period_end: "2024-09-30", created_at: "2024-10-01" },
+  ];
+  fakeDb.tables.charity_adjustments = [
+    { id: "adj-1", charity_id: "ch-1", amount: 12.5, reason: "refund", claim_id: null, consumed_at: null, created_at: "2024-01-01" },
+  ];
+}
+
+function call(method: string, opts: { body?: any; query?: any } = {}) {
+  return callRoute(adjustmentsRoute, { method, ...opts });
+}
+
+describe("attachAdjustmentsToClaim", () => {
+  beforeEach(seed);
+
+  it("takes a row only at the amount the claim expects", async () => {
+    expect(await attachAdjustmentsToClaim("claim-1", [{ id: "adj-1", amount: 10 }])).toEqual(["adj-1"]);
+    expect(fakeDb.find("charity_adjustments", "adj-1")?.claim_id).toBeNull();
+
+    expect(await attachAdjustmentsToClaim("claim-1", [{ id: "adj-1", amount: 12.5 }])).toEqual([]);
+    expect(fakeDb.find("charity_adjustments", "adj-1")?.claim_id).toBe("claim-1");
+  });
+
+  it("does not take a row another claim holds", async () => {
+    fakeDb.find("charity_adjustments", "adj-1")!.claim_id = "claim-2";
+    expect(await attachAdjustmentsToClaim("claim-1", [{ id: "adj-1", amount: 12.5 }])).toEqual(["adj-1"]);
+  });
+});
+
+describe("adjustments frozen in a ready snapshot", () => {
+  beforeEach(seed);
+
+  it("are taken by markReady and can no longer be edited or removed", async () => {
+    const ready = await transitionClaim("claim-1", "markReady", OPERATOR);
+    expect(ready.ok).toBe(true);
+    expect(fakeDb.find("claims", "claim-1")?.ready_snapshot.adjustments).toEqual([
+      { id: "adj-1", amount: 12.5, reason: "refund" },
+    ]);
+    expect(fakeDb.find("charity_adjustments", "adj-1")?.claim_id).toBe("claim-1");
+
+    const update = await call("POST", { body: { charityId: "ch-1", id: "adj-1", amount: 99, reason: "changed" } });
+    expect(update.status).toBe(409);
+
+    const remove = await call("DELETE", { query: { id: "adj-1" } });
+    expect(remove.status).toBe(409);
+
+    expect(fakeDb.find("charity_adjustments", "adj-1")).toMatchObject({ amount: 12.5, reason: "refund" });
+  });
+
+  it("are released when the claim is reopened", async () => {
+    await transitionClaim("claim-1", "markReady", OPERATOR);
+    const reopened = await transitionClaim("claim-1", "reopen", OPERATOR);
+
+    expect(reopened.ok).toBe(true);
+    expect(fakeDb.find("charity_adjustments", "adj-1")?.claim_id).toBeNull();
+
+    const update = await call("POST", { body: { charityId: "ch-1", id: "adj-1", amount: 20, reason: "corrected" } });
+    expect(update.status).toBe(200);
+    expect(update.body.adjustment.amount).toBe(20);
+  });
+
+  it("send the claim back to draft if one changed before it could be taken", async () => {
+    // the content is read first (12.5 frozen); the row is edited before the reservation
+    const row = fakeDb.find("charity_adjustments", "adj-1")!;
+    const from = fakeDb.client.from;
+    let calls = 0;
+    const spy = vi.spyOn(fakeDb.client, "from").mockImplementation((table: string) => {
+      if (table === "charity_adjustments" && ++calls === 2) row.amount = 30;
+      return from(table);
+    });
+
+    try {
+      const ready = await transitionClaim("claim-1", "markReady", OPERATOR);
+      expect(ready).toMatchObject({ ok: false, code: 409 });
+    } finally {
+      spy.mockRestore();
+    }
+
+    const claim = fakeDb.find("claims", "claim-1")!;
+    expect(claim.status).toBe("draft");
+    expect(claim.ready_snapshot).toBeNull();
+    expect(row.claim_id).toBeNull();
+  });
+});
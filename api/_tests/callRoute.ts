@@ -0,0 +1,34 @@
+// api/_tests/callRoute.ts
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+
+/** Runs a Vercel route handler against a bare request; returns status and JSON body */
+export async function callRoute(
+  handler: (req: VercelRequest, res: VercelResponse) => unknown,
+  req: { method: string; body?: any; query?: Record<string, string>; headers?: Record<string, string> }
+): Promise<{ status: number; body: any; headers: Record<string, string> }> {
+  const out = { status: 0, body: null as any, headers: {} as Record<string, string> };
+  const res: any = {
+    status(code: number) {
+      out.status = code;
+      return res;
+    },
+    setHeader(name: string, value: string) {
+      out.headers[name.toLowerCase()] = String(value);
+      return res;
+    },
+    json(body: any) {
+      out.body = body;
+      return res;
+    },
+    send(body: any) {
+      out.body = typeof body === "string" ? JSON.parse(body) : body;
+      return res;
+    },
+  };
+
+  await handler(
+    { method: req.method, body: req.body ?? {}, query: req.query ?? {}, headers: req.headers ?? {} } as unknown as VercelRequest,
+    res as VercelResponse
+  );
+  return out;
+}
@@ -0,0 +1,219 @@
+// api/_tests/fakeSupabase.ts
+import { randomUUID } from "crypto";
+
+/**
+ * In-memory stand-in for the supabase-js query builder, covering the calls
+ * the api/_utils modules make (from / select / insert / update / delete,
+ * eq / neq / in / is / not / or / lt(e) / gt(e), order / limit, single /
+ * maybeSingle). Tests install it with
+ *
+ *   vi.mock("../_utils/supabase.js", async () => ({
+ *     supabaseAdmin: (await import("./fakeSupabase.js")).fakeDb.client,
+ *   }));
+ *
+ * and seed / inspect `fakeDb.tables` directly.
+ */
+
+type Row = Record<string, any>;
+type Filter = (row: Row) => boolean;
+
+function compare(a: any, b: any): number {
+  if (a === b) return 0;
+  return String(a) < String(b) ? -1 : 1;
+}
+
+/** One PostgREST condition ("col.op.value") as used inside .or(...) */
+function orCondition(cond: string): Filter {
+  const [col, op, ...rest] = cond.split(".");
+  const value = rest.join(".");
+  switch (op) {
+    case "is":
+      return (r) => (value === "null" ? r[col] == null : r[col] === (value === "true"));
+    case "eq":
+      return (r) => r[col] != null && String(r[col]) === value;
+    case "lte":
+      return (r) => r[col] != null && compare(r[col], value) <= 0;
+    case "lt":
+      return (r) => r[col] != null && compare(r[col], value) < 0;
+    default:
+      throw new Error(`fakeSupabase: unsupported or() operator '${op}'`);
+  }
+}
+
+function project(row: Row, cols: string | null): Row {
+  if (!cols || cols.trim() === "*") return { ...row };
+  const out: Row = {};
+  for (const c of cols.split(",").map((s) => s.trim()).filter(Boolean)) out[c] = row[c] ?? null;
+  return out;
+}
+
+class Query implements PromiseLike<{ data: any; error: { message: string } | null }> {
+  private filters: Filter[] = [];
+  private orders: Array<{ col: string; ascending: boolean; nullsFirst: boolean }> = [];
+  private max: number | null = null;
+  private cols: string | null = null;
+  private returning = false;
+  private mode: "many" | "single" | "maybeSingle" = "many";
+  private op: "select" | "insert" | "update" | "delete" = "select";
+  private payload: any = null;
+
+  constructor(private db: FakeDb, private table: string) {}
+
+  select(cols = "*") {
+    if (this.op === "select") this.cols = cols;
+    else {
+      this.returning = true;
+      this.cols = cols;
+    }
+    return this;
+  }
+  insert(rows: Row | Row[]) {
+    this.op = "insert";
+    this.payload = rows;
+    return this;
+  }
+  update(fields: Row) {
+    this.op = "update";
+    this.payload = fields;
+    return this;
+  }
+  delete() {
+    this.op = "delete";
+    return this;
+  }
+
+  eq(col: string, v: any) {
+    this.filters.push((r) => r[col] === v);
+    return this;
+  }
+  neq(col: string, v: any) {
+    this.filters.push((r) => r[col] !== v);
+    return this;
+  }
+  in(col: string, vs: readonly any[]) {
+    this.filters.push((r) => vs.includes(r[col]));
+    return this;
+  }
+  is(col: string, v: null | boolean) {
+    this.filters.push((r) => (v === null ? r[col] == null : r[col] === v));
+    return this;
+  }
+  not(col: string, op: string, v: any) {
+    if (op !== "is" || v !== null) throw new Error(`fakeSupabase: unsupported not('${op}')`);
+    this.filters.push((r) => r[col] != null);
+    return this;
+  }
+  lt(col: string, v: any) {
+    this.filters.push((r) => r[col] != null && compare(r[col], v) < 0);
+    return this;
+  }
+  lte(col: string, v: any) {
+    this.filters.push((r) => r[col] != null && compare(r[col], v) <= 0);
+    return this;
+  }
+  gt(col: string, v: any) {
+    this.filters.push((r) => r[col] != null && compare(r[col], v) > 0);
+    return this;
+  }
+  gte(col: string, v: any) {
+    this.filters.push((r) => r[col] != null && compare(r[col], v) >= 0);
+    return this;
+  }
+  or(expr: string) {
+    const conds = expr.split(",").map(orCondition);
+    this.filters.push((r) => conds.some((c) => c(r)));
+    return this;
+  }
+  order(col: string, opts: { ascending?: boolean; nullsFirst?: boolean } = {}) {
+    const ascending = opts.ascending !== false;
+    this.orders.push({ col, ascending, nullsFirst: opts.nullsFirst ?? !ascending });
+    return this;
+  }
+  limit(n: number) {
+    this.max = n;
+    return this;
+  }
+  single() {
+    this.mode = "single";
+    return this;
+  }
+  maybeSingle() {
+    this.mode = "maybeSingle";
+    return this;
+  }
+
+  private run(): { data: any; error: { message: string } | null } {
+    const fail = this.db.failures.find((f) => f.table === this.table && f.op === this.op);
+    if (fail) return { data: null, error: { message: fail.message } };
+
+    const rows = this.db.rows(this.table);
+    const matches = () => rows.filter((r) => this.filters.every((f) => f(r)));
+    let out: Row[];
+
+    if (this.op === "insert") {
+      const list = (Array.isArray(this.payload) ? this.payload : [this.payload]).map((r: Row) => ({
+        id: randomUUID(),
+        created_at: new Date().toISOString(),
+        ...r,
+      }));
+      rows.push(...list);
+      out = list;
+    } else if (this.op === "update") {
+      out = matches();
+      for (const r of out) Object.assign(r, this.payload);
+    } else if (this.op === "delete") {
+      out = matches();
+      this.db.tables[this.table] = rows.filter((r) => !out.includes(r));
+    } else {
+      out = matches();
+    }
+
+    if (this.op !== "select" && !this.returning) return { data: null, error: null };
+
+    for (const o of [...this.orders].reverse()) {
+      out = [...out].sort((a, b) => {
+        const an = a[o.col] == null;
+        const bn = b[o.col] == null;
+        if (an || bn) return an === bn ? 0 : an === o.nullsFirst ? -1 : 1;
+        return o.ascending ? compare(a[o.col], b[o.col]) : compare(b[o.col], a[o.col]);
+      });
+    }
+    if (this.max !== null) out = out.slice(0, this.max);
+
+    const data = out.map((r) => project(r, this.cols));
+    if (this.mode === "many") return { data, error: null };
+    if (data.length > 1) return { data: null, error: { message: "multiple rows returned" } };
+    if (!data.length && this.mode === "single") return { data: null, error: { message: "no rows returned" } };
+    return { data: data[0] ?? null, error: null };
+  }
+
+  then<A = any, B = never>(
+    onFulfilled?: ((v: { data: any; error: { message: string } | null }) => A | PromiseLike<A>) | null,
+    onRejected?: ((reason: any) => B | PromiseLike<B>) | null
+  ): PromiseLike<A | B> {
+    return Promise.resolve().then(() => this.run()).then(onFulfilled, onRejected);
+  }
+}
+
+export class FakeDb {
+  tables: Record<string, Row[]> = {};
+  /** Make every `op` on `table` answer with an error */
+  failures: Array<{ table: string; op: string; message: string }> = [];
+
+  readonly client = { from: (table: string) => new Query(this, table) };
+
+  rows(table: string): Row[] {
+    return (this.tables[table] ??= []);
+  }
+
+  find(table: string, id: string): Row | undefined {
+    return this.rows(table).find((r) => r.id === id);
+  }
+
+  reset() {
+    this.tables = {};
+    this.failures = [];
+  }
+}
+
+export const fakeDb = new FakeDb();
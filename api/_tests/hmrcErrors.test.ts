@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import { parseGovTalkResponse } from "../_utils/govTalkResponse.js";
+import { explainHmrcErrorCode, hmrcErrorsForClaim, r68FieldFromLocation } from "../_utils/hmrcErrors.js";
+
+const R68 = "/hd:GovTalkMessage[1]/hd:Body[1]/r68:IRenvelope[1]/r68:R68[1]/r68:Claim[1]/r68:Repayment[1]";
+
+/** A GovTalk business rejection carrying `errors` in <Body><ErrorResponse> */
+function rejection(errors: Array<{ number: string; text: string; location: string }>) {
+  const list = errors
+    .map(
+      (e) => `<Error>
+          <RaisedBy>ChRIS</RaisedBy>
+          <Number>${e.number}</Number>
+          <Type>business</Type>
+          <Text>${e.text}</Text>
+          <Location>${e.location}</Location>
+        </Error>`
+    )
+    .join("\n");
+
+  return parseGovTalkResponse(`<?xml version="1.0" encoding="UTF-8"?>
+<GovTalkMessage xmlns="http://www.govtalk.gov.uk/CM/envelope">
+  <EnvelopeVersion>2.0</EnvelopeVersion>
+  <Header>
+    <MessageDetails>
+      <Class>HMRC-CHAR-CLM</Class>
+      <Qualifier>error</Qualifier>
+      <Function>submit</Function>
+      <CorrelationID>ABC123</CorrelationID>
+      <GatewayTimestamp>2025-05-01T10:00:00.000</GatewayTimestamp>
+    </MessageDetails>
+    <SenderDetails/>
+  </Header>
+  <GovTalkDetails>
+    <Keys/>
+    <GovTalkErrors>
+      <Error>
+        <RaisedBy>Department</RaisedBy>
+        <Number>3001</Number>
+        <Type>business</Type>
+        <Text>Your submission failed due to business validation errors. Please see below for details.</Text>
+      </Error>
+    </GovTalkErrors>
+  </GovTalkDetails>
+  <Body>
+    <ErrorResponse xmlns="http://www.govtalk.gov.uk/CM/errorresponse" SchemaVersion="2.0">
+      <Application xmlns:ch="http://www.govtalk.gov.uk/taxation/charities/r68/2"/>
+      ${list}
+    </ErrorResponse>
+  </Body>
+</GovTalkMessage>`);
+}
+
+const ITEMS = ["item-1", "item-2", "item-3"];
+
+describe("hmrcErrorsForClaim", () => {
+  it("decodes entities in business error text", () => {
+    const [, error] = hmrcErrorsForClaim(
+      rejection([{ number: "7040", text: "Name &apos;O&amp;Brien&apos; must be &lt; 35 characters", location: `${R68}/r68:GAD[1]/r68:Donor[1]/r68:Sur[1]` }]),
+      ITEMS
+    );
+
+    expect(error.text).toBe("Name 'O&Brien' must be < 35 characters");
+  });
+
+  it.each([
+    ["Fore", "/r68:Donor[1]/r68:Fore[1]", 1],
+    ["Sur", "/r68:Donor[1]/r68:Sur[1]", 2],
+    ["House", "/r68:Donor[1]/r68:House[1]", 3],
+    ["Postcode", "/r68:Donor[1]/r68:Postcode[1]", 1],
+    ["Overseas", "/r68:Donor[1]/r68:Overseas[1]", 2],
+    ["AggDonation", "/r68:AggDonation[1]", 3],
+    ["Sponsored", "/r68:Sponsored[1]", 1],
+    ["Date", "/r68:Date[1]", 2],
+    ["Total", "/r68:Total[1]", 3],
+  ])("maps a 7xxx error on %s to the donation that produced it", (field, path, gad) => {
+    const [, error] = hmrcErrorsForClaim(
+      rejection([{ number: "7000", text: "Rule failed", location: `${R68}/r68:GAD[${gad}]${path}` }]),
+      ITEMS
+    );
+
+    expect(error).toMatchObject({ source: "business", number: "7000", gadIndex: gad, itemId: ITEMS[gad - 1] });
+    expect(r68FieldFromLocation(error.location)).toBe(field);
+    expect(error.explanation).toMatch(/^Charity claim \(R68\) business rule failed on the /);
+  });
+
+  it("explains a 7xxx error outside the donations without naming an item", () => {
+    const [, error] = hmrcErrorsForClaim(
+      rejection([{ number: "7100", text: "Rule failed", location: `${R68}/r68:EarliestGAdate[1]` }]),
+      ITEMS
+    );
+
+    expect(error).toMatchObject({ gadIndex: null, itemId: null });
+    expect(error.explanation).toMatch(/earliest donation date/);
+  });
+});
+
+describe("explainHmrcErrorCode", () => {
+  it("falls back to the code family when the location names no known field", () => {
+    expect(explainHmrcErrorCode("7999", `${R68}/r68:Unknown[1]`)).toMatch(/check the field named in the error location/);
+    expect(explainHmrcErrorCode("1046", `${R68}/r68:GAD[1]/r68:Total[1]`)).toMatch(/^Authentication failure/);
+  });
+});
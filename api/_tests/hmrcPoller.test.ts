@@ -0,0 +1,242 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { fakeDb } from "./fakeSupabase.js";
+import { applyIrmark } from "../_utils/irmark.js";
+import { handleSimulatorMessage, loadSimulatorState, resetSimulatorState, saveSimulatorState } from "../_utils/hmrcSimulator.js";
+import { buildHmrcDeleteRequestXml, buildHmrcPollRequestXml } from "../_utils/hmrcTransport.js";
+import { tryParseGovTalkResponse } from "../_utils/govTalkResponse.js";
+import {
+  pollClaimOnce,
+  retryFailedDeletes,
+  runPollCycle,
+  sendDeleteForClaim,
+  type DeleteTransport,
+  type PollTransport,
+  type PollableClaim,
+} from "../_utils/hmrcPoller.js";
+
+vi.mock("../_utils/supabase.js", async () => ({
+  supabaseAdmin: (await import("./fakeSupabase.js")).fakeDb.client,
+}));
+
+/**
+ * The Document Submission Protocol end to end against hmrcSimulator.ts:
+ * submission acknowledgement -> poll -> response / error -> delete_request.
+ * Transports hand the messages straight to the simulator instead of HTTP.
+ */
+
+const BASE_URL = "http://simulator.test/api/dev/hmrc-te";
+const SAMPLE = path.join(process.cwd(), "api", "_tests", "fixtures", "hmrc", "r68-charity-sample.xml");
+
+let now = new Date("2025-05-01T10:00:00Z");
+
+/** The simulator's answer to `xml`, as the HTTP transport would return it */
+function simulate(xml: string) {
+  const reply = handleSimulatorMessage(xml, { baseUrl: BASE_URL, now });
+  return { ...reply, ok: reply.status < 300, contentType: "text/xml" };
+}
+
+const poll: PollTransport = async (p) => simulate(buildHmrcPollRequestXml(p));
+const del: DeleteTransport = async (p) => simulate(buildHmrcDeleteRequestXml(p));
+
+/** Sends the sample claim to the simulator under `script`; returns the claim row it would leave behind */
+function submitted(id: string, script: string): PollableClaim & Record<string, any> {
+  saveSimulatorState({ ...loadSimulatorState(), script });
+
+  const marked = applyIrmark(fs.readFileSync(SAMPLE, "utf8"));
+  const ack = tryParseGovTalkResponse(simulate(marked.xml).bodyText);
+  if (ack?.qualifier !== "acknowledgement") throw new Error(`sample was not acknowledged: ${ack?.qualifier}`);
+
+  const claim = {
+    id,
+    charity_id: "ch-1",
+    status: "submitted",
+    hmrc_correlation_id: ack.correlationId,
+    hmrc_poll_url: ack.responseEndPoint,
+    hmrc_poll_interval: ack.pollInterval,
+    hmrc_gad_item_ids: ["item-1", "item-2", "item-3"],
+    hmrc_sender_role: "charity" as const,
+    hmrc_irmark_receipt: marked.receipt,
+    hmrc_next_poll_at: null,
+  };
+  fakeDb.rows("claims").push({ ...claim });
+  return claim;
+}
+
+function attempts(claimId: string) {
+  return fakeDb.rows("claim_submission_attempts").filter((a) => a.claim_id === claimId).map((a) => a.kind);
+}
+
+let tmp: string;
+const savedTmp = process.env.TMPDIR;
+const savedMode = process.env.HMRC_XML_MODE;
+
+beforeAll(() => {
+  // simulator state lives under os.tmpdir(); keep it out of the real one
+  tmp = fs.mkdtempSync(path.join(os.tmpdir(), "hmrc-poller-test-"));
+  process.env.TMPDIR = tmp;
+  process.env.HMRC_XML_MODE = "ETS";
+});
+
+afterAll(() => {
+  if (savedTmp === undefined) delete process.env.TMPDIR;
+  else process.env.TMPDIR = savedTmp;
+  if (savedMode === undefined) delete process.env.HMRC_XML_MODE;
+  else process.env.HMRC_XML_MODE = savedMode;
+  fs.rmSync(tmp, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  now = new Date("2025-05-01T10:00:00Z");
+  resetSimulatorState();
+  fakeDb.reset();
+  fakeDb.tables.charities = [{ id: "ch-1", name: "Test Charity", hmrc_mode: "charity" }];
+  fakeDb.tables.charity_adjustments = [
+    { id: "adj-1", charity_id: "ch-1", amount: 5, reason: "refund", claim_id: "claim-1", consumed_at: null },
+  ];
+});
+
+describe("pollClaimOnce", () => {
+  it("waits through an acknowledgement, then stores the acceptance and deletes it from the gateway", async () => {
+    const claim = submitted("claim-1", "ack,success");
+
+    const first = await pollClaimOnce(claim, { now, transport: poll, deleteTransport: del });
+    expect(first.outcome).toBe("pending");
+    expect(fakeDb.find("claims", "claim-1")).toMatchObject({ status: "acknowledged", hmrc_next_poll_at: first.nextPollAt });
+
+    now = new Date(now.getTime() + 5_000);
+    const second = await pollClaimOnce(fakeDb.find("claims", "claim-1") as PollableClaim, {
+      now,
+      transport: poll,
+      deleteTransport: del,
+    });
+
+    expect(second.outcome).toBe("accepted");
+    expect(second.delete?.deleted).toBe(true);
+    expect(fakeDb.find("claims", "claim-1")).toMatchObject({
+      status: "accepted",
+      hmrc_reference: claim.hmrc_irmark_receipt,
+      hmrc_delete_status: "deleted",
+      hmrc_next_poll_at: null,
+    });
+    expect(fakeDb.find("claims", "claim-1")?.hmrc_last_message).not.toMatch(/does not match/);
+    expect(fakeDb.find("charity_adjustments", "adj-1")?.consumed_at).toBe(now.toISOString());
+    expect(attempts("claim-1")).toEqual(["poll", "poll", "delete"]);
+    // the simulator forgot the submission once deleted
+    expect(loadSimulatorState().submissions[claim.hmrc_correlation_id!]).toBeUndefined();
+  });
+
+  it("flags an IRmark receipt that differs from the one sent", async () => {
+    const claim = { ...submitted("claim-1", "success"), hmrc_irmark_receipt: "A".repeat(32) };
+
+    const result = await pollClaimOnce(claim, { now, transport: poll, deleteTransport: del });
+
+    expect(result.outcome).toBe("accepted");
+    expect(result.message).toMatch(/does not match the IRmark sent/);
+  });
+
+  it("stores a business rejection against the donation it names and releases the adjustments", async () => {
+    const claim = submitted("claim-1", "error:9101:2");
+
+    const result = await pollClaimOnce(claim, { now, transport: poll, deleteTransport: del });
+
+    expect(result.outcome).toBe("rejected");
+    const row = fakeDb.find("claims", "claim-1")!;
+    expect(row.status).toBe("rejected");
+    expect(row.hmrc_reference).toBeNull();
+    expect(row.hmrc_errors).toContainEqual(expect.objectContaining({ source: "business", number: "9101", itemId: "item-2" }));
+    expect(row.hmrc_delete_status).toBe("deleted");
+    expect(fakeDb.find("charity_adjustments", "adj-1")?.claim_id).toBeNull();
+  });
+
+  it("leaves a claim whose answer someone else stored alone", async () => {
+    const claim = submitted("claim-1", "success");
+    fakeDb.find("claims", "claim-1")!.status = "accepted";
+
+    const result = await pollClaimOnce(claim, { now, transport: poll, deleteTransport: del });
+
+    expect(result.outcome).toBe("superseded");
+    expect(attempts("claim-1")).toEqual(["poll"]);
+    expect(fakeDb.find("charity_adjustments", "adj-1")?.consumed_at).toBeNull();
+  });
+
+  it("backs off when the gateway cannot be reached", async () => {
+    const claim = submitted("claim-1", "success");
+    const down: PollTransport = async () => {
+      throw new Error("connect ECONNREFUSED");
+    };
+
+    const result = await pollClaimOnce(claim, { now, transport: down });
+
+    expect(result.outcome).toBe("transport_error");
+    expect(fakeDb.find("claims", "claim-1")).toMatchObject({ status: "submitted", hmrc_next_poll_at: result.nextPollAt });
+  });
+});
+
+describe("runPollCycle", () => {
+  it("keeps polling the other claims when one fails", async () => {
+    submitted("claim-1", "success");
+    submitted("claim-2", "ack,ack");
+    // claim-1 gets its answer, then storing the adjustments fails
+    fakeDb.failures.push({ table: "charity_adjustments", op: "update", message: "connection reset" });
+
+    const outcomes = await runPollCycle({ now, transport: poll, deleteTransport: del });
+
+    expect(outcomes.map((o) => [o.claimId, o.outcome])).toEqual([
+      ["claim-1", "error"],
+      ["claim-2", "pending"],
+    ]);
+    expect(outcomes[0].message).toMatch(/connection reset/);
+    expect(fakeDb.find("claims", "claim-2")?.status).toBe("acknowledged");
+  });
+
+  it("reports a failure it could not note on the claim in its summary", async () => {
+    submitted("claim-1", "ack");
+    fakeDb.failures.push({ table: "claims", op: "update", message: "database is read-only" });
+
+    const [outcome] = await runPollCycle({ now, transport: poll, deleteTransport: del });
+
+    expect(outcome.outcome).toBe("error");
+    expect(outcome.message).toMatch(/not recorded on the claim: database is read-only/);
+  });
+
+  it("only polls claims that are due", async () => {
+    submitted("claim-1", "ack");
+    fakeDb.find("claims", "claim-1")!.hmrc_next_poll_at = new Date(now.getTime() + 60_000).toISOString();
+
+    expect(await runPollCycle({ now, transport: poll, deleteTransport: del })).toEqual([]);
+  });
+});
+
+describe("sendDeleteForClaim / retryFailedDeletes", () => {
+  it("records a delete the gateway refused, and a later retry that goes through", async () => {
+    const claim = submitted("claim-1", "success");
+    fakeDb.find("claims", "claim-1")!.status = "accepted";
+
+    const down: DeleteTransport = async () => {
+      throw new Error("timeout");
+    };
+    const failed = await sendDeleteForClaim(claim, { now, transport: down });
+
+    expect(failed.deleted).toBe(false);
+    expect(fakeDb.find("claims", "claim-1")).toMatchObject({ hmrc_delete_status: "failed" });
+    expect(attempts("claim-1")).toEqual(["delete"]);
+
+    const retried = await retryFailedDeletes({ now, transport: del });
+
+    expect(retried).toEqual([expect.objectContaining({ claimId: "claim-1", deleted: true })]);
+    expect(fakeDb.find("claims", "claim-1")).toMatchObject({ hmrc_delete_status: "deleted" });
+  });
+
+  it("keeps a delete of a submission the gateway does not know as failed", async () => {
+    const claim = submitted("claim-1", "success");
+    resetSimulatorState();
+
+    const result = await sendDeleteForClaim(claim, { now, transport: del });
+
+    expect(result.deleted).toBe(false);
+    expect(result.message).toMatch(/^delete_request error/);
+  });
+});
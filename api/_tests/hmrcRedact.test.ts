@@ -0,0 +1,43 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { REDACTED, govTalkAuthValues, redactSecrets } from "../_utils/hmrcRedact.js";
+
+const ENVELOPE = `<GovTalkMessage xmlns="http://www.govtalk.gov.uk/CM/envelope">
+  <Header><SenderDetails><IDAuthentication><SenderID>323412300001</SenderID>
+    <Authentication><Method>clear</Method><Role>principal</Role><Value>pw1</Value></Authentication>
+  </IDAuthentication></SenderDetails></Header>
+</GovTalkMessage>`;
+
+describe("redactSecrets", () => {
+  const saved = process.env.HMRC_AUTH_VALUE;
+  afterEach(() => {
+    if (saved === undefined) delete process.env.HMRC_AUTH_VALUE;
+    else process.env.HMRC_AUTH_VALUE = saved;
+  });
+
+  it("masks the <Authentication> value of a GovTalk envelope", () => {
+    expect(govTalkAuthValues(ENVELOPE)).toEqual(["pw1"]);
+    const out = redactSecrets(ENVELOPE);
+    expect(out).toContain(`<Value>${REDACTED}</Value>`);
+    expect(out).not.toContain("pw1");
+  });
+
+  it("masks a short gateway password wherever it is echoed back", () => {
+    const out = redactSecrets("login pw1 rejected", govTalkAuthValues(ENVELOPE));
+    expect(out).toBe(`login ${REDACTED} rejected`);
+  });
+
+  it("masks a short HMRC_AUTH_VALUE", () => {
+    process.env.HMRC_AUTH_VALUE = "abc";
+    expect(redactSecrets("Authentication failed for abc")).toBe(`Authentication failed for ${REDACTED}`);
+  });
+
+  it("masks a password that contains another secret as one value", () => {
+    expect(redactSecrets("x secret1 y", ["secret", "secret1"])).toBe(`x ${REDACTED} y`);
+  });
+
+  it("masks password fields in JSON", () => {
+    expect(redactSecrets('{"gatewayPassword":"hunter2","senderId":"1"}')).toBe(
+      `{"gatewayPassword":"${REDACTED}","senderId":"1"}`
+    );
+  });
+});
@@ -0,0 +1,113 @@
+import fs from "fs";
+import path from "path";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { fakeDb } from "./fakeSupabase.js";
+import { applyIrmark } from "../_utils/irmark.js";
+import { validateClaimXml } from "../_utils/hmrcSchema.js";
+import { generateHmrcGiftAidClaim } from "../_utils/hmrcXml.js";
+
+vi.mock("../_utils/supabase.js", async () => ({
+  supabaseAdmin: (await import("./fakeSupabase.js")).fakeDb.client,
+}));
+
+const FIXTURES = path.join(process.cwd(), "api", "_tests", "fixtures", "hmrc");
+
+function sample() {
+  return applyIrmark(fs.readFileSync(path.join(FIXTURES, "r68-charity-sample.xml"), "utf8")).xml;
+}
+
+describe("validateClaimXml", () => {
+  it("accepts the charity sample", async () => {
+    expect(await validateClaimXml(sample())).toEqual([]);
+  });
+
+  it("drops namespace URIs from element names but keeps the allowed values", async () => {
+    const xml = sample().replace("<Qualifier>request</Qualifier>", "<Qualifier>bogus</Qualifier>");
+    const [first] = await validateClaimXml(xml);
+
+    expect(first.element).toBe("Qualifier");
+    expect(first.message).toContain("Element 'Qualifier'");
+    expect(first.message).not.toContain("http://www.govtalk.gov.uk");
+    expect(first.message).toMatch(/set \{'request', 'acknowledgement', 'response', 'poll', 'error'\}/);
+  });
+
+  it("ties a violation inside a <GAD> to its claim item", async () => {
+    const xml = sample().replace("<Sur>O'Connor</Sur>", `<Sur>${"X".repeat(80)}</Sur>`);
+    const violations = await validateClaimXml(xml, ["item-1", "item-2", "item-3"]);
+
+    expect(violations.length).toBeGreaterThan(0);
+    expect(violations[0].element).toBe("Sur");
+    expect(violations[0].itemId).not.toBeNull();
+  });
+});
+
+/**
+ * A claim built by hmrcXml.ts from database rows, not a hand-written sample.
+ * Runs against the bundled schemas, or the official ones when HMRC_SCHEMA_DIR
+ * points at them (see hmrcSchema.ts).
+ */
+describe("generated claims", () => {
+  beforeEach(() => {
+    fakeDb.reset();
+    fakeDb.tables.charities = [
+      {
+        id: "ch-1",
+        name: "Test Charity",
+        charity_number: "AB12345",
+        hmrc_mode: "charity",
+        official_title: "Mrs",
+        official_fore: "Jane",
+        official_sur: "Smith",
+        official_postcode: "AB1 2CD",
+        official_phone: "01234 567890",
+        regulator: "CCEW",
+        regulator_number: "1234567",
+      },
+    ];
+    fakeDb.tables.claims = [
+      { id: "claim-1", charity_id: "ch-1", status: "draft", period_start: "2024-04-01", period_end: "2025-03-31" },
+    ];
+    fakeDb.tables.claim_items = [
+      {
+        id: "item-1",
+        claim_id: "claim-1",
+        item_type: "donor",
+        donor_first_name: "Mary",
+        donor_last_name: "O'Connor",
+        donor_address: "12 High Street",
+        donor_postcode: "AB1 2CD",
+        donor_overseas: false,
+        sponsored: false,
+        donation_date: "2024-05-01",
+        donation_amount: 100,
+      },
+      {
+        id: "item-2",
+        claim_id: "claim-1",
+        item_type: "aggregated",
+        agg_description: "Cash collections",
+        donor_overseas: false,
+        sponsored: false,
+        donation_date: "2024-06-01",
+        donation_amount: 250,
+      },
+    ];
+    fakeDb.tables.claim_other_income = [
+      { id: "oi-1", claim_id: "claim-1", payer_name: "Bank plc", income_date: "2024-07-01", gross_amount: 50, tax_deducted: 10 },
+    ];
+    fakeDb.tables.claim_gasds = [{ claim_id: "claim-1", tax_year: "2025", amount: 300, building_id: null }];
+    fakeDb.tables.charity_adjustments = [
+      { id: "adj-1", charity_id: "ch-1", amount: 5, reason: "refund", claim_id: null, consumed_at: null },
+    ];
+  });
+
+  it("validates a claim generated from a charity's rows", async () => {
+    const generated = await generateHmrcGiftAidClaim("claim-1");
+
+    expect(generated.xml).toContain("<GAD>");
+    expect(generated.xml).toContain("<OtherInc>");
+    expect(generated.xml).toContain("<GASDS>");
+    expect(generated.xml).toContain("<Adjustment>5.00</Adjustment>");
+    expect(await validateClaimXml(generated.xml, generated.gadItemIds)).toEqual([]);
+  });
+});
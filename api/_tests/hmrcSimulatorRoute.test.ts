@@ -0,0 +1,47 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { callRoute } from "./callRoute.js";
+import simulatorRoute from "../dev/hmrc-te.js";
+
+const ENV = ["TMPDIR", "HMRC_SIMULATOR_ENABLED", "HMRC_SIMULATOR_SECRET", "HMRC_XML_MODE"] as const;
+const saved = Object.fromEntries(ENV.map((k) => [k, process.env[k]]));
+let tmp: string;
+
+beforeAll(() => {
+  tmp = fs.mkdtempSync(path.join(os.tmpdir(), "hmrc-te-route-test-"));
+  process.env.TMPDIR = tmp;
+  process.env.HMRC_SIMULATOR_ENABLED = "1";
+  process.env.HMRC_SIMULATOR_SECRET = "s3cret";
+  process.env.HMRC_XML_MODE = "ETS";
+});
+
+afterAll(() => {
+  for (const k of ENV) {
+    if (saved[k] === undefined) delete process.env[k];
+    else process.env[k] = saved[k];
+  }
+  fs.rmSync(tmp, { recursive: true, force: true });
+});
+
+function state(headers: Record<string, string> = {}) {
+  return callRoute(simulatorRoute, { method: "GET", query: { endpoint: "state" }, headers });
+}
+
+describe("api/dev/hmrc-te", () => {
+  it("answers only requests carrying the simulator secret", async () => {
+    expect((await state()).status).toBe(404);
+    expect((await state({ "x-hmrc-simulator-secret": "wrong" })).status).toBe(404);
+    expect((await state({ "x-hmrc-simulator-secret": "s3cret" })).status).toBe(200);
+  });
+
+  it("stays hidden when no secret is configured, even with the flag on", async () => {
+    delete process.env.HMRC_SIMULATOR_SECRET;
+    try {
+      expect((await state({ "x-hmrc-simulator-secret": "" })).status).toBe(404);
+    } finally {
+      process.env.HMRC_SIMULATOR_SECRET = "s3cret";
+    }
+  });
+});
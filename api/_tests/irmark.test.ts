@@ -0,0 +1,119 @@
+import fs from "fs";
+import path from "path";
+import { describe, expect, it } from "vitest";
+import { applyIrmark, canonicaliseBodyForIrmark, computeIrmark } from "../_utils/irmark.js";
+
+/**
+ * Golden files for the IRmark (api/_utils/irmark.ts).
+ *
+ * fixtures/hmrc holds R68 messages laid out like HMRC's Charities sample
+ * pack ("GA Valid Sample": CHARID AB12345, official John Smith). The expected
+ * canonical forms (*.c14n.xml) and marks were produced with an independent
+ * Canonical XML 1.0 implementation (xml-crypto over @xmldom/xmldom, in-scope
+ * ancestor namespaces passed in), not with irmark.ts.
+ *
+ * They are not HMRC's own samples. Those carry the IRmark HMRC published for
+ * them in <IRmark Type="generic">, and are checked below when saved, unmodified,
+ * under fixtures/hmrc/published (not included in this repository).
+ */
+
+const FIXTURES = path.join(process.cwd(), "api", "_tests", "fixtures", "hmrc");
+
+function fixture(name: string) {
+  return fs.readFileSync(path.join(FIXTURES, name), "utf8");
+}
+
+const GOLDEN = [
+  {
+    file: "r68-charity-sample.xml",
+    irmark: "EocMLRrISg+p1okWHw6IQ3GWmRk=",
+    receipt: "CKDQYLI2ZBFA7KOWRELB6DUIINYZNGIZ",
+  },
+  {
+    file: "r68-agent-gasds-sample.xml",
+    irmark: "I48BnaS/B1h5h85tPS8tJ/Mwko4=",
+    receipt: "EOHQDHNEX4DVQ6MHZZWT2LZNE7ZTBEUO",
+  },
+];
+
+describe("canonicaliseBodyForIrmark", () => {
+  for (const g of GOLDEN) {
+    it(`matches the reference C14N of ${g.file}`, () => {
+      const expected = fixture(g.file.replace(/\.xml$/, ".c14n.xml"));
+      expect(canonicaliseBodyForIrmark(fixture(g.file))).toBe(expected);
+    });
+  }
+
+  it("renders namespaces inherited from the envelope on <Body>", () => {
+    const c14n = canonicaliseBodyForIrmark(fixture("r68-agent-gasds-sample.xml"));
+    expect(c14n.startsWith(
+      '<gt:Body xmlns:gt="http://www.govtalk.gov.uk/CM/envelope" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">'
+    )).toBe(true);
+  });
+
+  it("drops comments, folds CDATA and expands character references", () => {
+    const c14n = canonicaliseBodyForIrmark(fixture("r68-agent-gasds-sample.xml"));
+    expect(c14n).toContain("<OrgName>St Mary's &lt;Parish&gt; Church</OrgName>");
+    expect(c14n).toContain("<Sur>Brontë-Lee</Sur>");
+    expect(c14n).toContain('<Key Type="CHARID">AB12345</Key>');
+    expect(c14n).not.toContain("IRmark");
+  });
+});
+
+describe("computeIrmark", () => {
+  for (const g of GOLDEN) {
+    it(`gives the known IRmark for ${g.file}`, () => {
+      expect(computeIrmark(fixture(g.file))).toEqual({ irmark: g.irmark, receipt: g.receipt });
+    });
+  }
+
+  it("ignores whatever the <IRmark> element already holds", () => {
+    const xml = fixture("r68-charity-sample.xml");
+    expect(computeIrmark(xml.replace("{{IRMARK}}", "stale")).irmark).toBe(GOLDEN[0].irmark);
+  });
+
+  it("changes when the claim body changes", () => {
+    const xml = fixture("r68-charity-sample.xml").replace("<Total>240.00</Total>", "<Total>240.01</Total>");
+    expect(computeIrmark(xml).irmark).not.toBe(GOLDEN[0].irmark);
+  });
+
+  it("does not depend on the envelope header (password, SenderID)", () => {
+    const xml = fixture("r68-charity-sample.xml").replace("<Value>testing1</Value>", "<Value>other</Value>");
+    expect(computeIrmark(xml).irmark).toBe(GOLDEN[0].irmark);
+  });
+});
+
+describe("applyIrmark", () => {
+  it("writes the mark into <IRmark Type=\"generic\">", () => {
+    const out = applyIrmark(fixture("r68-charity-sample.xml"));
+    expect(out.irmark).toBe(GOLDEN[0].irmark);
+    expect(out.xml).toContain(`<IRmark Type="generic">${GOLDEN[0].irmark}</IRmark>`);
+    // the marked message still hashes to the same value
+    expect(computeIrmark(out.xml).irmark).toBe(GOLDEN[0].irmark);
+  });
+
+  it("fills a self-closing <IRmark/>", () => {
+    const out = applyIrmark(fixture("r68-agent-gasds-sample.xml"));
+    expect(out.xml).toContain(`<IRmark Type="generic">${GOLDEN[1].irmark}</IRmark>`);
+  });
+
+  it("refuses a message without <IRmark>", () => {
+    const xml = fixture("r68-charity-sample.xml").replace(/<IRmark[^>]*>[^<]*<\/IRmark>/, "");
+    expect(() => applyIrmark(xml)).toThrow(/<IRmark> element not found/);
+  });
+});
+
+const PUBLISHED = path.join(FIXTURES, "published");
+const publishedSamples = fs.existsSync(PUBLISHED) ? fs.readdirSync(PUBLISHED).filter((f) => f.endsWith(".xml")) : [];
+
+describe.skipIf(publishedSamples.length === 0)("HMRC published samples", () => {
+  for (const file of publishedSamples) {
+    it(`reproduces the IRmark HMRC published in ${file}`, () => {
+      const xml = fs.readFileSync(path.join(PUBLISHED, file), "utf8");
+      const published = /<IRmark\b[^>]*>([^<]+)<\/IRmark>/.exec(xml)?.[1]?.trim();
+
+      expect(published).toBeTruthy();
+      expect(computeIrmark(xml).irmark).toBe(published);
+    });
+  }
+});
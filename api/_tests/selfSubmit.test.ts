@@ -0,0 +1,77 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { fakeDb } from "./fakeSupabase.js";
+import { callRoute } from "./callRoute.js";
+import updateSelfSubmit from "../admin/charities/update-self-submit.js";
+import submitClaimRoute from "../hmrc/submit-claim.js";
+import { submitClaim } from "../_utils/claimSubmission.js";
+
+vi.mock("../_utils/supabase.js", async () => ({
+  supabaseAdmin: (await import("./fakeSupabase.js")).fakeDb.client,
+}));
+vi.mock("../_utils/requireOperator.js", () => ({
+  requireOperator: async (req: any) => {
+    if (req.headers.authorization !== "Bearer operator") throw new Error("Forbidden: operator access required");
+    return { id: "op-1" };
+  },
+}));
+vi.mock("../_utils/requireUser.js", () => ({
+  requireUser: async () => ({ id: "user-1", email: "user@example.org" }),
+}));
+vi.mock("../_utils/claimSubmission.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../_utils/claimSubmission.js")>()),
+  submitClaim: vi.fn(async () => ({ ok: true, status: "acknowledged" })),
+}));
+
+const OPERATOR = { authorization: "Bearer operator" };
+
+describe("self-submit", () => {
+  beforeEach(() => {
+    fakeDb.reset();
+    fakeDb.tables.charities = [{ id: "ch-1", name: "Test Charity", self_submit_enabled: false }];
+    fakeDb.tables.users = [{ id: "user-1", charity_id: "ch-1" }];
+    vi.mocked(submitClaim).mockClear();
+  });
+
+  it("is refused until an operator enables it, then goes through", async () => {
+    const before = await callRoute(submitClaimRoute, { method: "POST", body: { claimId: "claim-1" } });
+    expect(before.status).toBe(403);
+    expect(submitClaim).not.toHaveBeenCalled();
+
+    const enabled = await callRoute(updateSelfSubmit, {
+      method: "POST",
+      headers: OPERATOR,
+      body: { charityId: "ch-1", enabled: true },
+    });
+    expect(enabled.status).toBe(200);
+    expect(enabled.body.charity.self_submit_enabled).toBe(true);
+
+    const after = await callRoute(submitClaimRoute, { method: "POST", body: { claimId: "claim-1" } });
+    expect(after.status).toBe(200);
+    expect(submitClaim).toHaveBeenCalledWith(
+      "claim-1",
+      expect.objectContaining({ kind: "charity", charityId: "ch-1" }),
+      expect.anything()
+    );
+  });
+
+  it("can only be switched by an operator, with an explicit true/false", async () => {
+    const notOperator = await callRoute(updateSelfSubmit, { method: "POST", body: { charityId: "ch-1", enabled: true } });
+    expect(notOperator.status).toBe(403);
+
+    const notBoolean = await callRoute(updateSelfSubmit, {
+      method: "POST",
+      headers: OPERATOR,
+      body: { charityId: "ch-1", enabled: "yes" },
+    });
+    expect(notBoolean.status).toBe(400);
+
+    const unknown = await callRoute(updateSelfSubmit, {
+      method: "POST",
+      headers: OPERATOR,
+      body: { charityId: "ch-2", enabled: true },
+    });
+    expect(unknown.status).toBe(404);
+
+    expect(fakeDb.find("charities", "ch-1")?.self_submit_enabled).toBe(false);
+  });
+});
@@ -0,0 +1,153 @@
+// api/_utils/adjustments.ts
+import { supabaseAdmin } from "./supabase.js";
+
+/**
+ * Ledger of previous overclaims a charity has to pay back (a cancelled
+ * declaration, a donation refunded after the claim was paid, ...).
+ * HMRC takes them off the next claim via <Repayment><Adjustment>.
+ *
+ * charity_adjustments: { charity_id, amount, reason, source_claim_id,
+ *                        claim_id, consumed_at }
+ *
+ * Life of a row:
+ *   open      claim_id null                      -> pulled into the charity's next unsent claim only
+ *   attached  claim_id set when the claim is marked ready (frozen in its
+ *             snapshot) and confirmed on submit  -> only that claim carries it from then on
+ *   consumed  consumed_at set once HMRC accepts that claim
+ * A rejected, reopened or withdrawn claim releases its rows (claim_id back to
+ * null) for the next one. Only open rows can be edited or removed.
+ *
+ * The total taken off a claim may not exceed what the claim repays
+ * (see adjustmentProblem).
+ */
+
+/** Free-text reason length (operator note, not sent to HMRC) */
+export const ADJUSTMENT_REASON_MAX = 200;
+
+export const ADJUSTMENT_COLS = "id, charity_id, amount, reason, source_claim_id, claim_id, consumed_at, created_at";
+
+export type ClaimAdjustment = {
+  id: string;
+  charity_id: string;
+  amount: number;
+  reason: string;
+  source_claim_id: string | null;
+  /** claim the adjustment was submitted with */
+  claim_id: string | null;
+  consumed_at: string | null;
+  created_at?: string;
+};
+
+/** Claim statuses that still pick up open adjustments */
+const PULLING_STATUSES = ["draft", "ready", "submitting"];
+
+/** Gift Aid on a donation at the 20% basic rate: 20/80 of the amount given */
+const GIFT_AID_RATE = 0.25;
+
+/**
+ * The charity's unsent claim that open adjustments go to: the one with the
+ * earliest period (oldest first on a tie). Null when it has none.
+ */
+async function nextPullingClaimId(charityId: string): Promise<string | null> {
+  const { data, error } = await supabaseAdmin
+    .from("claims")
+    .select("id")
+    .eq("charity_id", charityId)
+    .in("status", PULLING_STATUSES)
+    .order("period_end", { ascending: true, nullsFirst: false })
+    .order("created_at", { ascending: true })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  return data ? String(data.id) : null;
+}
+
+/**
+ * Adjustments that belong in a claim's XML: the ones already attached to it,
+ * plus (while it has not been sent yet and is the charity's next claim) the
+ * open ones of its charity.
+ */
+export async function loadAdjustmentsForClaim(claim: {
+  id: string;
+  charity_id: string;
+  status?: string | null;
+}): Promise<ClaimAdjustment[]> {
+  const { data, error } = await supabaseAdmin
+    .from("charity_adjustments")
+    .select(ADJUSTMENT_COLS)
+    .eq("charity_id", claim.charity_id)
+    .or(`claim_id.is.null,claim_id.eq.${claim.id}`)
+    .order("created_at", { ascending: true });
+
+  if (error) throw new Error(error.message);
+
+  const pullOpen =
+    PULLING_STATUSES.includes(String(claim.status || "")) && (await nextPullingClaimId(claim.charity_id)) === claim.id;
+
+  return ((data ?? []) as ClaimAdjustment[]).filter((a) =>
+    a.claim_id === claim.id ? true : pullOpen && !a.claim_id && !a.consumed_at
+  );
+}
+
+export function adjustmentTotal(rows: Array<{ amount: number }>): number {
+  return Math.round(rows.reduce((s, a) => s + Number(a.amount || 0), 0) * 100) / 100;
+}
+
+/** What a claim repays before adjustments: Gift Aid on donations and GASDS, plus tax on other income */
+export function claimRepayment(parts: { donations: number; gasds: number; otherIncomeTax: number }): number {
+  const due = (parts.donations + parts.gasds) * GIFT_AID_RATE + parts.otherIncomeTax;
+  return Math.round(due * 100) / 100;
+}
+
+/** Why these adjustments cannot go on a claim repaying `repayment` (null = they can) */
+export function adjustmentProblem(rows: Array<{ amount: number }>, repayment: number): string | null {
+  const total = adjustmentTotal(rows);
+  if (total <= repayment) return null;
+  return `Adjustments of £${total.toFixed(2)} exceed the £${repayment.toFixed(2)} this claim repays`;
+}
+
+/**
+ * Takes a claim's adjustments (open, or already attached to it) so no other
+ * claim can carry them too: when it is marked ready, and again before it is
+ * sent. Each row is taken only if it still has the amount the claim expects.
+ * Returns the ids it could not take (attached elsewhere, consumed or changed
+ * meanwhile).
+ */
+export async function attachAdjustmentsToClaim(
+  claimId: string,
+  expected: Array<{ id: string; amount: number }>
+): Promise<string[]> {
+  const notTaken: string[] = [];
+
+  for (const a of expected) {
+    const { data, error } = await supabaseAdmin
+      .from("charity_adjustments")
+      .update({ claim_id: claimId })
+      .eq("id", a.id)
+      .eq("amount", a.amount)
+      .or(`claim_id.is.null,claim_id.eq.${claimId}`)
+      .is("consumed_at", null)
+      .select("id")
+      .maybeSingle();
+
+    if (error) throw new Error(error.message);
+    if (!data) notTaken.push(String(a.id));
+  }
+
+  return notTaken;
+}
+
+/**
+ * Final HMRC answer for a claim: accepted -> its adjustments are consumed;
+ * rejected -> they go back to open for the next claim.
+ */
+export async function settleClaimAdjustments(claimId: string, accepted: boolean, now = new Date()): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from("charity_adjustments")
+    .update(accepted ? { consumed_at: now.toISOString() } : { claim_id: null })
+    .eq("claim_id", claimId)
+    .is("consumed_at", null);
+
+  if (error) throw new Error(error.message);
+}
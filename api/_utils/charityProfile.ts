@@ -0,0 +1,127 @@
+// api/_utils/charityProfile.ts
+import { isUkPostcode, normalizeUkPostcode } from "./hmrcNormalize.js";
+
+/**
+ * Per-charity details the R68 claim declares about the charity itself:
+ * - authorised official (<AuthOfficial>): name, postcode, phone
+ * - regulator (<Regulator>): CCEW / OSCR / CCNI + registration number,
+ *   or "none" for exempt/excepted charities (<NoReg>yes</NoReg>)
+ *
+ * Stored on charities (official_title, official_fore, official_sur,
+ * official_postcode, official_phone, regulator, regulator_number).
+ * Used by charity setup, the admin profile route and the XML generator.
+ */
+
+export const REGULATORS = ["CCEW", "OSCR", "CCNI", "none"] as const;
+export type Regulator = (typeof REGULATORS)[number];
+
+export const CHARITY_PROFILE_COLS =
+  "official_title, official_fore, official_sur, official_postcode, official_phone, regulator, regulator_number";
+
+export type CharityProfileFields = {
+  official_title: string | null;
+  official_fore: string | null;
+  official_sur: string | null;
+  official_postcode: string | null;
+  official_phone: string | null;
+  regulator: Regulator | null;
+  regulator_number: string | null;
+};
+
+/** R68 <Ttl> / <Fore> / <Sur> / <RegNo> max lengths */
+const TITLE_MAX = 4;
+const NAME_MAX = 35;
+const REG_NO_MAX = 20;
+
+function norm(v: any): string {
+  return String(v ?? "").trim();
+}
+
+/** "ccew" -> "CCEW"; "exempt" / "excepted" / "none" -> "none"; anything else -> null */
+export function normalizeRegulator(v: any): Regulator | null {
+  const t = norm(v).toUpperCase();
+  if (!t) return null;
+  if (t === "NONE" || t === "EXEMPT" || t === "EXCEPTED") return "none";
+  return (REGULATORS as readonly string[]).includes(t) ? (t as Regulator) : null;
+}
+
+/**
+ * Builds the charities profile columns from loose input. Every field is
+ * optional here (a charity can be set up before it knows them); whatever is
+ * given must be valid. Completeness is checked when a claim is built
+ * (missingProfileFields).
+ */
+export function buildCharityProfileFields(input: {
+  officialTitle?: any;
+  officialFore?: any;
+  officialSur?: any;
+  officialPostcode?: any;
+  officialPhone?: any;
+  regulator?: any;
+  regulatorNumber?: any;
+}): { fields: CharityProfileFields; error: null } | { fields: null; error: string } {
+  const fail = (error: string) => ({ fields: null, error });
+
+  const official_title = norm(input.officialTitle) || null;
+  const official_fore = norm(input.officialFore) || null;
+  const official_sur = norm(input.officialSur) || null;
+  const official_postcode = normalizeUkPostcode(input.officialPostcode) || null;
+  const official_phone = norm(input.officialPhone) || null;
+  const regulator = normalizeRegulator(input.regulator);
+  const regulator_number = norm(input.regulatorNumber).toUpperCase() || null;
+
+  if (official_title && official_title.length > TITLE_MAX) {
+    return fail(`Official's title must be ${TITLE_MAX} characters or fewer`);
+  }
+  if ((official_fore?.length ?? 0) > NAME_MAX || (official_sur?.length ?? 0) > NAME_MAX) {
+    return fail(`Official's first and last name must be ${NAME_MAX} characters or fewer`);
+  }
+  if (official_postcode && !isUkPostcode(official_postcode)) return fail("Official's postcode is not a valid UK postcode");
+  if (official_phone && !/^[0-9 ()+-]{1,19}$/.test(official_phone)) {
+    return fail("Official's phone may only contain digits, spaces, ( ) + - (max 19 characters)");
+  }
+  if (norm(input.regulator) && !regulator) {
+    return fail(`Regulator must be one of: ${REGULATORS.join(", ")}`);
+  }
+  if (regulator === "none" && regulator_number) return fail("An exempt/unregistered charity has no regulator number");
+  if (regulator_number && regulator_number.length > REG_NO_MAX) {
+    return fail(`Regulator number must be ${REG_NO_MAX} characters or fewer`);
+  }
+
+  return {
+    fields: {
+      official_title,
+      official_fore,
+      official_sur,
+      official_postcode,
+      official_phone,
+      regulator,
+      regulator_number,
+    },
+    error: null,
+  };
+}
+
+/**
+ * Labels of the profile fields a claim still needs. The official is only
+ * declared when the charity files for itself (agents send <AgtOrNom> instead).
+ */
+export function missingProfileFields(
+  charity: Partial<CharityProfileFields>,
+  opts: { needsOfficial: boolean }
+): string[] {
+  const missing: string[] = [];
+
+  if (opts.needsOfficial) {
+    if (!norm(charity.official_fore)) missing.push("official's first name");
+    if (!norm(charity.official_sur)) missing.push("official's last name");
+    if (!norm(charity.official_postcode)) missing.push("official's postcode");
+    if (!norm(charity.official_phone)) missing.push("official's phone");
+  }
+
+  const regulator = normalizeRegulator(charity.regulator);
+  if (!regulator) missing.push("regulator");
+  else if (regulator !== "none" && !norm(charity.regulator_number)) missing.push("regulator number");
+
+  return missing;
+}
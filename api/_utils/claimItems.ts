@@ -0,0 +1,257 @@
+// api/_utils/claimItems.ts
+import { normalizeDonorFields, type NormalizationChange } from "./hmrcNormalize.js";
+
+/**
+ * Rules for claim_items rows, shared by add-item, update-item, import-csv and
+ * the XML generator.
+ *
+ * Two kinds of row (claim_items.item_type):
+ * - "donor": one named donation -> <GAD><Donor>...</Donor>
+ * - "aggregated": several small donations (each £20 or less) totalled into
+ *   one row with a description instead of a donor -> <GAD><AggDonation>.
+ *   HMRC caps an aggregated row at £1,000; its date is the date of the last
+ *   donation included.
+ *
+ * Sponsorship money for an event is flagged with <Sponsored>yes</Sponsored>;
+ * HMRC only allows that on named donor rows, never on aggregated ones.
+ *
+ * Donors living outside the UK have no postcode: the row is flagged
+ * donor_overseas and the XML sends <Overseas>yes</Overseas> instead.
+ *
+ * Donor names and postcodes are stored in HMRC's format (hmrcNormalize.ts);
+ * the address is kept in full and cut down to the house name/number in the XML.
+ */
+
+export type ClaimItemType = "donor" | "aggregated";
+
+/** Largest single donation that may go into an aggregated row */
+export const AGG_DONATION_MAX_EACH = 20;
+/** Largest total for one aggregated row */
+export const AGG_ROW_MAX_TOTAL = 1000;
+/** <AggDonation> max length */
+export const AGG_DESCRIPTION_MAX = 35;
+
+export type ClaimItemFields = {
+  item_type: ClaimItemType;
+  donor_title: string | null;
+  donor_first_name: string | null;
+  donor_last_name: string | null;
+  donor_address: string | null;
+  donor_postcode: string | null;
+  /** donor lives outside the UK -> <Overseas>yes</Overseas> instead of <Postcode> */
+  donor_overseas: boolean;
+  agg_description: string | null;
+  /** sponsorship money for an event -> <Sponsored>yes</Sponsored> */
+  sponsored: boolean;
+  donation_date: string;
+  donation_amount: number;
+};
+
+function norm(v: any): string {
+  return String(v ?? "").trim();
+}
+
+function isIsoDate(d: string) {
+  return /^\d{4}-\d{2}-\d{2}$/.test(d);
+}
+
+/** true / "yes" / "y" / "true" / "1" (CSV and form values) */
+export function parseYesFlag(v: any): boolean {
+  if (v === true) return true;
+  const t = norm(v).toLowerCase();
+  return t === "yes" || t === "y" || t === "true" || t === "1";
+}
+
+/** "aggregated" (or "agg"/"aggregate") -> aggregated; anything else is a named donor row */
+export function normalizeItemType(v: any): ClaimItemType {
+  const t = norm(v).toLowerCase();
+  return t === "aggregated" || t === "aggregate" || t === "agg" ? "aggregated" : "donor";
+}
+
+/**
+ * Builds the claim_items columns for one row from loose input
+ * (camelCase API body or snake_case CSV row, already mapped by the caller).
+ * Donor fields are cleared on aggregated rows and vice versa.
+ * Returns { error } with a user-facing message when the row is invalid, and
+ * `changes` listing every adjustment made to fit HMRC's rules.
+ */
+export function buildClaimItemFields(input: {
+  itemType?: any;
+  title?: any;
+  firstName?: any;
+  lastName?: any;
+  address?: any;
+  postcode?: any;
+  overseas?: any;
+  aggDescription?: any;
+  sponsored?: any;
+  donationDate?: any;
+  donationAmount?: any;
+}):
+  | { fields: ClaimItemFields; error: null; changes: NormalizationChange[] }
+  | { fields: null; error: string; changes?: undefined } {
+  const item_type = normalizeItemType(input.itemType);
+  const donation_date = norm(input.donationDate);
+  const donation_amount = Number(input.donationAmount);
+  const sponsored = parseYesFlag(input.sponsored);
+
+  const fail = (error: string) => ({ fields: null, error });
+
+  if (item_type === "aggregated") {
+    const agg_description = norm(input.aggDescription);
+
+    if (!agg_description) return fail("Description is required for an aggregated row");
+    if (sponsored) return fail("Sponsored donations cannot be aggregated");
+    if (agg_description.length > AGG_DESCRIPTION_MAX) {
+      return fail(`Description must be ${AGG_DESCRIPTION_MAX} characters or fewer`);
+    }
+    if (!isIsoDate(donation_date)) return fail("Donation Date must be YYYY-MM-DD (date of the last donation included)");
+    if (!Number.isFinite(donation_amount) || donation_amount <= 0) {
+      return fail("Donation Amount must be a positive number");
+    }
+    if (donation_amount > AGG_ROW_MAX_TOTAL) {
+      return fail(`An aggregated row cannot exceed £${AGG_ROW_MAX_TOTAL.toLocaleString()}`);
+    }
+
+    return {
+      fields: {
+        item_type,
+        donor_title: null,
+        donor_first_name: null,
+        donor_last_name: null,
+        donor_address: null,
+        donor_postcode: null,
+        donor_overseas: false,
+        agg_description,
+        sponsored: false,
+        donation_date,
+        donation_amount,
+      },
+      error: null,
+      changes: [],
+    };
+  }
+
+  const donor_first_name = norm(input.firstName);
+  const donor_last_name = norm(input.lastName);
+  const donor_address = norm(input.address);
+  const donor_overseas = parseYesFlag(input.overseas);
+  const donor_postcode = donor_overseas ? "" : norm(input.postcode);
+
+  if (!donor_first_name) return fail("First Name is required");
+  if (!donor_last_name) return fail("Last Name is required");
+  if (!donor_address) return fail("Address is required");
+  if (!donor_postcode && !donor_overseas) return fail("Postcode is required (or mark the donor as overseas)");
+  if (!isIsoDate(donation_date)) return fail("Donation Date must be YYYY-MM-DD");
+  if (!Number.isFinite(donation_amount) || donation_amount <= 0) {
+    return fail("Donation Amount must be a positive number");
+  }
+
+  const donor = normalizeDonorFields({
+    title: norm(input.title),
+    firstName: donor_first_name,
+    lastName: donor_last_name,
+    address: donor_address,
+    postcode: donor_postcode,
+    overseas: donor_overseas,
+  });
+  if (donor.problems.length) return fail(donor.problems.join("; "));
+
+  return {
+    fields: {
+      item_type,
+      donor_title: donor.title,
+      donor_first_name: donor.firstName,
+      donor_last_name: donor.lastName,
+      donor_address,
+      donor_postcode: donor.postcode || null,
+      donor_overseas,
+      agg_description: null,
+      sponsored,
+      donation_date,
+      donation_amount,
+    },
+    error: null,
+    changes: donor.changes,
+  };
+}
+
+/** Legacy NOT NULL claim_items.donor_name for a row */
+export function donorNameFor(fields: ClaimItemFields): string {
+  if (fields.item_type === "aggregated") return fields.agg_description || "Aggregated donations";
+  return [fields.donor_title || "", fields.donor_first_name || "", fields.donor_last_name || ""]
+    .filter(Boolean)
+    .join(" ")
+    .trim();
+}
+
+export type SmallDonation = {
+  id: string;
+  item_type?: string | null;
+  sponsored?: boolean | null;
+  donor_first_name?: string | null;
+  donor_last_name?: string | null;
+  donor_address?: string | null;
+  donor_postcode?: string | null;
+  donor_overseas?: boolean | null;
+  donation_date: string;
+  donation_amount: number;
+};
+
+/** A donor row without a full name + address can only be claimed as part of an aggregate */
+export function isAnonymousDonation(it: SmallDonation): boolean {
+  return (
+    !norm(it.donor_first_name) ||
+    !norm(it.donor_last_name) ||
+    !norm(it.donor_address) ||
+    (!norm(it.donor_postcode) && !it.donor_overseas)
+  );
+}
+
+export type AggregationGroup = {
+  itemIds: string[];
+  /** date of the last donation in the group */
+  donation_date: string;
+  donation_amount: number;
+  agg_description: string;
+};
+
+/**
+ * Packs eligible donor rows (£20 or less; only anonymous ones unless
+ * includeNamed) into aggregated rows of at most £1,000, in date order.
+ */
+export function planSmallDonationAggregation(
+  items: SmallDonation[],
+  opts: { includeNamed?: boolean } = {}
+): AggregationGroup[] {
+  const eligible = items
+    .filter((it) => normalizeItemType(it.item_type) === "donor" && !it.sponsored)
+    .filter((it) => {
+      const amt = Number(it.donation_amount);
+      return Number.isFinite(amt) && amt > 0 && amt <= AGG_DONATION_MAX_EACH;
+    })
+    .filter((it) => isIsoDate(norm(it.donation_date).slice(0, 10)))
+    .filter((it) => opts.includeNamed || isAnonymousDonation(it))
+    .sort((a, b) => norm(a.donation_date).localeCompare(norm(b.donation_date)));
+
+  const groups: AggregationGroup[] = [];
+  let cur: AggregationGroup | null = null;
+
+  for (const it of eligible) {
+    const amt = Number(it.donation_amount);
+    // work in pence so the cap isn't tripped by float drift
+    if (!cur || Math.round((cur.donation_amount + amt) * 100) > AGG_ROW_MAX_TOTAL * 100) {
+      cur = { itemIds: [], donation_date: "", donation_amount: 0, agg_description: "" };
+      groups.push(cur);
+    }
+    cur.itemIds.push(String(it.id));
+    cur.donation_amount = Math.round((cur.donation_amount + amt) * 100) / 100;
+    cur.donation_date = norm(it.donation_date).slice(0, 10);
+  }
+
+  for (const g of groups) {
+    g.agg_description = `${g.itemIds.length} donation${g.itemIds.length === 1 ? "" : "s"} of £${AGG_DONATION_MAX_EACH} or less`;
+  }
+
+  return groups;
+}
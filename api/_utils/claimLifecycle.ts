@@ -0,0 +1,458 @@
+// api/_utils/claimLifecycle.ts
+import { supabaseAdmin } from "./supabase.js";
+import { getXmlMode, summarizeClaimProblems, validateClaimContent, type ClaimProblem } from "./hmrcXml.js";
+import { getCharitySenderRole, resolveGatewayCreds } from "./hmrcCredentials.js";
+import { loadLiveClaimContent, snapshotFromContent, type ClaimContent } from "./claimSnapshot.js";
+import { attachAdjustmentsToClaim, settleClaimAdjustments } from "./adjustments.js";
+
+/**
+ * The claim state machine. Every route that changes a claim (or its items)
+ * asks this module first, and the same answer is sent to the UI (`actions`)
+ * so buttons enable exactly when the server would accept them.
+ *
+ *   draft -> ready (markReady; approve keeps it ready) -> submitting -> submitted
+ *     -> acknowledged -> accepted -> paid (markPaid)
+ *   submitting / submitted / acknowledged -> rejected (HMRC said no)
+ *   ready / rejected -> draft (reopen), rejected -> ready (resubmit)
+ *   draft / ready / rejected -> withdrawn
+ *
+ * Guards:
+ * - edit (items, other income, GASDS): draft only, checked before the write
+ *   (claimEditError) and confirmed after it (confirmClaimEdit)
+ * - markReady: every content rule (validateClaimContent in hmrcXml.ts), then
+ *   the content is frozen in claims.ready_snapshot (claimSnapshot.ts) and the
+ *   claim takes the adjustments it carries (adjustments.ts); reopen and
+ *   withdraw release them
+ * - approve / submit / resubmit: gateway credentials resolvable for the charity
+ * - submit: approved, and never transmitted before (no IRmark / CorrelationID)
+ * - resubmit: rejected, or a send HMRC never answered (see claimSubmission.ts)
+ *
+ * HMRC-driven moves are made by claimSubmission.ts and hmrcPoller.ts through
+ * moveClaimStatus; like transitionClaim it checks CLAIM_TRANSITIONS and
+ * compare-and-sets on `status`, so two writers cannot both move the same claim.
+ */
+
+export const CLAIM_STATUSES = [
+  "draft",
+  "ready",
+  "submitting",
+  "submitted",
+  "acknowledged",
+  "accepted",
+  "rejected",
+  "paid",
+  "withdrawn",
+] as const;
+export type ClaimStatus = (typeof CLAIM_STATUSES)[number];
+
+export const CLAIM_ACTIONS = [
+  "edit",
+  "markReady",
+  "reopen",
+  "approve",
+  "submit",
+  "resubmit",
+  "poll",
+  "markPaid",
+  "withdraw",
+] as const;
+export type ClaimAction = (typeof CLAIM_ACTIONS)[number];
+
+/** Legal status changes */
+export const CLAIM_TRANSITIONS: Record<ClaimStatus, readonly ClaimStatus[]> = {
+  draft: ["ready", "withdrawn"],
+  ready: ["draft", "submitting", "withdrawn"],
+  submitting: ["ready", "submitted", "acknowledged", "rejected"],
+  submitted: ["acknowledged", "accepted", "rejected"],
+  acknowledged: ["acknowledged", "accepted", "rejected"],
+  accepted: ["paid"],
+  rejected: ["draft", "ready", "withdrawn"],
+  paid: [],
+  withdrawn: [],
+};
+
+/** Statuses each action starts from (further conditions in actionBlock) */
+const ACTION_FROM: Record<ClaimAction, readonly ClaimStatus[]> = {
+  edit: ["draft"],
+  markReady: ["draft"],
+  reopen: ["ready", "rejected"],
+  approve: ["ready"],
+  submit: ["ready"],
+  resubmit: ["ready", "submitting", "rejected"],
+  poll: ["submitted", "acknowledged"],
+  markPaid: ["accepted"],
+  withdraw: ["draft", "ready", "rejected"],
+};
+
+const ACTION_LABELS: Record<ClaimAction, string> = {
+  edit: "be edited",
+  markReady: "be marked ready",
+  reopen: "be reopened",
+  approve: "be approved",
+  submit: "be submitted",
+  resubmit: "be resubmitted",
+  poll: "be polled",
+  markPaid: "be marked paid",
+  withdraw: "be withdrawn",
+};
+
+/** A claim left in "submitting" this long is assumed abandoned mid-send (crash / function timeout) */
+export const STALE_SUBMITTING_MINUTES = 10;
+
+/** claims columns the lifecycle checks need */
+export const CLAIM_LIFECYCLE_COLS =
+  "id, charity_id, status, approved_at, approved_by, hmrc_irmark, hmrc_correlation_id, hmrc_submit_started_at, content_changed_at";
+
+export type LifecycleClaim = {
+  id: string;
+  charity_id: string;
+  /** Stamped by confirmClaimEdit after every content edit */
+  content_changed_at?: string | null;
+} & ClaimState;
+
+/** What actionBlock looks at */
+export type ClaimState = {
+  status: string;
+  approved_at?: string | null;
+  approved_by?: string | null;
+  hmrc_irmark?: string | null;
+  hmrc_correlation_id?: string | null;
+  hmrc_submit_started_at?: string | null;
+};
+
+/** What a claim forgets about its last transmission when it is reopened or resubmitted */
+export const CLEARED_TRANSMISSION_FIELDS = {
+  hmrc_irmark: null,
+  hmrc_irmark_receipt: null,
+  hmrc_correlation_id: null,
+  hmrc_poll_url: null,
+  hmrc_poll_interval: null,
+  hmrc_next_poll_at: null,
+  hmrc_errors: null,
+  hmrc_submit_key: null,
+  hmrc_submit_started_at: null,
+};
+
+export function isClaimStatus(v: any): v is ClaimStatus {
+  return (CLAIM_STATUSES as readonly string[]).includes(String(v));
+}
+
+export function canMoveClaim(from: string, to: ClaimStatus): boolean {
+  return isClaimStatus(from) && CLAIM_TRANSITIONS[from].includes(to);
+}
+
+export function isStaleSubmitting(claim: ClaimState, now = new Date()): boolean {
+  const started = claim.hmrc_submit_started_at ? Date.parse(claim.hmrc_submit_started_at) : NaN;
+  return (
+    claim.status === "submitting" &&
+    (!Number.isFinite(started) || now.getTime() - started > STALE_SUBMITTING_MINUTES * 60_000)
+  );
+}
+
+/** Sent before but HMRC never answered: IRmark on record, no CorrelationID */
+export function isUnansweredSend(claim: ClaimState): boolean {
+  return claim.status === "ready" && !!claim.hmrc_irmark && !claim.hmrc_correlation_id;
+}
+
+/**
+ * Why `action` is not possible for the claim in its current state
+ * (null = allowed). State only; the async guards are in checkClaimGuards.
+ */
+export function actionBlock(claim: ClaimState, action: ClaimAction, now = new Date()): string | null {
+  const status = String(claim.status || "");
+  if (!isClaimStatus(status)) return `Claim has unknown status '${status}'`;
+
+  const notNow = `Claim is '${status}' and cannot ${ACTION_LABELS[action]}`;
+  if (!ACTION_FROM[action].includes(status)) return notNow;
+
+  const transmitted = !!claim.hmrc_irmark || !!claim.hmrc_correlation_id;
+
+  switch (action) {
+    case "approve":
+      if (claim.approved_at) return "Claim is already approved";
+      if (transmitted) return notNow;
+      return null;
+    case "submit":
+      if (transmitted) {
+        return `Claim was already sent to HMRC (IRmark ${claim.hmrc_irmark ?? "-"}, CorrelationID ${
+          claim.hmrc_correlation_id ?? "-"
+        }). Use "Resubmit after rejection" to send it again.`;
+      }
+      if (!claim.approved_at) return "Claim must be approved before it is submitted";
+      return null;
+    case "resubmit":
+      if (status === "rejected" || isUnansweredSend(claim) || isStaleSubmitting(claim, now)) return null;
+      return `Claim is '${status}'; only rejected claims (or sends HMRC never answered) can be resubmitted`;
+    case "reopen":
+    case "withdraw":
+      // a "ready" claim with an IRmark may have reached HMRC: only resubmit may touch it
+      if (status === "ready" && transmitted) return notNow;
+      return null;
+    default:
+      return null;
+  }
+}
+
+/** Actions the UI should offer for this claim */
+export function allowedClaimActions(claim: ClaimState, now = new Date()): ClaimAction[] {
+  return CLAIM_ACTIONS.filter((a) => actionBlock(claim, a, now) === null);
+}
+
+/** markReady: all content rules on the live rows (the content is returned for the snapshot) */
+async function readyCheck(claim: LifecycleClaim): Promise<{ problems: ClaimProblem[]; content: ClaimContent }> {
+  const content = await loadLiveClaimContent(claim.id);
+  const needsOfficial = (await getCharitySenderRole(claim.charity_id)) !== "agent";
+  const { problems } = await validateClaimContent(content, { mode: getXmlMode(), needsOfficial });
+  return { problems, content };
+}
+
+/**
+ * Data guards for an action (all failures, not just the first). Run after
+ * actionBlock, right before the status changes.
+ */
+export async function checkClaimGuards(claim: LifecycleClaim, action: ClaimAction): Promise<ClaimProblem[]> {
+  const problems: ClaimProblem[] = [];
+
+  if (action === "markReady") problems.push(...(await readyCheck(claim)).problems);
+
+  if (action === "approve" || action === "submit" || action === "resubmit") {
+    try {
+      await resolveGatewayCreds(claim.charity_id, getXmlMode());
+    } catch (e: any) {
+      problems.push({ scope: "charity", id: claim.charity_id, message: `No gateway credentials: ${e?.message ?? "unknown error"}` });
+    }
+  }
+
+  return problems;
+}
+
+export type ClaimTransitionResult =
+  | { ok: true; claim: LifecycleClaim; actions: ClaimAction[] }
+  | { ok: false; code: number; error: string; problems?: ClaimProblem[] };
+
+/** Loads a claim's lifecycle columns (null if it does not exist) */
+export async function loadLifecycleClaim(claimId: string): Promise<LifecycleClaim | null> {
+  const { data, error } = await supabaseAdmin
+    .from("claims")
+    .select(CLAIM_LIFECYCLE_COLS)
+    .eq("id", claimId)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  return (data as LifecycleClaim | null) ?? null;
+}
+
+/** Status (and stamp) an operator action moves a claim to */
+function targetFor(claim: LifecycleClaim, action: ClaimAction, actor: { userId: string }, now: Date) {
+  switch (action) {
+    case "markReady":
+      return { status: "ready" as const, fields: {} };
+    case "reopen":
+      return {
+        status: "draft" as const,
+        fields: {
+          approved_at: null,
+          approved_by: null,
+          // editable again: the frozen content no longer describes the claim
+          ready_snapshot: null,
+          ...(claim.status === "rejected" ? CLEARED_TRANSMISSION_FIELDS : {}),
+        },
+      };
+    case "approve":
+      return { status: "ready" as const, fields: { approved_at: now.toISOString(), approved_by: actor.userId } };
+    case "markPaid":
+      return { status: "paid" as const, fields: { paid_at: now.toISOString() } };
+    case "withdraw":
+      return { status: "withdrawn" as const, fields: { withdrawn_at: now.toISOString() } };
+    default:
+      return null;
+  }
+}
+
+/** Actions transitionClaim carries out (submit / resubmit / poll go through their own services) */
+export const OPERATOR_TRANSITIONS: readonly ClaimAction[] = ["markReady", "reopen", "approve", "markPaid", "withdraw"];
+
+/**
+ * Runs one operator transition: state check, guards, then a compare-and-set
+ * on status. `fields` are written together with the new status. markReady
+ * also writes the snapshot and its totals (donation_count, total_amount).
+ */
+export async function transitionClaim(
+  claimId: string,
+  action: ClaimAction,
+  actor: { userId: string },
+  opts: { fields?: Record<string, any>; now?: Date } = {}
+): Promise<ClaimTransitionResult> {
+  const now = opts.now ?? new Date();
+  const id = String(claimId || "").trim();
+  if (!id) return { ok: false, code: 400, error: "claimId is required" };
+
+  const claim = await loadLifecycleClaim(id);
+  if (!claim) return { ok: false, code: 404, error: "Claim not found" };
+
+  const target = targetFor(claim, action, actor, now);
+  if (!target) return { ok: false, code: 400, error: `'${action}' is not a status transition` };
+
+  const blocked = actionBlock(claim, action, now);
+  if (blocked) return { ok: false, code: 409, error: blocked };
+
+  if (target.status !== claim.status && !canMoveClaim(claim.status, target.status)) {
+    return { ok: false, code: 409, error: `Claim cannot move from '${claim.status}' to '${target.status}'` };
+  }
+
+  let problems: ClaimProblem[];
+  let frozen: Record<string, any> = {};
+
+  if (action === "markReady") {
+    const ready = await readyCheck(claim);
+    problems = ready.problems;
+    if (!problems.length) {
+      const snapshot = snapshotFromContent(ready.content, { takenBy: actor.userId, at: now });
+      frozen = {
+        ready_snapshot: snapshot,
+        donation_count: snapshot.totals.donation_count,
+        total_amount: snapshot.totals.total_amount,
+      };
+    }
+  } else {
+    problems = await checkClaimGuards(claim, action);
+  }
+
+  if (problems.length) {
+    return {
+      ok: false,
+      code: 400,
+      error: `Claim cannot ${ACTION_LABELS[action]}: ${summarizeClaimProblems(problems)}`,
+      problems,
+    };
+  }
+
+  let query = supabaseAdmin
+    .from("claims")
+    .update({ status: target.status, ...target.fields, ...frozen, ...(opts.fields ?? {}) })
+    .eq("id", id)
+    .eq("status", claim.status);
+
+  // an edit confirmed since the content was read would be missing from the snapshot
+  if (action === "markReady") {
+    query = claim.content_changed_at
+      ? query.eq("content_changed_at", claim.content_changed_at)
+      : query.is("content_changed_at", null);
+  }
+
+  const { data, error } = await query.select(CLAIM_LIFECYCLE_COLS).maybeSingle();
+
+  if (error) return { ok: false, code: 500, error: error.message };
+  if (!data) return { ok: false, code: 409, error: "Claim changed in the meantime; reload and try again" };
+
+  if (action === "markReady") {
+    const reserveErr = await reserveFrozenAdjustments(id, frozen.ready_snapshot.adjustments);
+    if (reserveErr) return { ok: false, code: 409, error: reserveErr };
+  }
+
+  // back to draft or out of the running: its adjustments are open for the next claim
+  if (action === "reopen" || action === "withdraw") await settleClaimAdjustments(id, false);
+
+  const updated = data as LifecycleClaim;
+  return { ok: true, claim: updated, actions: allowedClaimActions(updated, now) };
+}
+
+/**
+ * markReady, once the claim is ready: the adjustments frozen in its snapshot
+ * become this claim's, at the frozen amounts, so the ledger rows can no longer
+ * change under it. If one was edited or taken meanwhile the claim goes back
+ * to draft. Returns that error (null = reserved).
+ */
+async function reserveFrozenAdjustments(
+  claimId: string,
+  adjustments: Array<{ id: string; amount: number }>
+): Promise<string | null> {
+  let problem: string | null = null;
+  try {
+    const notTaken = await attachAdjustmentsToClaim(claimId, adjustments);
+    if (notTaken.length) problem = "Adjustments changed while the claim was being marked ready; it is still a draft, try again";
+  } catch (e: any) {
+    problem = `Adjustments could not be reserved (${e?.message ?? "unknown error"}); the claim is still a draft`;
+  }
+  if (!problem) return null;
+
+  await settleClaimAdjustments(claimId, false);
+  await moveClaimStatus(claimId, "ready", "draft", { approved_at: null, approved_by: null, ready_snapshot: null });
+  return problem;
+}
+
+/**
+ * Status change driven by HMRC or by the send itself (claimSubmission.ts,
+ * hmrcPoller.ts): compare-and-set from any of `from` to `to`, with `fields`
+ * written alongside. `whereNull` adds "column is null" conditions.
+ *
+ * Throws if CLAIM_TRANSITIONS does not allow one of the moves (a bug, not a
+ * runtime condition). moved is false when the claim was no longer in `from`.
+ */
+export async function moveClaimStatus(
+  claimId: string,
+  from: ClaimStatus | readonly ClaimStatus[],
+  to: ClaimStatus,
+  fields: Record<string, any> = {},
+  opts: { whereNull?: string[] } = {}
+): Promise<{ moved: boolean; error: string | null }> {
+  const fromList: readonly ClaimStatus[] = typeof from === "string" ? [from] : from;
+
+  const illegal = fromList.find((f) => f !== to && !canMoveClaim(f, to));
+  if (illegal) throw new Error(`Claim cannot move from '${illegal}' to '${to}'`);
+
+  let query = supabaseAdmin
+    .from("claims")
+    .update({ ...fields, status: to })
+    .eq("id", claimId)
+    .in("status", [...fromList]);
+  for (const col of opts.whereNull ?? []) query = query.is(col, null);
+
+  const { data, error } = await query.select("id").maybeSingle();
+
+  if (error) return { moved: false, error: error.message };
+  return { moved: !!data, error: null };
+}
+
+/** Error message when a claim's items / income / GASDS may not change (null = they may) */
+export async function claimEditError(claimId: string): Promise<string | null> {
+  const claim = await loadLifecycleClaim(claimId);
+  if (!claim) return "Claim not found";
+
+  if (actionBlock(claim, "edit")) return `Claim is '${claim.status}'; it can only be changed while it is a draft`;
+  return null;
+}
+
+/** Same as claimEditError, for the claim an item belongs to */
+export async function itemClaimEditError(itemId: string): Promise<string | null> {
+  const { data: item, error } = await supabaseAdmin.from("claim_items").select("claim_id").eq("id", itemId).maybeSingle();
+
+  if (error) throw new Error(error.message);
+  if (!item) return "Item not found";
+  return claimEditError(String(item.claim_id));
+}
+
+/**
+ * Second half of the edit guard, run after an edit has been written:
+ * stamps claims.content_changed_at, but only while the claim is still a draft.
+ * markReady freezes only if that stamp is unchanged since it read the content,
+ * so an edit racing markReady either makes markReady fail or, when the claim
+ * left draft first, is rolled back here with `undo`.
+ *
+ * Returns the error to answer with (409), null if the edit stands.
+ */
+export async function confirmClaimEdit(claimId: string, undo: () => Promise<void>): Promise<string | null> {
+  const { data, error } = await supabaseAdmin
+    .from("claims")
+    .update({ content_changed_at: new Date().toISOString() })
+    .eq("id", claimId)
+    .eq("status", "draft")
+    .select("id")
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  if (data) return null;
+
+  await undo();
+  return "Claim stopped being a draft while the change was saved; the change was not kept";
+}
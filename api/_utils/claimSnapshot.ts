@@ -0,0 +1,240 @@
+// api/_utils/claimSnapshot.ts
+import { supabaseAdmin } from "./supabase.js";
+import { CHARITY_PROFILE_COLS, type CharityProfileFields } from "./charityProfile.js";
+import { loadClaimGasds, loadGasdsRegisters, type CommunityBuilding, type GasdsEntry } from "./gasds.js";
+import { loadAdjustmentsForClaim, type ClaimAdjustment } from "./adjustments.js";
+
+/**
+ * What a claim consists of when it is sent: period, charity details,
+ * donation rows, tax-deducted other income, GASDS (entries, adjustment and
+ * the community buildings they name) and the <Adjustment> rows it carries.
+ *
+ * Marking a claim ready validates this content (validateClaimContent in
+ * hmrcXml.ts) and freezes it in claims.ready_snapshot:
+ *
+ *   { version, takenAt, takenBy, claim, charity, items, otherIncome, gasds, adjustments, totals }
+ *
+ * From then on the XML is built from the snapshot only, not the live rows,
+ * so a later change to a donor, a building or the charity's profile cannot
+ * alter what is sent (or resent after a rejection). Only markReady writes it
+ * and only reopen (back to draft) clears it; see claimLifecycle.ts.
+ *
+ * Not frozen: gateway credentials (resolved per message). GASDS caps are
+ * re-checked against the charity's other claims at send time. The frozen
+ * adjustments are taken by the claim at markReady (so their ledger rows can
+ * no longer be edited) and confirmed again, amount included, before sending.
+ */
+
+/** 2: gasds + adjustments added; older snapshots must be taken again */
+export const SNAPSHOT_VERSION = 2;
+
+export const CONTENT_ITEM_COLS =
+  "id, item_type, donor_first_name, donor_last_name, donor_address, donor_postcode, donor_overseas, agg_description, sponsored, donation_date, donation_amount";
+
+export const CONTENT_OTHER_INCOME_COLS = "id, payer_name, income_date, gross_amount, tax_deducted";
+
+export const CONTENT_CHARITY_COLS = `id, name, contact_email, charity_number, charity_id, ${CHARITY_PROFILE_COLS}`;
+
+export type ContentItem = {
+  id: string;
+  item_type: string | null;
+  donor_first_name: string | null;
+  donor_last_name: string | null;
+  donor_address: string | null;
+  donor_postcode: string | null;
+  donor_overseas: boolean | null;
+  agg_description: string | null;
+  sponsored: boolean | null;
+  donation_date: string | null;
+  donation_amount: number | string | null;
+};
+
+export type ContentOtherIncome = {
+  id: string;
+  payer_name: string | null;
+  income_date: string | null;
+  gross_amount: number | string | null;
+  tax_deducted: number | string | null;
+};
+
+export type ContentCharity = {
+  id: string;
+  name: string | null;
+  contact_email: string | null;
+  charity_number: string | null;
+  /** legacy CHARID column, used when charity_number is empty */
+  charity_id: string | null;
+} & CharityProfileFields;
+
+export type ContentGasds = {
+  entries: GasdsEntry[];
+  adjustment: number | null;
+  /** community buildings named by the entries (name, address, postcode as sent) */
+  buildings: CommunityBuilding[];
+  connectedCharities: boolean;
+};
+
+export type ContentAdjustment = Pick<ClaimAdjustment, "id" | "amount" | "reason">;
+
+export type ClaimContent = {
+  claim: { id: string; charity_id: string; status: string; period_start: string | null; period_end: string | null };
+  charity: ContentCharity;
+  items: ContentItem[];
+  otherIncome: ContentOtherIncome[];
+  gasds: ContentGasds;
+  adjustments: ContentAdjustment[];
+};
+
+export type ClaimTotals = {
+  donation_count: number;
+  total_amount: number;
+  other_income_gross: number;
+  other_income_tax: number;
+};
+
+export type ClaimSnapshot = Omit<ClaimContent, "claim"> & {
+  version: typeof SNAPSHOT_VERSION;
+  takenAt: string;
+  /** users.id of whoever marked the claim ready */
+  takenBy: string;
+  claim: Pick<ClaimContent["claim"], "period_start" | "period_end">;
+  totals: ClaimTotals;
+};
+
+function sum(rows: any[], key: string) {
+  return Math.round(rows.reduce((s, r) => s + Number(r[key] || 0), 0) * 100) / 100;
+}
+
+export function claimTotals(content: Pick<ClaimContent, "items" | "otherIncome">): ClaimTotals {
+  return {
+    donation_count: content.items.length,
+    total_amount: sum(content.items, "donation_amount"),
+    other_income_gross: sum(content.otherIncome, "gross_amount"),
+    other_income_tax: sum(content.otherIncome, "tax_deducted"),
+  };
+}
+
+/** The claim as it is in the database right now */
+export async function loadLiveClaimContent(claimId: string): Promise<ClaimContent> {
+  const { data: claim, error: claimErr } = await supabaseAdmin
+    .from("claims")
+    .select("id, charity_id, status, period_start, period_end")
+    .eq("id", claimId)
+    .single();
+
+  if (claimErr || !claim) throw new Error(claimErr?.message || "Claim not found");
+  const row = claim as ClaimContent["claim"];
+
+  const { data: charity, error: charityErr } = await supabaseAdmin
+    .from("charities")
+    .select(CONTENT_CHARITY_COLS)
+    .eq("id", row.charity_id)
+    .single();
+
+  if (charityErr || !charity) throw new Error(charityErr?.message || "Charity not found");
+
+  const { data: items, error: itemsErr } = await supabaseAdmin
+    .from("claim_items")
+    .select(CONTENT_ITEM_COLS)
+    .eq("claim_id", claimId)
+    .order("donation_date", { ascending: true });
+
+  if (itemsErr) throw new Error(itemsErr.message);
+
+  const { data: otherIncome, error: oiErr } = await supabaseAdmin
+    .from("claim_other_income")
+    .select(CONTENT_OTHER_INCOME_COLS)
+    .eq("claim_id", claimId)
+    .order("income_date", { ascending: true });
+
+  if (oiErr) throw new Error(oiErr.message);
+
+  const { entries, adjustment } = await loadClaimGasds(claimId);
+  const registers = await loadGasdsRegisters(row.charity_id);
+
+  const adjustments = await loadAdjustmentsForClaim(row);
+
+  return {
+    claim: row,
+    charity: charity as unknown as ContentCharity,
+    items: (items ?? []) as ContentItem[],
+    otherIncome: (otherIncome ?? []) as ContentOtherIncome[],
+    gasds: {
+      entries,
+      adjustment,
+      buildings: registers.buildings.filter((b) => entries.some((e) => e.building_id === b.id)),
+      connectedCharities: registers.connected.length > 0,
+    },
+    adjustments: adjustments.map((a) => ({ id: a.id, amount: Number(a.amount), reason: a.reason })),
+  };
+}
+
+/** Freezes validated content (written to claims.ready_snapshot by markReady) */
+export function snapshotFromContent(content: ClaimContent, opts: { takenBy: string; at?: Date }): ClaimSnapshot {
+  // deep copy: the snapshot must not share rows with anything that may be mutated later
+  const frozen = JSON.parse(JSON.stringify(content)) as ClaimContent;
+
+  return {
+    version: SNAPSHOT_VERSION,
+    takenAt: (opts.at ?? new Date()).toISOString(),
+    takenBy: opts.takenBy,
+    claim: { period_start: frozen.claim.period_start, period_end: frozen.claim.period_end },
+    charity: frozen.charity,
+    items: frozen.items,
+    otherIncome: frozen.otherIncome,
+    gasds: frozen.gasds,
+    adjustments: frozen.adjustments,
+    totals: claimTotals(frozen),
+  };
+}
+
+/** claims.ready_snapshot if it holds a snapshot this code understands (null otherwise) */
+export function readClaimSnapshot(raw: any): ClaimSnapshot | null {
+  if (!raw || typeof raw !== "object") return null;
+  if (raw.version !== SNAPSHOT_VERSION) return null;
+  if (!Array.isArray(raw.items) || !raw.charity || !raw.claim) return null;
+  if (!raw.gasds || !Array.isArray(raw.gasds.entries) || !Array.isArray(raw.adjustments)) return null;
+  return {
+    ...raw,
+    otherIncome: Array.isArray(raw.otherIncome) ? raw.otherIncome : [],
+    gasds: { ...raw.gasds, buildings: Array.isArray(raw.gasds.buildings) ? raw.gasds.buildings : [] },
+  } as ClaimSnapshot;
+}
+
+/**
+ * What to send for a claim: its frozen snapshot once it has been marked
+ * ready, the live rows before that (XML preview of a draft).
+ */
+export async function loadClaimContent(
+  claimId: string
+): Promise<{ content: ClaimContent; snapshot: ClaimSnapshot | null }> {
+  const { data, error } = await supabaseAdmin
+    .from("claims")
+    .select("id, charity_id, status, ready_snapshot")
+    .eq("id", claimId)
+    .single();
+
+  if (error || !data) throw new Error(error?.message || "Claim not found");
+
+  const row = data as { id: string; charity_id: string; status: string; ready_snapshot: unknown };
+  const snapshot = readClaimSnapshot(row.ready_snapshot);
+  if (!snapshot) return { content: await loadLiveClaimContent(claimId), snapshot: null };
+
+  return {
+    content: {
+      claim: {
+        id: String(row.id),
+        charity_id: String(row.charity_id),
+        status: String(row.status),
+        period_start: snapshot.claim.period_start,
+        period_end: snapshot.claim.period_end,
+      },
+      charity: snapshot.charity,
+      items: snapshot.items,
+      otherIncome: snapshot.otherIncome,
+      gasds: snapshot.gasds,
+      adjustments: snapshot.adjustments,
+    },
+    snapshot,
+  };
+}
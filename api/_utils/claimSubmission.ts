@@ -0,0 +1,457 @@
+// api/_utils/claimSubmission.ts
+import { supabaseAdmin } from "./supabase.js";
+import { generateHmrcGiftAidClaim, summarizeClaimProblems } from "./hmrcXml.js";
+import { getHmrcSubmitUrl, hmrcTestSubmit } from "./hmrcTransport.js";
+import { claimFieldsFromSubmitResponse, tryParseGovTalkResponse } from "./govTalkResponse.js";
+import { hmrcErrorsForClaim, summarizeHmrcErrors, type HmrcClaimError } from "./hmrcErrors.js";
+import { summarizeSchemaViolations, validateClaimXml, type SchemaViolation } from "./hmrcSchema.js";
+import { sendDeleteForClaim } from "./hmrcPoller.js";
+import { attachAdjustmentsToClaim, settleClaimAdjustments } from "./adjustments.js";
+import type { VercelRequest } from "@vercel/node";
+import { latestSubmitAttempt, recordSubmissionAttempt } from "./submissionAttempts.js";
+import { govTalkAuthValues, redactSecrets } from "./hmrcRedact.js";
+import { actionBlock, checkClaimGuards, CLEARED_TRANSMISSION_FIELDS, isClaimStatus, moveClaimStatus } from "./claimLifecycle.js";
+
+/**
+ * The one way a claim goes to HMRC. Used by the operator routes
+ * (admin/claims/submit, admin/claims/submit-isv) and charity self-submit
+ * (hmrc/submit-claim), so every path does the same thing:
+ *
+ *   load claim (+ ownership check for charity users)
+ *   -> build XML from the ready snapshot (generateHmrcGiftAidClaim) -> offline schema check
+ *   -> attach its <Adjustment> rows -> POST to the Transaction Engine -> parse the acknowledgement
+ *   -> persist on the claim (status, CorrelationID, poll URL, IRmark, errors)
+ *   -> release the adjustments and send the DSP delete for a final error
+ *
+ * Each message sent is recorded in claim_submission_attempts (submissionAttempts.ts).
+ * The signed XML (with the gateway password) only lives in memory here; everything
+ * stored or returned goes through hmrcRedact.ts.
+ *
+ * Whether a claim may be sent at all (approved, credentials present) is
+ * decided by claimLifecycle.ts; this module only adds the duplicate checks.
+ *
+ * Never throws for expected failures: they come back as { ok: false, code }
+ * with the HTTP status the route should answer with.
+ *
+ * Duplicate safety (a second repayment claim for the same donations):
+ * - the claim is taken with a compare-and-set ready -> submitting, so of two
+ *   concurrent requests (double click) only one gets past it
+ * - the IRmark is stored before the XML goes out; a claim with an IRmark or
+ *   CorrelationID is never sent again by submitClaim, only by resubmitClaim
+ *   (the explicit "resubmit after rejection" action)
+ * - an Idempotency-Key repeated by the client gets the first request's
+ *   outcome back instead of a second transmission
+ */
+
+/** The only status a claim is sent from */
+export const SUBMITTABLE_STATUS = "ready";
+
+/** Held (compare-and-set from "ready") while the claim is built and sent */
+export const SUBMITTING_STATUS = "submitting";
+
+const IDEMPOTENCY_KEY_MAX = 200;
+
+/** claims columns the duplicate checks need */
+const SUBMIT_STATE_COLS =
+  "id, charity_id, status, approved_at, approved_by, hmrc_irmark, hmrc_irmark_receipt, hmrc_correlation_id, hmrc_poll_url, hmrc_poll_interval, hmrc_errors, hmrc_submit_key, hmrc_submit_started_at";
+
+/** Who is submitting: an operator (any claim) or a charity user (own claims only) */
+export type ClaimSubmitter = { userId: string; email?: string | null } & (
+  | { kind: "operator" }
+  | { kind: "charity"; charityId: string }
+);
+
+export type ClaimSubmissionSuccess = {
+  ok: true;
+  hmrcUrl: string;
+  httpStatus: number;
+  irmark: string;
+  irmarkReceipt: string;
+  qualifier: string | null;
+  correlationId: string | null;
+  pollUrl: string | null;
+  pollInterval: number | null;
+  /** business errors when HMRC answered the submission with an error */
+  errors: HmrcClaimError[];
+  /** gateway reply (redacted) */
+  receipt: string;
+  /** true when this is the stored outcome of an earlier request with the same Idempotency-Key */
+  replayed?: boolean;
+};
+
+export type ClaimSubmissionFailure = {
+  ok: false;
+  /** HTTP status for the route to answer with */
+  code: number;
+  error: string;
+  violations?: SchemaViolation[];
+  hmrcUrl?: string;
+  httpStatus?: number;
+  receipt?: string;
+  details?: unknown;
+};
+
+export type ClaimSubmissionResult = ClaimSubmissionSuccess | ClaimSubmissionFailure;
+
+/**
+ * Where claims are sent. HMRC_ISV_SUBMISSION_URL overrides the Transaction
+ * Engine submit URL; plain http is only allowed for a local simulator.
+ */
+export function getClaimSubmitUrl(): string {
+  const url = String(process.env.HMRC_ISV_SUBMISSION_URL || getHmrcSubmitUrl()).trim();
+  if (!/^https:\/\//i.test(url) && !/^http:\/\/(localhost|127\.0\.0\.1)(:\d+)?\//i.test(url)) {
+    throw new Error("HMRC_ISV_SUBMISSION_URL must be https://...");
+  }
+  return url;
+}
+
+function fetchErrorDetails(e: any) {
+  const cause = e?.cause;
+  return {
+    name: String(e?.name ?? ""),
+    message: String(e?.message ?? ""),
+    code: String(e?.code ?? cause?.code ?? ""),
+    cause: cause
+      ? {
+          name: String(cause?.name ?? ""),
+          message: String(cause?.message ?? ""),
+          code: String(cause?.code ?? ""),
+        }
+      : null,
+  };
+}
+
+/** Idempotency-Key header (or body.idempotencyKey) of a submit request */
+export function getIdempotencyKey(req: VercelRequest, body: any): string | null {
+  const header = req.headers["idempotency-key"];
+  const v = String((Array.isArray(header) ? header[0] : header) ?? body?.idempotencyKey ?? "").trim();
+  return v || null;
+}
+
+type SubmitState = {
+  id: string;
+  charity_id: string;
+  status: string;
+  approved_at: string | null;
+  approved_by: string | null;
+  hmrc_irmark: string | null;
+  hmrc_irmark_receipt: string | null;
+  hmrc_correlation_id: string | null;
+  hmrc_poll_url: string | null;
+  hmrc_poll_interval: number | null;
+  hmrc_errors: HmrcClaimError[] | null;
+  hmrc_submit_key: string | null;
+  hmrc_submit_started_at: string | null;
+};
+
+async function loadSubmitState(
+  id: string,
+  submitter: ClaimSubmitter
+): Promise<{ claim: SubmitState; failure: null } | { claim: null; failure: ClaimSubmissionFailure }> {
+  const { data, error } = await supabaseAdmin.from("claims").select(SUBMIT_STATE_COLS).eq("id", id).maybeSingle();
+
+  if (error) return { claim: null, failure: { ok: false, code: 500, error: error.message } };
+  if (!data) return { claim: null, failure: { ok: false, code: 404, error: "Claim not found" } };
+  if (submitter.kind === "charity" && data.charity_id !== submitter.charityId) {
+    return { claim: null, failure: { ok: false, code: 403, error: "Not allowed" } };
+  }
+  return { claim: data as SubmitState, failure: null };
+}
+
+/** Why submitClaim must not send this claim (null = it may) */
+function transmissionBlock(claim: SubmitState): string | null {
+  if (claim.status === SUBMITTING_STATUS) return "Claim is already being submitted";
+  return actionBlock(claim, "submit");
+}
+
+/** Outcome of the earlier request that used the same Idempotency-Key */
+async function replaySubmission(claim: SubmitState): Promise<ClaimSubmissionResult> {
+  if (claim.status === SUBMITTING_STATUS) {
+    return { ok: false, code: 409, error: "A submission with this Idempotency-Key is still in progress" };
+  }
+  if (!claim.hmrc_correlation_id) {
+    return {
+      ok: false,
+      code: 409,
+      error: 'The earlier submission with this Idempotency-Key got no answer from HMRC. Check Outstanding, then use "Resubmit after rejection".',
+    };
+  }
+
+  const attempt = await latestSubmitAttempt(claim.id);
+
+  return {
+    ok: true,
+    replayed: true,
+    hmrcUrl: attempt?.endpoint ?? "",
+    httpStatus: attempt?.http_status ?? 0,
+    irmark: claim.hmrc_irmark ?? "",
+    irmarkReceipt: claim.hmrc_irmark_receipt ?? "",
+    qualifier: attempt?.qualifier ?? null,
+    correlationId: claim.hmrc_correlation_id,
+    pollUrl: claim.hmrc_poll_url,
+    pollInterval: claim.hmrc_poll_interval,
+    errors: claim.hmrc_errors ?? [],
+    receipt: attempt?.response_body ?? "",
+  };
+}
+
+export async function submitClaim(
+  claimId: string,
+  submitter: ClaimSubmitter,
+  opts: { transport?: typeof hmrcTestSubmit; idempotencyKey?: string | null } = {}
+): Promise<ClaimSubmissionResult> {
+  const id = String(claimId || "").trim();
+  if (!id) return { ok: false, code: 400, error: "claimId is required" };
+
+  const key = String(opts.idempotencyKey ?? "").trim() || null;
+  if (key && key.length > IDEMPOTENCY_KEY_MAX) {
+    return { ok: false, code: 400, error: `Idempotency-Key must be ${IDEMPOTENCY_KEY_MAX} characters or fewer` };
+  }
+
+  // 1) Claim + who may send it
+  const { claim, failure } = await loadSubmitState(id, submitter);
+  if (failure) return failure;
+
+  // Same key again (double click, client retry): answer with what the first request did
+  if (key && claim.hmrc_submit_key === key) return replaySubmission(claim);
+
+  const blocked = transmissionBlock(claim);
+  if (blocked) return { ok: false, code: 409, error: blocked };
+
+  const problems = await checkClaimGuards(claim, "submit");
+  if (problems.length) return { ok: false, code: 400, error: summarizeClaimProblems(problems) };
+
+  let url: string;
+  try {
+    url = getClaimSubmitUrl();
+  } catch (e: any) {
+    return { ok: false, code: 500, error: e.message };
+  }
+
+  // 2) Take the claim: ready -> submitting, only while nothing has been transmitted
+  const taken = await moveClaimStatus(
+    id,
+    SUBMITTABLE_STATUS,
+    SUBMITTING_STATUS,
+    { hmrc_submit_key: key, hmrc_submit_started_at: new Date().toISOString() },
+    { whereNull: ["hmrc_irmark", "hmrc_correlation_id"] }
+  );
+
+  if (taken.error) return { ok: false, code: 500, error: taken.error };
+  if (!taken.moved) return { ok: false, code: 409, error: "Claim is already being submitted" };
+
+  // Nothing went out: back to ready so it can be fixed and submitted again
+  const release = (message: string) =>
+    moveClaimStatus(id, SUBMITTING_STATUS, SUBMITTABLE_STATUS, {
+      hmrc_submit_key: null,
+      hmrc_submit_started_at: null,
+      hmrc_last_message: message,
+    });
+
+  // 3) XML from the snapshot frozen at mark-ready (the generator re-checks every rule)
+  let generated: Awaited<ReturnType<typeof generateHmrcGiftAidClaim>>;
+  try {
+    generated = await generateHmrcGiftAidClaim(id);
+  } catch (e: any) {
+    await release(`Claim XML could not be built: ${e?.message ?? e}`);
+    return { ok: false, code: 400, error: e?.message ?? "Claim XML could not be built" };
+  }
+
+  const { xml, irmark, irmarkReceipt, charityId, senderRole, gadItemIds, adjustments, totals } = generated;
+
+  // Marked ready before snapshots existed: what would go out is not what was checked
+  if (!generated.fromSnapshot) {
+    const error = "Claim has no ready snapshot. Reopen it as draft and mark it ready again.";
+    await release(error);
+    return { ok: false, code: 409, error };
+  }
+
+  // Offline schema check — don't send HMRC anything it would reject on structure
+  const violations = await validateClaimXml(xml, gadItemIds);
+  if (violations.length) {
+    await release(`Schema validation failed: ${summarizeSchemaViolations(violations)}`);
+    return { ok: false, code: 422, error: "Claim XML failed schema validation", violations };
+  }
+
+  // The <Adjustment> goes out with this claim: confirm its rows (taken at markReady,
+  // released again by a rejection) still hold the frozen amounts and are this claim's
+  let notAttached: string[];
+  try {
+    notAttached = await attachAdjustmentsToClaim(id, adjustments);
+  } catch (e: any) {
+    await release(`Adjustments could not be attached: ${e?.message ?? e}`);
+    return { ok: false, code: 500, error: e?.message ?? "Adjustments could not be attached" };
+  }
+
+  if (notAttached.length) {
+    const error =
+      "Some adjustments in this claim have changed or been taken by another claim. Reopen it as draft and mark it ready again.";
+    await settleClaimAdjustments(id, false);
+    await release(error);
+    return { ok: false, code: 409, error };
+  }
+
+  // From here on HMRC may receive the claim: the IRmark goes on record first,
+  // so it cannot be sent again without an explicit resubmit
+  const { error: markErr } = await supabaseAdmin
+    .from("claims")
+    .update({
+      hmrc_irmark: irmark,
+      hmrc_irmark_receipt: irmarkReceipt,
+      hmrc_gad_item_ids: gadItemIds,
+      hmrc_sender_role: senderRole,
+    })
+    .eq("id", id)
+    .eq("status", SUBMITTING_STATUS);
+
+  if (markErr) {
+    await settleClaimAdjustments(id, false);
+    await release(`Claim could not be marked as sending: ${markErr.message}`);
+    return { ok: false, code: 500, error: markErr.message };
+  }
+
+  // No answer we can trust: the claim may or may not have arrived, so it keeps its IRmark
+  const unknownOutcome = (message: string) =>
+    moveClaimStatus(id, SUBMITTING_STATUS, SUBMITTABLE_STATUS, {
+      hmrc_submit_started_at: null,
+      hmrc_last_message: `${message} HMRC may still have received the claim: check Outstanding, then use "Resubmit after rejection".`,
+    });
+
+  // 4) Send (25s timeout in the transport)
+  const secrets = govTalkAuthValues(xml);
+  const redact = (text: string) => redactSecrets(text, secrets);
+  const actor = { userId: submitter.userId, email: submitter.email ?? null };
+  const attempt = { claimId: id, kind: "submit" as const, actor, endpoint: url, requestBody: xml, secrets };
+
+  let sent: Awaited<ReturnType<typeof hmrcTestSubmit>>;
+  try {
+    sent = await (opts.transport ?? hmrcTestSubmit)(xml, url);
+  } catch (e: any) {
+    const details = JSON.parse(redact(JSON.stringify(fetchErrorDetails(e))));
+    const error =
+      e?.name === "AbortError"
+        ? "HMRC request timed out (25s)."
+        : `HMRC request failed: ${details.code || details.message || "unknown"}`;
+
+    await recordSubmissionAttempt({ ...attempt, error: `${error}\n${JSON.stringify(details, null, 2)}` });
+    await unknownOutcome(error);
+    return { ok: false, code: 502, error, hmrcUrl: url, details };
+  }
+
+  // 5) Read the acknowledgement: real CorrelationID + where/when to poll
+  const ack = tryParseGovTalkResponse(sent.bodyText);
+
+  await recordSubmissionAttempt({
+    ...attempt,
+    httpStatus: sent.status,
+    qualifier: ack?.qualifier ?? null,
+    correlationId: ack?.correlationId || null,
+    responseBody: sent.bodyText,
+  });
+
+  // Not a GovTalk reply (whatever the HTTP status), or an acknowledgement
+  // without a CorrelationID: nothing to poll with
+  if (!ack || (ack.qualifier !== "error" && !ack.correlationId)) {
+    const error = ack
+      ? `HMRC responded ${sent.status} without a CorrelationID.`
+      : `HMRC responded ${sent.status} without a GovTalk acknowledgement.`;
+    await unknownOutcome(error);
+    return { ok: false, code: 502, error, hmrcUrl: url, httpStatus: sent.status, receipt: redact(sent.bodyText) };
+  }
+
+  const hmrcErrors = ack.qualifier === "error" ? hmrcErrorsForClaim(ack, gadItemIds) : [];
+
+  // 6) Persist: acknowledged (poll next), or rejected outright
+  const { status: _status, ...ackFields } = claimFieldsFromSubmitResponse(ack, sent.status);
+  const persisted = await moveClaimStatus(id, SUBMITTING_STATUS, ack.qualifier === "error" ? "rejected" : "acknowledged", {
+    donation_count: totals.donation_count,
+    total_amount: totals.total_amount,
+    hmrc_submit_started_at: null,
+    ...ackFields,
+    ...(hmrcErrors.length
+      ? { hmrc_errors: hmrcErrors, hmrc_last_message: `HMRC submit error: ${summarizeHmrcErrors(hmrcErrors)}` }
+      : {}),
+  });
+
+  if (persisted.error) return { ok: false, code: 500, error: persisted.error };
+  if (!persisted.moved) {
+    return {
+      ok: false,
+      code: 409,
+      error: `Claim changed while it was being sent; HMRC's answer (CorrelationID ${ack.correlationId || "-"}) was not stored`,
+      hmrcUrl: url,
+      httpStatus: sent.status,
+      receipt: redact(sent.bodyText),
+    };
+  }
+
+  // A submission error is a final answer too: the adjustments go back to open
+  // and the answer is cleared from the gateway
+  if (ack.qualifier === "error") await settleClaimAdjustments(id, false);
+  if (ack.qualifier === "error" && ack.correlationId) {
+    await sendDeleteForClaim(
+      {
+        id,
+        charity_id: charityId,
+        hmrc_sender_role: senderRole,
+        hmrc_correlation_id: ack.correlationId,
+      },
+      { actor }
+    );
+  }
+
+  return {
+    ok: true,
+    hmrcUrl: url,
+    httpStatus: sent.status,
+    irmark,
+    irmarkReceipt,
+    qualifier: ack.qualifier ?? null,
+    correlationId: ack.correlationId || null,
+    pollUrl: ack.responseEndPoint || null,
+    pollInterval: ack.pollInterval ?? null,
+    errors: hmrcErrors,
+    receipt: redact(sent.bodyText),
+  };
+}
+
+/**
+ * "Resubmit after rejection": the only way a claim that already went to HMRC
+ * is sent again. Allowed when HMRC rejected it, when a send got no usable
+ * answer (IRmark on record, no CorrelationID), or when a send was abandoned
+ * in "submitting". Clears the previous transmission and runs submitClaim.
+ */
+export async function resubmitClaim(
+  claimId: string,
+  submitter: ClaimSubmitter,
+  opts: { transport?: typeof hmrcTestSubmit; idempotencyKey?: string | null } = {}
+): Promise<ClaimSubmissionResult> {
+  const id = String(claimId || "").trim();
+  if (!id) return { ok: false, code: 400, error: "claimId is required" };
+
+  const { claim, failure } = await loadSubmitState(id, submitter);
+  if (failure) return failure;
+
+  const key = String(opts.idempotencyKey ?? "").trim() || null;
+  if (key && claim.hmrc_submit_key === key) return replaySubmission(claim);
+
+  const blocked = actionBlock(claim, "resubmit");
+  if (blocked) return { ok: false, code: 409, error: blocked };
+
+  const problems = await checkClaimGuards(claim, "resubmit");
+  if (problems.length) return { ok: false, code: 400, error: summarizeClaimProblems(problems) };
+
+  if (!isClaimStatus(claim.status)) return { ok: false, code: 409, error: `Unknown claim status '${claim.status}'` };
+
+  const reset = await moveClaimStatus(id, claim.status, SUBMITTABLE_STATUS, {
+    ...CLEARED_TRANSMISSION_FIELDS,
+    hmrc_last_message: `Resubmitting (previous IRmark ${claim.hmrc_irmark ?? "-"}, CorrelationID ${
+      claim.hmrc_correlation_id ?? "-"
+    })`,
+  });
+
+  if (reset.error) return { ok: false, code: 500, error: reset.error };
+  if (!reset.moved) return { ok: false, code: 409, error: "Claim changed while resubmitting; reload and try again" };
+
+  return submitClaim(id, submitter, opts);
+}
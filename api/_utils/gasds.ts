@@ -0,0 +1,325 @@
+// api/_utils/gasds.ts
+import { supabaseAdmin } from "./supabase.js";
+
+/**
+ * Gift Aid Small Donations Scheme (GASDS): top-up payments on small cash
+ * donations where no Gift Aid declaration is possible.
+ *
+ * Stored per claim:
+ * - claim_gasds rows: { claim_id, tax_year, amount, building_id } — tax_year
+ *   is the year the tax year ends (2025 = 6 Apr 2024 – 5 Apr 2025), as R68
+ *   <Year> expects; amount is the total of small donations received, not the
+ *   top-up. building_id null = collected anywhere (<GASDSClaim>), otherwise a
+ *   charity_community_buildings row (<Building><BldgClaim>).
+ * - claims.gasds_adjustment: earlier GASDS over-claims to pay back (<Adj>).
+ *
+ * Per charity registers:
+ * - charity_community_buildings { charity_id, name, address, postcode }
+ * - charity_connected_charities { charity_id, name, charity_number, linked_charity_id }
+ *   linked_charity_id points at the connected charity when we also file for it.
+ *
+ * Rules checked before saving and again when the XML is generated:
+ * - per-year cap on small donations (£5,000 to 2015-16, £8,000 since), counted
+ *   across every live claim for that year. The general allowance is shared
+ *   with connected charities we file for; each community building has its own.
+ * - matching rule: small donations in a year (general + buildings) can't
+ *   exceed 10x the Gift Aid donations the charity claims for the same tax year
+ */
+
+/** First tax year (ending) GASDS applies to */
+export const GASDS_FIRST_TAX_YEAR = 2014;
+/** Small donations may be up to 10x the Gift Aid donations claimed for the year */
+export const GASDS_MATCHING_MULTIPLE = 10;
+
+/** Claim statuses that no longer count towards caps (never reached HMRC, or withdrawn) */
+const NON_COUNTING_STATUSES = ["rejected", "withdrawn"];
+
+export type GasdsEntry = {
+  /** tax year end, e.g. 2025 for 2024-25 */
+  tax_year: number;
+  amount: number;
+  /** community building the donations were collected in (null = general allowance) */
+  building_id: string | null;
+};
+
+/** claim_gasds row as stored (amount comes back as a numeric string) */
+type GasdsRow = {
+  tax_year: number | string;
+  amount: number | string | null;
+  building_id: string | null;
+};
+
+export type CommunityBuilding = {
+  id: string;
+  name: string;
+  address: string;
+  postcode: string;
+};
+
+export type ConnectedCharity = {
+  id: string;
+  name: string;
+  charity_number: string | null;
+  linked_charity_id: string | null;
+};
+
+export type GasdsYearCheck = {
+  tax_year: number;
+  amount: number;
+  building_id: string | null;
+  cap: number;
+  /**
+   * GASDS already claimed against the same allowance on other claims
+   * (the building's, or the general one incl. linked connected charities)
+   */
+  claimed_elsewhere: number;
+  /** Gift Aid donations claimed for this year (all the charity's claims, this one included) */
+  gift_aid_donations: number;
+  problems: string[];
+};
+
+/** Cap on small donations for a tax year (0 = GASDS not available) */
+export function gasdsCapForTaxYear(taxYear: number): number {
+  if (!Number.isInteger(taxYear) || taxYear < GASDS_FIRST_TAX_YEAR) return 0;
+  return taxYear <= 2016 ? 5000 : 8000;
+}
+
+/** Tax year (ending) a YYYY-MM-DD date falls in: 6 April starts a new year */
+export function taxYearEndFor(isoDate: string): number | null {
+  const m = /^(\d{4})-(\d{2})-(\d{2})/.exec(String(isoDate ?? "").trim());
+  if (!m) return null;
+
+  const y = Number(m[1]);
+  const md = Number(m[2]) * 100 + Number(m[3]);
+  return md >= 406 ? y + 1 : y;
+}
+
+/** "2024-25" style label for a tax year end */
+export function taxYearLabel(taxYear: number): string {
+  return `${taxYear - 1}-${String(taxYear).slice(-2)}`;
+}
+
+/**
+ * Normalises entries from a request body ({ taxYear, amount }[]).
+ * Returns { error } for malformed input; rule checks are separate.
+ */
+export function parseGasdsEntries(raw: any): { entries: GasdsEntry[]; error: null } | { entries: null; error: string } {
+  if (raw == null) return { entries: [], error: null };
+  if (!Array.isArray(raw)) return { entries: null, error: "entries must be an array" };
+
+  const byKey = new Map<string, GasdsEntry>();
+
+  for (const r of raw) {
+    const taxYear = Number(r?.taxYear ?? r?.tax_year);
+    const amount = Number(r?.amount);
+    const buildingId = String(r?.buildingId ?? r?.building_id ?? "").trim() || null;
+
+    if (!Number.isInteger(taxYear) || taxYear < 2000 || taxYear > 2100) {
+      return { entries: null, error: `Invalid tax year: ${r?.taxYear ?? r?.tax_year ?? "(blank)"}` };
+    }
+    if (!Number.isFinite(amount) || amount <= 0) {
+      return { entries: null, error: `GASDS amount for ${taxYearLabel(taxYear)} must be a positive number` };
+    }
+    const key = `${taxYear}:${buildingId ?? ""}`;
+    if (byKey.has(key)) {
+      return {
+        entries: null,
+        error: `Tax year ${taxYearLabel(taxYear)} is listed more than once${buildingId ? " for the same building" : ""}`,
+      };
+    }
+
+    byKey.set(key, { tax_year: taxYear, amount: Math.round(amount * 100) / 100, building_id: buildingId });
+  }
+
+  return {
+    entries: [...byKey.values()].sort(
+      (a, b) => a.tax_year - b.tax_year || String(a.building_id ?? "").localeCompare(String(b.building_id ?? ""))
+    ),
+    error: null,
+  };
+}
+
+/** GASDS rows + adjustment stored for a claim */
+export async function loadClaimGasds(claimId: string): Promise<{ entries: GasdsEntry[]; adjustment: number | null }> {
+  const { data: rows, error } = await supabaseAdmin
+    .from("claim_gasds")
+    .select("tax_year, amount, building_id")
+    .eq("claim_id", claimId)
+    .order("tax_year", { ascending: true });
+
+  if (error) throw new Error(error.message);
+
+  const { data: claim, error: claimErr } = await supabaseAdmin
+    .from("claims")
+    .select("gasds_adjustment")
+    .eq("id", claimId)
+    .single();
+
+  if (claimErr) throw new Error(claimErr.message);
+
+  const adj = Number((claim as { gasds_adjustment: number | string | null } | null)?.gasds_adjustment);
+
+  return {
+    entries: ((rows ?? []) as GasdsRow[]).map((r) => ({
+      tax_year: Number(r.tax_year),
+      amount: Number(r.amount),
+      building_id: r.building_id ? String(r.building_id) : null,
+    })),
+    adjustment: Number.isFinite(adj) && adj > 0 ? adj : null,
+  };
+}
+
+/** Community buildings + connected charities registered for a charity */
+export async function loadGasdsRegisters(
+  charityId: string
+): Promise<{ buildings: CommunityBuilding[]; connected: ConnectedCharity[] }> {
+  const { data: buildings, error: bErr } = await supabaseAdmin
+    .from("charity_community_buildings")
+    .select("id, name, address, postcode")
+    .eq("charity_id", charityId)
+    .order("name", { ascending: true });
+
+  if (bErr) throw new Error(bErr.message);
+
+  const { data: connected, error: cErr } = await supabaseAdmin
+    .from("charity_connected_charities")
+    .select("id, name, charity_number, linked_charity_id")
+    .eq("charity_id", charityId)
+    .order("name", { ascending: true });
+
+  if (cErr) throw new Error(cErr.message);
+
+  return {
+    buildings: (buildings ?? []) as CommunityBuilding[],
+    connected: (connected ?? []) as ConnectedCharity[],
+  };
+}
+
+/** Sum of claim_gasds amounts per "year:building" key for the given claims */
+async function gasdsTotalsFor(claimIds: string[]): Promise<Map<string, number>> {
+  const totals = new Map<string, number>();
+  if (claimIds.length === 0) return totals;
+
+  const { data, error } = await supabaseAdmin
+    .from("claim_gasds")
+    .select("tax_year, amount, building_id")
+    .in("claim_id", claimIds);
+
+  if (error) throw new Error(error.message);
+
+  for (const r of (data ?? []) as GasdsRow[]) {
+    const key = `${Number(r.tax_year)}:${r.building_id ?? ""}`;
+    totals.set(key, (totals.get(key) ?? 0) + Number(r.amount || 0));
+  }
+  return totals;
+}
+
+/** Ids of a set of charities' claims that still count towards caps */
+async function countingClaimIds(charityIds: string[]): Promise<string[]> {
+  if (charityIds.length === 0) return [];
+
+  const { data, error } = await supabaseAdmin.from("claims").select("id, status").in("charity_id", charityIds);
+  if (error) throw new Error(error.message);
+
+  return ((data ?? []) as Array<{ id: string; status: string }>)
+    .filter((c) => !NON_COUNTING_STATUSES.includes(c.status))
+    .map((c) => String(c.id));
+}
+
+/**
+ * Checks entries for a claim against the cap and matching rules.
+ * Other claims count unless rejected or withdrawn.
+ */
+export async function checkGasdsRules(
+  claim: { id: string; charity_id: string },
+  entries: GasdsEntry[]
+): Promise<GasdsYearCheck[]> {
+  if (entries.length === 0) return [];
+
+  const { buildings, connected } = await loadGasdsRegisters(claim.charity_id);
+
+  const unknown = entries.find((e) => e.building_id && !buildings.some((b) => b.id === e.building_id));
+  if (unknown) throw new Error(`Community building ${unknown.building_id} is not registered for this charity`);
+
+  const ownIds = (await countingClaimIds([claim.charity_id])).filter((id) => id !== claim.id);
+  const linkedCharityIds = [
+    ...new Set(connected.map((c) => c.linked_charity_id).filter((id): id is string => !!id && id !== claim.charity_id)),
+  ];
+  const linkedIds = await countingClaimIds(linkedCharityIds);
+
+  // Gift Aid donations per tax year, across the charity's live claims (this one included)
+  const { data: items, error: itemsErr } = await supabaseAdmin
+    .from("claim_items")
+    .select("donation_date, donation_amount")
+    .in("claim_id", [claim.id, ...ownIds]);
+
+  if (itemsErr) throw new Error(itemsErr.message);
+
+  const giftAidByYear = new Map<number, number>();
+  for (const it of (items ?? []) as Array<{ donation_date: string | null; donation_amount: number | string | null }>) {
+    const y = taxYearEndFor(String(it.donation_date));
+    if (y === null) continue;
+    giftAidByYear.set(y, (giftAidByYear.get(y) ?? 0) + Number(it.donation_amount || 0));
+  }
+
+  const ownElsewhere = await gasdsTotalsFor(ownIds);
+  const linkedElsewhere = await gasdsTotalsFor(linkedIds);
+
+  // Everything claimed for a year (any allowance), for the matching rule
+  const yearTotal = (year: number) => {
+    let t = 0;
+    for (const [k, v] of ownElsewhere) if (k.startsWith(`${year}:`)) t += v;
+    for (const e of entries) if (e.tax_year === year) t += e.amount;
+    return Math.round(t * 100) / 100;
+  };
+
+  const round = (n: number) => Math.round(n * 100) / 100;
+
+  return entries.map((e) => {
+    const key = `${e.tax_year}:${e.building_id ?? ""}`;
+    const cap = gasdsCapForTaxYear(e.tax_year);
+    const claimed_elsewhere = round(
+      (ownElsewhere.get(key) ?? 0) + (e.building_id ? 0 : linkedElsewhere.get(key) ?? 0)
+    );
+    const gift_aid_donations = round(giftAidByYear.get(e.tax_year) ?? 0);
+    const building = e.building_id ? buildings.find((b) => b.id === e.building_id) : null;
+    const label = `${taxYearLabel(e.tax_year)}${building ? ` (${building.name})` : ""}`;
+    const problems: string[] = [];
+
+    if (cap === 0) {
+      problems.push(`GASDS is not available for ${label} (the scheme starts in ${taxYearLabel(GASDS_FIRST_TAX_YEAR)})`);
+    } else if (e.amount + claimed_elsewhere > cap) {
+      problems.push(
+        `${label}: £${(e.amount + claimed_elsewhere).toFixed(2)} of small donations exceeds the £${cap.toLocaleString()} cap` +
+          (claimed_elsewhere
+            ? ` (£${claimed_elsewhere.toFixed(2)} already claimed on other claims${
+                building ? "" : linkedIds.length ? " or by connected charities" : ""
+              })`
+            : "")
+      );
+    }
+
+    const total = yearTotal(e.tax_year);
+    if (total > gift_aid_donations * GASDS_MATCHING_MULTIPLE) {
+      problems.push(
+        `${label}: small donations for the year (£${total.toFixed(2)}) can be at most ${GASDS_MATCHING_MULTIPLE}x ` +
+          `the Gift Aid donations claimed (£${gift_aid_donations.toFixed(2)}, so up to £${(gift_aid_donations * GASDS_MATCHING_MULTIPLE).toFixed(2)})`
+      );
+    }
+
+    return {
+      tax_year: e.tax_year,
+      amount: e.amount,
+      building_id: e.building_id,
+      cap,
+      claimed_elsewhere,
+      gift_aid_donations,
+      problems,
+    };
+  });
+}
+
+/** All problems from checkGasdsRules, flattened */
+export function gasdsProblems(checks: GasdsYearCheck[]): string[] {
+  return checks.flatMap((c) => c.problems);
+}
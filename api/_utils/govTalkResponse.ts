@@ -0,0 +1,213 @@
+// api/_utils/govTalkResponse.ts
+
+/**
+ * Typed view of a GovTalk message sent back by the HMRC Transaction Engine.
+ *
+ * Document Submission Protocol, in short:
+ * - submit  -> "acknowledgement" (CorrelationID + ResponseEndPoint/PollInterval)
+ * - poll    -> "acknowledgement" again while HMRC is still processing,
+ *              then a final "response" (business success) or "error"
+ *
+ * The parser is regex based on purpose: we only need a handful of header
+ * fields, and TE replies are small and well-formed.
+ */
+
+export type GovTalkQualifier = "acknowledgement" | "response" | "error" | "request" | "poll" | "unknown";
+
+export type GovTalkError = {
+  raisedBy: string;
+  number: string;
+  type: string;
+  text: string;
+  location: string;
+};
+
+export type GovTalkResponse = {
+  qualifier: GovTalkQualifier;
+  function: string;
+  messageClass: string;
+  correlationId: string;
+  transactionId: string;
+  /** URL to send the next poll to (from <ResponseEndPoint>) */
+  responseEndPoint: string;
+  /** Seconds HMRC asks us to wait before polling again (from PollInterval="..") */
+  pollInterval: number | null;
+  gatewayTimestamp: string;
+  errors: GovTalkError[];
+  /** Inner XML of <Body> (empty for most acknowledgements) */
+  body: string;
+};
+
+function decodeXmlText(s: string): string {
+  return s
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_m, d: string) => String.fromCodePoint(Number(d)))
+    .replace(/&#x([0-9a-fA-F]+);/g, (_m, h: string) => String.fromCodePoint(parseInt(h, 16)))
+    .replace(/&amp;/g, "&");
+}
+
+/** Matches <Tag ...>inner</Tag> with an optional namespace prefix */
+function elementRe(tag: string, flags = "") {
+  return new RegExp(`<(?:[\\w.-]+:)?${tag}\\b([^>]*?)(?:/>|>([\\s\\S]*?)</(?:[\\w.-]+:)?${tag}>)`, flags);
+}
+
+/** Text content of the first <tag> in xml ("" if absent) */
+export function tagText(xml: string, tag: string): string {
+  const m = elementRe(tag).exec(xml);
+  return m ? decodeXmlText(String(m[2] ?? "").trim()) : "";
+}
+
+/** Text content of every non-empty <tag> in xml */
+export function tagTextAll(xml: string, tag: string): string[] {
+  return tagInnerAll(xml, tag).map((t) => decodeXmlText(t.trim())).filter(Boolean);
+}
+
+/** Inner XML of the first <tag> in xml ("" if absent) */
+export function tagInner(xml: string, tag: string): string {
+  const m = elementRe(tag).exec(xml);
+  return m ? String(m[2] ?? "") : "";
+}
+
+/** Inner XML of every <tag> in xml */
+export function tagInnerAll(xml: string, tag: string): string[] {
+  const out: string[] = [];
+  const re = elementRe(tag, "g");
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(xml)) !== null) out.push(String(m[2] ?? ""));
+  return out;
+}
+
+/** Attribute value on the first <tag> in xml ("" if absent) */
+export function tagAttr(xml: string, tag: string, attr: string): string {
+  const m = elementRe(tag).exec(xml);
+  if (!m) return "";
+  const a = new RegExp(`\\b${attr}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`).exec(m[1] ?? "");
+  return a ? decodeXmlText(a[1] ?? a[2] ?? "") : "";
+}
+
+function normalizeQualifier(v: string): GovTalkQualifier {
+  const q = v.trim().toLowerCase();
+  if (q === "acknowledgement" || q === "response" || q === "error" || q === "request" || q === "poll") return q;
+  return "unknown";
+}
+
+function parseErrors(xml: string): GovTalkError[] {
+  const block = tagInner(xml, "GovTalkErrors");
+  if (!block) return [];
+
+  return tagInnerAll(block, "Error").map((e) => ({
+    raisedBy: tagText(e, "RaisedBy"),
+    number: tagText(e, "Number"),
+    type: tagText(e, "Type"),
+    text: tagTextAll(e, "Text").join(" "),
+    location: tagText(e, "Location"),
+  }));
+}
+
+/**
+ * Parses a Transaction Engine reply.
+ * Throws if the text is not a GovTalk message at all (HTML error page, empty body, ...).
+ */
+export function parseGovTalkResponse(xml: string): GovTalkResponse {
+  const text = String(xml ?? "");
+  if (!elementRe("GovTalkMessage").test(text)) {
+    throw new Error("HMRC response is not a GovTalk message");
+  }
+
+  const details = tagInner(text, "MessageDetails");
+  const pollIntervalRaw = tagAttr(details, "ResponseEndPoint", "PollInterval");
+  const pollInterval = pollIntervalRaw === "" ? null : Number(pollIntervalRaw);
+
+  return {
+    qualifier: normalizeQualifier(tagText(details, "Qualifier")),
+    function: tagText(details, "Function"),
+    messageClass: tagText(details, "Class"),
+    correlationId: tagText(details, "CorrelationID"),
+    transactionId: tagText(details, "TransactionID"),
+    responseEndPoint: tagText(details, "ResponseEndPoint"),
+    pollInterval: pollInterval !== null && Number.isFinite(pollInterval) ? pollInterval : null,
+    gatewayTimestamp: tagText(details, "GatewayTimestamp"),
+    errors: parseErrors(text),
+    body: tagInner(text, "Body"),
+  };
+}
+
+/** Same as parseGovTalkResponse, but returns null instead of throwing */
+export function tryParseGovTalkResponse(xml: string): GovTalkResponse | null {
+  try {
+    return parseGovTalkResponse(xml);
+  } catch {
+    return null;
+  }
+}
+
+/** One-line summary of the errors, for hmrc_last_message */
+export function summarizeGovTalkErrors(errors: GovTalkError[]): string {
+  if (errors.length === 0) return "";
+  return errors
+    .map((e) => [e.number && `[${e.number}]`, e.text].filter(Boolean).join(" "))
+    .join("; ");
+}
+
+export type StatusRecord = {
+  timeStamp: string;
+  correlationId: string;
+  transactionId: string;
+  /** e.g. SUBMISSION_ACKNOWLEDGEMENT | SUBMISSION_RESPONSE | SUBMISSION_ERROR */
+  status: string;
+};
+
+/** Records from a data_request reply (<StatusReport> in the Body) */
+export function parseStatusReport(body: string): StatusRecord[] {
+  const report = tagInner(body, "StatusReport");
+  if (!report) return [];
+
+  return tagInnerAll(report, "StatusRecord").map((r) => ({
+    timeStamp: tagText(r, "TimeStamp"),
+    correlationId: tagText(r, "CorrelationID"),
+    transactionId: tagText(r, "TransactionID"),
+    status: tagText(r, "Status"),
+  }));
+}
+
+/**
+ * Base32 IRmark quoted in a success response, e.g.
+ * <IRmarkReceipt><Message code="0000">... The associated IRmark was: ABCD...</Message>
+ */
+export function irmarkReceiptFromResponse(body: string): string {
+  const msg = tagText(tagInner(body, "IRmarkReceipt") || body, "Message");
+  const m = /IRmark(?: was)?:?\s*([A-Z2-7]{32})/.exec(msg);
+  return m ? m[1] : "";
+}
+
+/**
+ * Maps a submission acknowledgement (or error) onto the claim columns the
+ * submit routes persist. `null` response = HMRC did not send GovTalk at all.
+ */
+export function claimFieldsFromSubmitResponse(resp: GovTalkResponse | null, httpStatus: number) {
+  if (!resp) {
+    return {
+      hmrc_last_message: `HMRC submit returned a non-GovTalk reply (HTTP ${httpStatus}).`,
+    };
+  }
+
+  if (resp.qualifier === "error") {
+    return {
+      status: "rejected",
+      hmrc_correlation_id: resp.correlationId || null,
+      hmrc_last_message: `HMRC submit error: ${summarizeGovTalkErrors(resp.errors) || "no error detail"}`,
+    };
+  }
+
+  return {
+    status: "acknowledged",
+    hmrc_correlation_id: resp.correlationId || null,
+    hmrc_poll_url: resp.responseEndPoint || null,
+    hmrc_poll_interval: resp.pollInterval,
+    hmrc_errors: null,
+    hmrc_last_message: `HMRC acknowledged submission (CorrelationID ${resp.correlationId || "?"}). Next: poll.`,
+  };
+}
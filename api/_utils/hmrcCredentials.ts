@@ -0,0 +1,212 @@
+// api/_utils/hmrcCredentials.ts
+import { supabaseAdmin } from "./supabase.js";
+import { decryptJson } from "./crypto.js";
+import type { HmrcXmlMode } from "./hmrcXml.js";
+
+/**
+ * Which Government Gateway credentials (SenderID / Value) go into a GovTalk
+ * envelope. The same resolver is used for the claim itself and for every
+ * follow-up message (poll, delete_request, data_request): HMRC only answers
+ * those for the SenderID that submitted.
+ *
+ * - ETS: always the Charities Technical Pack test user (or HMRC_SENDER_ID /
+ *   HMRC_AUTH_VALUE) — ETS does not know real gateway accounts.
+ * - LTS: the active hmrc_connections row, else the defaults.
+ * - LIVE: the active hmrc_connections row, or an error.
+ *
+ * Who files is chosen per charity (charities.hmrc_mode):
+ * - "charity": the charity's own gateway login, <Sender>Individual</Sender>
+ *   and an <AuthOfficial> in the R68
+ * - "agent": our single agent login (hmrc_connections row with mode "agent"
+ *   and no charity), <Sender>Agent</Sender> and <AgtOrNom> in the R68.
+ *   The charity's CHARID stays in the Keys either way.
+ *
+ * Connections are written by api/hmrc/connection/save.ts and
+ * api/admin/connection/save.ts as encryptJson({ gatewayUserId, gatewayPassword })
+ * (agent rows also carry the agent reference fields).
+ */
+
+export type HmrcSenderRole = "charity" | "agent";
+
+/** Agent reference fields for the R68 <AgtOrNom> block */
+export type AgentDetails = {
+  /** HMRC agent reference */
+  agentRef: string;
+  orgName: string;
+  postcode: string;
+  phone: string;
+};
+
+export type GatewaySender = {
+  senderId: string;
+  authValue: string;
+  role: HmrcSenderRole;
+  /** set when role is "agent" */
+  agent: AgentDetails | null;
+  /** "connection" = decrypted from hmrc_connections; "default" = env / pack test user */
+  source: "connection" | "default";
+  connectionId: string | null;
+};
+
+/**
+ * Returns ETS test credentials per Charities Technical Pack.
+ * If you set HMRC_SENDER_ID / HMRC_AUTH_VALUE, those override.
+ */
+export function getSenderCreds(mode: HmrcXmlMode) {
+  const senderFromEnv = String(process.env.HMRC_SENDER_ID || "").trim();
+  const passFromEnv = String(process.env.HMRC_AUTH_VALUE || "").trim();
+
+  // If explicitly set, always use env.
+  if (senderFromEnv && passFromEnv) {
+    return { senderId: senderFromEnv, authValue: passFromEnv };
+  }
+
+  // Defaults:
+  // ETS uses fixed test creds from the pack.
+  if (mode === "ETS") {
+    return { senderId: "323412300001", authValue: "testing1" };
+  }
+
+  // LIVE/LTS default to your old sample values unless overridden.
+  return {
+    senderId: senderFromEnv || "GIFTAIDCHAR",
+    authValue: passFromEnv || "testing2",
+  };
+}
+
+/** Sample agent details for test modes (override via env) */
+function getDefaultAgentDetails(): AgentDetails {
+  return {
+    agentRef: String(process.env.HMRC_AGENT_REF ?? "AB12345"),
+    orgName: String(process.env.HMRC_AGENT_NAME ?? "Agent Name"),
+    postcode: String(process.env.HMRC_AGENT_POSTCODE ?? "AB12 3CD"),
+    phone: String(process.env.HMRC_AGENT_PHONE ?? "01234 567890"),
+  };
+}
+
+type DecryptedConnection = { connectionId: string; senderId: string; authValue: string; payload: any };
+
+async function loadActiveConnection(
+  role: HmrcSenderRole,
+  charityId: string | null
+): Promise<DecryptedConnection | null> {
+  let q = supabaseAdmin
+    .from("hmrc_connections")
+    .select("id, credentials_encrypted")
+    .eq("mode", role)
+    .eq("active", true);
+  q = charityId ? q.eq("charity_id", charityId) : q.is("charity_id", null);
+
+  const { data, error } = await q.order("created_at", { ascending: false }).limit(1).maybeSingle();
+
+  if (error) throw new Error(error.message);
+  if (!data?.credentials_encrypted) return null;
+
+  let creds: any;
+  try {
+    creds = decryptJson(String(data.credentials_encrypted));
+  } catch (e: any) {
+    throw new Error(`HMRC connection ${data.id} could not be decrypted: ${e?.message ?? "unknown error"}`);
+  }
+
+  const senderId = String(creds?.gatewayUserId || "").trim();
+  const authValue = String(creds?.gatewayPassword || "").trim();
+  if (!senderId || !authValue) {
+    throw new Error(`HMRC connection ${data.id} is missing the gateway user ID or password`);
+  }
+
+  return { connectionId: String(data.id), senderId, authValue, payload: creds };
+}
+
+/** Active connection for a charity, decrypted (null if the charity has none) */
+export async function loadCharityConnection(charityId: string) {
+  return loadActiveConnection("charity", charityId);
+}
+
+/** The operator-wide agent connection, decrypted (null if none saved) */
+export async function loadAgentConnection() {
+  return loadActiveConnection("agent", null);
+}
+
+function agentDetailsFrom(payload: any): AgentDetails {
+  return {
+    agentRef: String(payload?.agentRef || "").trim(),
+    orgName: String(payload?.agentName || "").trim(),
+    postcode: String(payload?.agentPostcode || "").trim(),
+    phone: String(payload?.agentPhone || "").trim(),
+  };
+}
+
+/** charities.hmrc_mode, defaulting to the charity filing for itself */
+export async function getCharitySenderRole(charityId: string): Promise<HmrcSenderRole> {
+  if (!charityId) return "charity";
+
+  const { data, error } = await supabaseAdmin.from("charities").select("hmrc_mode").eq("id", charityId).maybeSingle();
+
+  if (error) throw new Error(error.message);
+  return (data as { hmrc_mode: string | null } | null)?.hmrc_mode === "agent" ? "agent" : "charity";
+}
+
+/**
+ * SenderID / Value (and sender role) to use for a charity's messages in the given mode.
+ *
+ * `role` pins the role a claim was submitted under, so polls and deletes keep
+ * using the same SenderID after an operator switches the charity's mode.
+ * Throws in LIVE mode when the needed connection is missing.
+ */
+export async function resolveGatewayCreds(
+  charityId: string,
+  mode: HmrcXmlMode,
+  role?: HmrcSenderRole | null
+): Promise<GatewaySender> {
+  const senderRole = role ?? (await getCharitySenderRole(charityId));
+
+  if (senderRole === "agent") {
+    const conn = await loadAgentConnection();
+
+    if (!conn && mode === "LIVE") {
+      throw new Error(
+        `Charity ${charityId || "(unknown)"} files through the agent, but no agent HMRC gateway connection is saved. ` +
+          "Save the agent's Government Gateway credentials before submitting or polling in LIVE mode."
+      );
+    }
+
+    const agent = conn ? agentDetailsFrom(conn.payload) : getDefaultAgentDetails();
+
+    if (conn && mode !== "ETS") {
+      return {
+        senderId: conn.senderId,
+        authValue: conn.authValue,
+        role: "agent",
+        agent,
+        source: "connection",
+        connectionId: conn.connectionId,
+      };
+    }
+
+    return { ...getSenderCreds(mode), role: "agent", agent, source: "default", connectionId: null };
+  }
+
+  if (mode !== "ETS") {
+    const conn = charityId ? await loadCharityConnection(charityId) : null;
+    if (conn) {
+      return {
+        senderId: conn.senderId,
+        authValue: conn.authValue,
+        role: "charity",
+        agent: null,
+        source: "connection",
+        connectionId: conn.connectionId,
+      };
+    }
+
+    if (mode === "LIVE") {
+      throw new Error(
+        `Charity ${charityId || "(unknown)"} has no active HMRC gateway connection. ` +
+          "Save the charity's Government Gateway credentials before submitting or polling in LIVE mode."
+      );
+    }
+  }
+
+  return { ...getSenderCreds(mode), role: "charity", agent: null, source: "default", connectionId: null };
+}
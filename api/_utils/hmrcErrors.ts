@@ -0,0 +1,166 @@
+// api/_utils/hmrcErrors.ts
+import { tagInner, tagInnerAll, tagText, tagTextAll, type GovTalkError, type GovTalkResponse } from "./govTalkResponse.js";
+
+/**
+ * Turns HMRC rejections into something an operator can act on:
+ * - gateway errors from <GovTalkErrors> (authentication, envelope, ...)
+ * - business-rule errors from the <ErrorResponse> HMRC puts in <Body>
+ *   (usually behind a generic 3001 in GovTalkErrors)
+ *
+ * Each error gets a human explanation, and when its Location XPath points at
+ * a <GAD[n]> row we resolve it to the claim_items row that produced it, using
+ * the GAD order stored at submission time (claims.hmrc_gad_item_ids).
+ */
+
+export type HmrcClaimError = {
+  source: "gateway" | "business";
+  raisedBy: string;
+  number: string;
+  type: string;
+  text: string;
+  location: string;
+  explanation: string;
+  /** 1-based <GAD> index from Location, if any */
+  gadIndex: number | null;
+  /** claim_items.id for that GAD row, if we know it */
+  itemId: string | null;
+};
+
+/** Codes we see often enough to explain properly */
+const KNOWN_CODES: Record<string, string> = {
+  "1000": "HMRC system failure. Nothing is wrong with the claim — resubmit later.",
+  "1001": "The message is not well formed or failed the GovTalk envelope schema.",
+  "1002": "HMRC gateway is busy or unavailable. Resubmit later.",
+  "1020":
+    "A header field has a value the gateway does not allow here (e.g. CorrelationID or GatewayTimestamp filled in on a submission, or the wrong GatewayTest flag).",
+  "1046":
+    "Authentication failure: the Government Gateway user ID/password is wrong, or that user is not enrolled for Charities (HMRC-CHAR-CLM).",
+  "3001": "HMRC business rules rejected the claim body. See the detailed errors listed with it.",
+};
+
+/**
+ * R68 fields a 7xxx business-rule error can point at, by the element its
+ * Location ends in. HMRC's <Text> says which rule failed; this says where to
+ * look on the donation (or claim) it names.
+ */
+const R68_FIELDS: Record<string, string> = {
+  Fore: "donor first name (up to 35 characters; letters plus space ' - . only)",
+  Sur: "donor last name (up to 35 characters; letters plus space ' - . only)",
+  House: "donor house name or number (up to 40 characters)",
+  Postcode: "donor postcode (a valid UK postcode, or mark the donor as overseas)",
+  Overseas: "overseas flag (only for donors without a UK postcode)",
+  AggDonation: "aggregated donations description (each donation in it £20 or less)",
+  Sponsored: "sponsored event flag",
+  Date: "donation date (not in the future, and inside the claim period)",
+  Total: "donation amount (more than zero, in pounds and pence)",
+  EarliestGAdate: "earliest donation date (must be on or before every donation in the claim)",
+  Adjustment: "adjustment amount (previous over-claims to repay)",
+  OtherInc: "other income row (payer, date, gross amount and tax)",
+  GASDS: "Gift Aid Small Donations Scheme section",
+};
+
+/** The R68 field a Location XPath ends in, if we know it (".../r68:GAD[3]/r68:Donor[1]/r68:Sur[1]" -> "Sur") */
+export function r68FieldFromLocation(location: string): string | null {
+  const steps = String(location ?? "")
+    .split("/")
+    .map((s) => s.replace(/^[\w.-]+:/, "").replace(/\[\d+\]$/, "").trim())
+    .filter(Boolean);
+  for (let i = steps.length - 1; i >= 0; i--) if (R68_FIELDS[steps[i]]) return steps[i];
+  return null;
+}
+
+/**
+ * Explanation for an HMRC error number (falls back to the code family).
+ * 7xxx errors also name the R68 field their `location` points at.
+ */
+export function explainHmrcErrorCode(number: string, location = ""): string {
+  const code = String(number ?? "").trim();
+  if (KNOWN_CODES[code]) return KNOWN_CODES[code];
+
+  const field = r68FieldFromLocation(location);
+  if (/^7\d{3}$/.test(code) && field) {
+    return `Charity claim (R68) business rule failed on the ${R68_FIELDS[field]}.`;
+  }
+
+  const n = Number(code);
+  if (!Number.isFinite(n) || !code) return "Unrecognised HMRC error.";
+  if (n >= 1000 && n < 2000) return "Gateway/envelope error: the message was rejected before HMRC read the claim.";
+  if (n >= 2000 && n < 3000) return "Gateway processing error for this submission.";
+  if (n >= 3000 && n < 4000) return "HMRC business validation error.";
+  if (n >= 5000 && n < 6000) return "Schema validation error in the claim body.";
+  if (n >= 7000 && n < 8000)
+    return "Charity claim (R68) business rule failed — check the field named in the error location.";
+  return "Unrecognised HMRC error.";
+}
+
+/** 1-based GAD row index from a Location XPath like ".../r68:GAD[3]/r68:Donor[1]/r68:Sur[1]" */
+export function gadIndexFromLocation(location: string): number | null {
+  const m = /(?:^|[/:])GAD\[(\d+)\]/.exec(String(location ?? ""));
+  if (!m) return null;
+  const n = Number(m[1]);
+  return Number.isInteger(n) && n > 0 ? n : null;
+}
+
+/** Business errors listed in the response <Body><ErrorResponse> */
+function parseBodyErrors(body: string): GovTalkError[] {
+  const block = tagInner(body, "ErrorResponse");
+  if (!block) return [];
+
+  return tagInnerAll(block, "Error").map((e) => ({
+    raisedBy: tagText(e, "RaisedBy"),
+    number: tagText(e, "Number"),
+    type: tagText(e, "Type"),
+    text: tagTextAll(e, "Text").join(" "),
+    location: tagText(e, "Location"),
+  }));
+}
+
+/**
+ * All errors in a GovTalk reply, explained and attributed to claim items.
+ * `gadItemIds[i]` must be the claim_items.id rendered as the (i+1)th <GAD>.
+ */
+export function hmrcErrorsForClaim(
+  resp: GovTalkResponse | null,
+  gadItemIds: string[] | null | undefined
+): HmrcClaimError[] {
+  if (!resp) return [];
+
+  const ids = Array.isArray(gadItemIds) ? gadItemIds : [];
+
+  const tagged: Array<[HmrcClaimError["source"], GovTalkError]> = [
+    ...resp.errors.map((e) => ["gateway", e] as [HmrcClaimError["source"], GovTalkError]),
+    ...parseBodyErrors(resp.body).map((e) => ["business", e] as [HmrcClaimError["source"], GovTalkError]),
+  ];
+
+  return tagged.map(([source, e]) => {
+    const gadIndex = gadIndexFromLocation(e.location);
+    return {
+      source,
+      raisedBy: e.raisedBy,
+      number: e.number,
+      type: e.type,
+      text: e.text,
+      location: e.location,
+      explanation: explainHmrcErrorCode(e.number, e.location),
+      gadIndex,
+      itemId: gadIndex !== null ? ids[gadIndex - 1] ?? null : null,
+    };
+  });
+}
+
+/** One-line summary (prefers the specific business errors over the generic 3001) */
+export function summarizeHmrcErrors(errors: HmrcClaimError[]): string {
+  const business = errors.filter((e) => e.source === "business");
+  const list = business.length ? business : errors;
+  if (list.length === 0) return "";
+
+  const first = list
+    .slice(0, 3)
+    .map((e) => {
+      const where = e.gadIndex !== null ? ` (donation #${e.gadIndex})` : "";
+      return `[${e.number || "?"}] ${e.text || e.explanation}${where}`;
+    })
+    .join("; ");
+
+  return list.length > 3 ? `${first}; +${list.length - 3} more` : first;
+}
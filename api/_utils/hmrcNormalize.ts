@@ -0,0 +1,170 @@
+// api/_utils/hmrcNormalize.ts
+
+/**
+ * Brings donor details into the shape HMRC accepts for a <Donor>:
+ * - Ttl max 4, Fore / Sur max 35 characters; letters plus space ' - . only
+ * - House: just the house name or number (max 40), not the full address
+ * - Postcode: upper case with one space before the inward code
+ *
+ * Accented letters are transliterated (é -> e, ß -> ss), other characters
+ * HMRC rejects are dropped, and overlong values are cut to length.
+ * Every change is reported so callers can show the operator what will be sent.
+ *
+ * Used by claimItems.ts (item APIs + CSV import) and the XML generator.
+ */
+
+export const HMRC_TITLE_MAX = 4;
+export const HMRC_NAME_MAX = 35;
+export const HMRC_HOUSE_MAX = 40;
+
+export type DonorField = "title" | "firstName" | "lastName" | "house" | "postcode";
+
+export type NormalizationChange = {
+  field: DonorField;
+  from: string;
+  to: string;
+  reason: string;
+};
+
+/** Letters with no decomposed form in Unicode NFD */
+const SPECIAL_LETTERS: Record<string, string> = {
+  ß: "ss",
+  æ: "ae",
+  Æ: "AE",
+  œ: "oe",
+  Œ: "OE",
+  ø: "o",
+  Ø: "O",
+  ł: "l",
+  Ł: "L",
+  đ: "d",
+  Đ: "D",
+  ð: "d",
+  Ð: "D",
+  þ: "th",
+  Þ: "TH",
+  ı: "i",
+};
+
+/** Punctuation that has a plain ASCII equivalent */
+const PUNCTUATION: Record<string, string> = {
+  "‘": "'",
+  "’": "'",
+  "‛": "'",
+  "‐": "-",
+  "‑": "-",
+  "‒": "-",
+  "–": "-",
+  "—": "-",
+};
+
+/** Accents and typographic punctuation -> plain ASCII; leaves other characters alone */
+export function transliterate(v: string): string {
+  return v
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^\x00-\x7F]/g, (ch) => SPECIAL_LETTERS[ch] ?? PUNCTUATION[ch] ?? ch)
+    .replace(/`/g, "'");
+}
+
+function collapseSpaces(v: string): string {
+  return v.replace(/\s+/g, " ").trim();
+}
+
+/** "ab12 3cd" / "AB123CD" -> "AB12 3CD" (single space before the inward code) */
+export function normalizeUkPostcode(v: any): string {
+  const compact = String(v ?? "").trim().toUpperCase().replace(/\s+/g, "");
+  return compact.length > 3 ? `${compact.slice(0, -3)} ${compact.slice(-3)}` : compact;
+}
+
+export function isUkPostcode(v: string): boolean {
+  return /^[A-Z]{1,2}[0-9R][0-9A-Z]? [0-9][A-Z]{2}$/.test(v);
+}
+
+/**
+ * House name or number from a free-text address:
+ *   "12 High Street, Leeds"    -> "12"
+ *   "12a-14 Mill Lane"         -> "12A-14"
+ *   "Rose Cottage, Church Rd"  -> "Rose Cottage"
+ *   "Flat 3, 12 High Street"   -> "Flat 3"
+ * Anything that is already just a name/number is returned as is.
+ */
+export function extractHouse(address: string): string {
+  const first = collapseSpaces(String(address ?? "").split(/[,\n]/)[0] ?? "");
+  const numbered = first.match(/^(\d+[A-Za-z]?(?:\s*[-/]\s*\d+[A-Za-z]?)?)(?:\s|$)/);
+  if (numbered) return numbered[1].replace(/\s+/g, "").toUpperCase();
+  return first;
+}
+
+/** Keeps only the characters HMRC allows in a name field */
+function cleanName(v: string): string {
+  return collapseSpaces(transliterate(v).replace(/[^A-Za-z '.-]/g, ""));
+}
+
+/** Keeps only the characters HMRC allows in <House> */
+function cleanHouse(v: string): string {
+  return collapseSpaces(transliterate(v).replace(/[^A-Za-z0-9 '.,&()/-]/g, ""));
+}
+
+/**
+ * Normalises one donor's details. `problems` lists anything that could not
+ * be fixed automatically (empty after cleaning, postcode not a UK postcode).
+ */
+export function normalizeDonorFields(input: {
+  title?: string | null;
+  firstName: string;
+  lastName: string;
+  address: string;
+  postcode?: string | null;
+  overseas?: boolean;
+}): {
+  title: string | null;
+  firstName: string;
+  lastName: string;
+  house: string;
+  postcode: string | null;
+  changes: NormalizationChange[];
+  problems: string[];
+} {
+  const changes: NormalizationChange[] = [];
+  const problems: string[] = [];
+
+  const track = (field: DonorField, from: string, to: string, reason: string) => {
+    if (from !== to) changes.push({ field, from, to, reason });
+    return to;
+  };
+
+  const fixName = (field: DonorField, label: string, raw: string, max: number): string => {
+    const from = String(raw ?? "").trim();
+    let v = track(field, from, cleanName(from), "accents/unsupported characters replaced");
+    if (v.length > max) v = track(field, v, v.slice(0, max).trim(), `truncated to ${max} characters`);
+    if (from && !v) problems.push(`${label} has no characters HMRC accepts`);
+    return v;
+  };
+
+  const title = fixName("title", "Title", input.title ?? "", HMRC_TITLE_MAX) || null;
+  const firstName = fixName("firstName", "First Name", input.firstName, HMRC_NAME_MAX);
+  const lastName = fixName("lastName", "Last Name", input.lastName, HMRC_NAME_MAX);
+
+  const address = String(input.address ?? "").trim();
+  let house = track("house", address, extractHouse(address), "house name/number taken from the address");
+  house = track("house", house, cleanHouse(house), "accents/unsupported characters replaced");
+  if (house.length > HMRC_HOUSE_MAX) {
+    house = track("house", house, house.slice(0, HMRC_HOUSE_MAX).trim(), `truncated to ${HMRC_HOUSE_MAX} characters`);
+  }
+  if (address && !house) problems.push("Address has no house name or number HMRC accepts");
+
+  let postcode: string | null = null;
+  if (!input.overseas) {
+    const from = String(input.postcode ?? "").trim();
+    postcode = track("postcode", from, normalizeUkPostcode(from), "formatted as a UK postcode");
+    if (postcode && !isUkPostcode(postcode)) problems.push(`Postcode "${from}" is not a valid UK postcode`);
+  }
+
+  return { title, firstName, lastName, house, postcode, changes, problems };
+}
+
+/** "postcode: 'ab1 2cd' -> 'AB1 2CD' (formatted as a UK postcode)" lines for messages */
+export function describeChanges(changes: NormalizationChange[]): string[] {
+  return changes.map((c) => `${c.field}: '${c.from}' -> '${c.to}' (${c.reason})`);
+}
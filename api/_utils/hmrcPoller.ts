@@ -0,0 +1,467 @@
+// api/_utils/hmrcPoller.ts
+import { supabaseAdmin } from "./supabase.js";
+import {
+  buildHmrcDeleteRequestXml,
+  buildHmrcPollRequestXml,
+  hmrcDeleteEndpoint,
+  hmrcPollEndpoint,
+  hmrcTestDelete,
+  hmrcTestPoll,
+} from "./hmrcTransport.js";
+import { getGatewayTest, getXmlMode } from "./hmrcXml.js";
+import { resolveGatewayCreds, type GatewaySender, type HmrcSenderRole } from "./hmrcCredentials.js";
+import {
+  irmarkReceiptFromResponse,
+  summarizeGovTalkErrors,
+  tagText,
+  tryParseGovTalkResponse,
+} from "./govTalkResponse.js";
+import { hmrcErrorsForClaim, summarizeHmrcErrors } from "./hmrcErrors.js";
+import { settleClaimAdjustments } from "./adjustments.js";
+import { recordSubmissionAttempt, type AttemptActor } from "./submissionAttempts.js";
+import { redactSecrets } from "./hmrcRedact.js";
+import { moveClaimStatus } from "./claimLifecycle.js";
+
+/**
+ * Drives submitted claims to a final HMRC answer (Document Submission Protocol):
+ *
+ *   submitted/acknowledged --poll--> acknowledgement  (still processing: wait PollInterval)
+ *                                  -> response        (accepted)
+ *                                  -> error           (rejected)
+ *
+ * Used by the cron route (api/cron/poll-claims.ts) and the operator "poll" button,
+ * so both paths update claims the same way.
+ *
+ * After a final response/error we send the DSP delete_request and record its
+ * outcome in hmrc_delete_status ("deleted" | "failed"); failed deletes are
+ * retried by later poll cycles.
+ *
+ * Polls and deletes are sent with the charity's own gateway credentials
+ * (the SenderID that submitted), resolved per claim via hmrcCredentials.ts.
+ *
+ * The poll URL is whatever ResponseEndPoint HMRC handed back, so pointing the
+ * submission at a fake Transaction Engine is enough to exercise this offline.
+ *
+ * Every poll and delete_request is also recorded in claim_submission_attempts
+ * (submissionAttempts.ts); `actor` is the operator who pressed "poll", or
+ * null for the scheduler.
+ */
+
+/** Statuses that still expect a final answer from HMRC */
+export const POLLABLE_STATUSES = ["submitted", "acknowledged"] as const;
+
+/** HMRC's documented default when no PollInterval is given */
+const DEFAULT_POLL_INTERVAL_SECONDS = 10;
+
+/** Back-off when the gateway is unreachable or replies with junk */
+const TRANSPORT_RETRY_SECONDS = 60;
+
+/** claims columns pollClaimOnce needs */
+export const POLLABLE_CLAIM_COLS =
+  "id, charity_id, status, hmrc_correlation_id, hmrc_poll_url, hmrc_poll_interval, hmrc_gad_item_ids, hmrc_sender_role, hmrc_irmark_receipt";
+
+export type PollableClaim = {
+  id: string;
+  charity_id: string;
+  status: string;
+  hmrc_correlation_id: string | null;
+  hmrc_poll_url: string | null;
+  hmrc_poll_interval: number | null;
+  hmrc_gad_item_ids?: string[] | null;
+  hmrc_sender_role?: HmrcSenderRole | null;
+  /** base32 IRmark of what was sent (claimSubmission.ts) */
+  hmrc_irmark_receipt?: string | null;
+};
+
+export type PollTransport = typeof hmrcTestPoll;
+export type DeleteTransport = typeof hmrcTestDelete;
+
+export type DeletableClaim = {
+  id: string;
+  charity_id: string;
+  hmrc_sender_role?: HmrcSenderRole | null;
+  hmrc_correlation_id: string | null;
+};
+
+export type DeleteOutcome = {
+  claimId: string;
+  deleted: boolean;
+  httpStatus: number;
+  message: string;
+};
+
+export type PollOutcome = {
+  claimId: string;
+  /**
+   * superseded: the claim left the pollable statuses before the answer was
+   * stored (someone else recorded it first); error: the poll itself threw.
+   */
+  outcome: "pending" | "accepted" | "rejected" | "superseded" | "transport_error" | "credentials_error" | "error";
+  httpStatus: number;
+  qualifier: string | null;
+  message: string;
+  nextPollAt: string | null;
+  bodyText: string;
+  delete?: DeleteOutcome;
+};
+
+function addSeconds(d: Date, seconds: number) {
+  return new Date(d.getTime() + seconds * 1000).toISOString();
+}
+
+/**
+ * Polls HMRC once for a single claim and persists the result.
+ * Never throws for HMRC-side problems; those are recorded on the claim.
+ */
+export async function pollClaimOnce(
+  claim: PollableClaim,
+  opts: { now?: Date; transport?: PollTransport; deleteTransport?: DeleteTransport; actor?: AttemptActor } = {}
+): Promise<PollOutcome> {
+  const now = opts.now ?? new Date();
+  const transport = opts.transport ?? hmrcTestPoll;
+
+  const correlationId = String(claim.hmrc_correlation_id || "").trim();
+  if (!correlationId) throw new Error(`Claim ${claim.id}: no hmrc_correlation_id stored yet`);
+
+  const mode = getXmlMode();
+
+  let creds: GatewaySender;
+  try {
+    creds = await resolveGatewayCreds(claim.charity_id, mode, claim.hmrc_sender_role);
+  } catch (e: any) {
+    const message = `HMRC poll skipped: ${e?.message ?? "no gateway credentials"}`;
+    const nextPollAt = addSeconds(now, TRANSPORT_RETRY_SECONDS);
+
+    await supabaseAdmin
+      .from("claims")
+      .update({ hmrc_last_message: message, hmrc_next_poll_at: nextPollAt })
+      .eq("id", claim.id);
+
+    return { claimId: claim.id, outcome: "credentials_error", httpStatus: 0, qualifier: null, message, nextPollAt, bodyText: "" };
+  }
+
+  let httpStatus = 0;
+  let bodyText = "";
+
+  const pollParams = {
+    correlationId,
+    senderId: creds.senderId,
+    password: creds.authValue,
+    gatewayTest: getGatewayTest(mode),
+  };
+  const attempt = {
+    claimId: claim.id,
+    kind: "poll" as const,
+    actor: opts.actor ?? null,
+    endpoint: hmrcPollEndpoint(claim.hmrc_poll_url),
+    correlationId,
+    requestBody: buildHmrcPollRequestXml(pollParams),
+    secrets: [creds.authValue],
+    at: now,
+  };
+
+  try {
+    const r = await transport({ ...pollParams, url: claim.hmrc_poll_url });
+    httpStatus = r.status;
+    bodyText = r.bodyText;
+  } catch (e: any) {
+    const message = redactSecrets(
+      `HMRC poll failed: ${e?.name === "AbortError" ? "timeout" : e?.message ?? "network error"}`,
+      [creds.authValue]
+    );
+    const nextPollAt = addSeconds(now, TRANSPORT_RETRY_SECONDS);
+
+    await recordSubmissionAttempt({ ...attempt, error: message });
+
+    await supabaseAdmin
+      .from("claims")
+      .update({
+        hmrc_last_message: message,
+        hmrc_last_polled_at: now.toISOString(),
+        hmrc_next_poll_at: nextPollAt,
+      })
+      .eq("id", claim.id);
+
+    return { claimId: claim.id, outcome: "transport_error", httpStatus, qualifier: null, message, nextPollAt, bodyText };
+  }
+
+  const parsed = tryParseGovTalkResponse(bodyText);
+
+  await recordSubmissionAttempt({
+    ...attempt,
+    httpStatus,
+    qualifier: parsed?.qualifier ?? null,
+    correlationId: parsed?.correlationId || correlationId,
+    responseBody: bodyText,
+  });
+
+  if (!parsed || parsed.qualifier === "unknown" || parsed.qualifier === "request" || parsed.qualifier === "poll") {
+    const message = `HMRC poll returned an unexpected reply (HTTP ${httpStatus}).`;
+    const nextPollAt = addSeconds(now, TRANSPORT_RETRY_SECONDS);
+
+    await supabaseAdmin
+      .from("claims")
+      .update({
+        hmrc_last_message: message,
+        hmrc_last_polled_at: now.toISOString(),
+        hmrc_next_poll_at: nextPollAt,
+      })
+      .eq("id", claim.id);
+
+    return {
+      claimId: claim.id,
+      outcome: "transport_error",
+      httpStatus,
+      qualifier: parsed?.qualifier ?? null,
+      message,
+      nextPollAt,
+      bodyText,
+    };
+  }
+
+  // Still processing: HMRC may move us to a new endpoint / interval
+  if (parsed.qualifier === "acknowledgement") {
+    const interval = parsed.pollInterval ?? claim.hmrc_poll_interval ?? DEFAULT_POLL_INTERVAL_SECONDS;
+    const nextPollAt = addSeconds(now, interval);
+    const message = `HMRC still processing (poll again in ${interval}s).`;
+
+    const pending = await moveClaimStatus(claim.id, POLLABLE_STATUSES, "acknowledged", {
+      hmrc_poll_url: parsed.responseEndPoint || claim.hmrc_poll_url,
+      hmrc_poll_interval: interval,
+      hmrc_last_message: message,
+      hmrc_last_polled_at: now.toISOString(),
+      hmrc_next_poll_at: nextPollAt,
+    });
+    if (pending.error) throw new Error(`Claim ${claim.id}: could not store the poll result: ${pending.error}`);
+
+    return { claimId: claim.id, outcome: "pending", httpStatus, qualifier: parsed.qualifier, message, nextPollAt, bodyText };
+  }
+
+  // Final answer. An acceptance quotes the IRmark of what HMRC received
+  // (<IRmarkReceipt>): that is the claim's reference, and must be the one we sent.
+  const accepted = parsed.qualifier === "response";
+  const receiptMessage = tagText(parsed.body, "Message");
+  const receipt = accepted ? irmarkReceiptFromResponse(parsed.body) : "";
+  const hmrcErrors = accepted ? [] : hmrcErrorsForClaim(parsed, claim.hmrc_gad_item_ids);
+
+  const receiptProblem = !accepted
+    ? ""
+    : !receipt
+      ? " No IRmark receipt in HMRC's response."
+      : claim.hmrc_irmark_receipt && receipt !== claim.hmrc_irmark_receipt
+        ? ` IRmark receipt ${receipt} does not match the IRmark sent (${claim.hmrc_irmark_receipt}).`
+        : "";
+
+  const message = accepted
+    ? `HMRC accepted the claim${receiptMessage ? `: ${receiptMessage}` : ""}${receiptProblem}`
+    : `HMRC rejected the claim: ${summarizeHmrcErrors(hmrcErrors) || "no error detail"}`;
+
+  const stored = await moveClaimStatus(claim.id, POLLABLE_STATUSES, accepted ? "accepted" : "rejected", {
+    hmrc_reference: receipt || null,
+    hmrc_errors: hmrcErrors.length ? hmrcErrors : null,
+    hmrc_last_message: message,
+    hmrc_last_polled_at: now.toISOString(),
+    hmrc_next_poll_at: null,
+    hmrc_responded_at: now.toISOString(),
+  });
+
+  if (stored.error) throw new Error(`Claim ${claim.id}: could not store HMRC's answer: ${stored.error}`);
+
+  // Someone else already recorded the answer (or the claim moved on): leave
+  // the adjustments and the delete_request to whoever did.
+  if (!stored.moved) {
+    return {
+      claimId: claim.id,
+      outcome: "superseded",
+      httpStatus,
+      qualifier: parsed.qualifier,
+      message: "Claim is no longer awaiting HMRC; answer not stored",
+      nextPollAt: null,
+      bodyText,
+    };
+  }
+
+  // Adjustments sent with the claim: consumed if accepted, open again if rejected
+  await settleClaimAdjustments(claim.id, accepted, now);
+
+  const del = await sendDeleteForClaim(
+    {
+      id: claim.id,
+      charity_id: claim.charity_id,
+      hmrc_sender_role: claim.hmrc_sender_role,
+      hmrc_correlation_id: parsed.correlationId || correlationId,
+    },
+    { now, transport: opts.deleteTransport, actor: opts.actor }
+  );
+
+  return {
+    claimId: claim.id,
+    outcome: accepted ? "accepted" : "rejected",
+    httpStatus,
+    qualifier: parsed.qualifier,
+    message,
+    nextPollAt: null,
+    bodyText,
+    delete: del,
+  };
+}
+
+/**
+ * Sends the DSP delete_request for a claim that has its final answer,
+ * and records the outcome on the claim. Never throws for HMRC-side problems.
+ */
+export async function sendDeleteForClaim(
+  claim: DeletableClaim,
+  opts: { now?: Date; transport?: DeleteTransport; actor?: AttemptActor } = {}
+): Promise<DeleteOutcome> {
+  const now = opts.now ?? new Date();
+  const transport = opts.transport ?? hmrcTestDelete;
+  const correlationId = String(claim.hmrc_correlation_id || "").trim();
+
+  const mode = getXmlMode();
+
+  let deleted = false;
+  let httpStatus = 0;
+  let message: string;
+  let requestBody: string | null = null;
+  let password: string | null = null;
+
+  try {
+    const { senderId, authValue } = await resolveGatewayCreds(claim.charity_id, mode, claim.hmrc_sender_role);
+    password = authValue;
+    const params = { correlationId, senderId, password: authValue, gatewayTest: getGatewayTest(mode) };
+    requestBody = buildHmrcDeleteRequestXml(params);
+
+    const r = await transport(params);
+    httpStatus = r.status;
+
+    const parsed = tryParseGovTalkResponse(r.bodyText);
+    deleted = !!parsed && parsed.qualifier === "response" && parsed.function.toLowerCase() === "delete";
+
+    message = deleted
+      ? "delete_request acknowledged"
+      : parsed?.qualifier === "error"
+        ? `delete_request error: ${summarizeGovTalkErrors(parsed.errors) || "no error detail"}`
+        : `delete_request unexpected reply (HTTP ${httpStatus})`;
+
+    await recordSubmissionAttempt({
+      claimId: claim.id,
+      kind: "delete",
+      actor: opts.actor ?? null,
+      endpoint: hmrcDeleteEndpoint(),
+      httpStatus,
+      qualifier: parsed?.qualifier ?? null,
+      correlationId,
+      requestBody,
+      responseBody: r.bodyText,
+      secrets: [password],
+      at: now,
+    });
+  } catch (e: any) {
+    message = redactSecrets(
+      `delete_request failed: ${e?.name === "AbortError" ? "timeout" : e?.message ?? "network error"}`,
+      [password]
+    );
+
+    // only once it got as far as sending (not for missing credentials)
+    if (requestBody) {
+      await recordSubmissionAttempt({
+        claimId: claim.id,
+        kind: "delete",
+        actor: opts.actor ?? null,
+        endpoint: hmrcDeleteEndpoint(),
+        correlationId,
+        requestBody,
+        error: message,
+        secrets: [password],
+        at: now,
+      });
+    }
+  }
+
+  await supabaseAdmin
+    .from("claims")
+    .update({
+      hmrc_delete_status: deleted ? "deleted" : "failed",
+      hmrc_delete_message: message,
+      hmrc_deleted_at: deleted ? now.toISOString() : null,
+    })
+    .eq("id", claim.id);
+
+  return { claimId: claim.id, deleted, httpStatus, message };
+}
+
+/**
+ * One scheduler tick: poll every claim whose PollInterval has elapsed.
+ */
+export async function runPollCycle(
+  opts: { now?: Date; limit?: number; transport?: PollTransport; deleteTransport?: DeleteTransport } = {}
+): Promise<PollOutcome[]> {
+  const now = opts.now ?? new Date();
+  const limit = Math.min(Math.max(Number(opts.limit ?? 25), 1), 200);
+
+  const { data: claims, error } = await supabaseAdmin
+    .from("claims")
+    .select(POLLABLE_CLAIM_COLS)
+    .in("status", [...POLLABLE_STATUSES])
+    .not("hmrc_correlation_id", "is", null)
+    .or(`hmrc_next_poll_at.is.null,hmrc_next_poll_at.lte.${now.toISOString()}`)
+    .order("hmrc_next_poll_at", { ascending: true, nullsFirst: true })
+    .limit(limit);
+
+  if (error) throw new Error(error.message);
+
+  const outcomes: PollOutcome[] = [];
+
+  // Sequential on purpose: HMRC does not like bursts from one SenderID.
+  // One failing claim must not hold up the rest of the cycle.
+  for (const c of (claims ?? []) as PollableClaim[]) {
+    try {
+      outcomes.push(
+        await pollClaimOnce(c, { now, transport: opts.transport, deleteTransport: opts.deleteTransport })
+      );
+    } catch (e: any) {
+      const failure = `HMRC poll failed: ${e?.message ?? "unknown error"}`;
+      const nextPollAt = addSeconds(now, TRANSPORT_RETRY_SECONDS);
+
+      const { error: noteErr } = await supabaseAdmin
+        .from("claims")
+        .update({ hmrc_last_message: failure, hmrc_next_poll_at: nextPollAt })
+        .eq("id", c.id)
+        .in("status", POLLABLE_STATUSES);
+
+      // the cycle's summary is then the only record of it
+      const message = noteErr ? `${failure} (not recorded on the claim: ${noteErr.message})` : failure;
+
+      outcomes.push({ claimId: c.id, outcome: "error", httpStatus: 0, qualifier: null, message, nextPollAt, bodyText: "" });
+    }
+  }
+
+  return outcomes;
+}
+
+/**
+ * Retries delete_request for claims whose final answer we have but whose
+ * delete did not go through last time.
+ */
+export async function retryFailedDeletes(
+  opts: { now?: Date; limit?: number; transport?: DeleteTransport } = {}
+): Promise<DeleteOutcome[]> {
+  const limit = Math.min(Math.max(Number(opts.limit ?? 25), 1), 200);
+
+  const { data: claims, error } = await supabaseAdmin
+    .from("claims")
+    .select("id, charity_id, hmrc_sender_role, hmrc_correlation_id")
+    .in("status", ["accepted", "rejected"])
+    .eq("hmrc_delete_status", "failed")
+    .not("hmrc_correlation_id", "is", null)
+    .limit(limit);
+
+  if (error) throw new Error(error.message);
+
+  const outcomes: DeleteOutcome[] = [];
+  for (const c of (claims ?? []) as DeletableClaim[]) {
+    outcomes.push(await sendDeleteForClaim(c, { now: opts.now, transport: opts.transport }));
+  }
+  return outcomes;
+}
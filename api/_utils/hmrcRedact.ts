@@ -0,0 +1,73 @@
+// api/_utils/hmrcRedact.ts
+
+/**
+ * Redaction for anything that leaves the send path: rows we persist
+ * (claim_submission_attempts, claims.hmrc_raw_response), API responses
+ * (XML preview, receipts, response snippets) and error text.
+ *
+ * GovTalk envelopes carry the gateway password in clear
+ * (<Authentication><Method>clear</Method>...<Value>password</Value>), and
+ * transport errors can echo credentials back. The unredacted message only
+ * exists in memory between building it and posting it.
+ */
+
+/** What a redacted secret is replaced with */
+export const REDACTED = "***REDACTED***";
+
+/** Env vars whose values must never show up in stored or returned text */
+const SECRET_ENV_VARS = ["CRON_SECRET", "SUPABASE_SERVICE_ROLE_KEY", "HMRC_CRED_ENCRYPTION_KEY"];
+
+/** The default gateway password: masked like any resolved credential, however short */
+const CREDENTIAL_ENV_VARS = ["HMRC_AUTH_VALUE"];
+
+/**
+ * Env secrets shorter than this are not masked literally (too likely to hit
+ * ordinary text). Gateway passwords are always masked.
+ */
+const MIN_LITERAL_SECRET_LENGTH = 6;
+
+function escapeRegExp(v: string) {
+  return v.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+const AUTH_VALUE_RE =
+  /(<(?:[\w-]+:)?Authentication\b[^>]*>[\s\S]*?<(?:[\w-]+:)?Value\b[^>]*>)([\s\S]*?)(<\/(?:[\w-]+:)?Value>)/gi;
+
+/** Gateway passwords found in a GovTalk message (to mask them where they are echoed back) */
+export function govTalkAuthValues(xml: string | null | undefined): string[] {
+  return [...String(xml ?? "").matchAll(AUTH_VALUE_RE)].map((m) => m[2].trim()).filter(Boolean);
+}
+
+/**
+ * Masks secrets in a GovTalk message, receipt or error text:
+ * - <Authentication> ... <Value>…</Value> (with or without a namespace prefix)
+ * - "password" / "gatewayPassword" / "authValue" fields in JSON
+ * - literal values of known secrets (env secrets plus `knownSecrets`,
+ *   e.g. the gateway password resolved for this message); credentials are
+ *   masked whatever their length
+ */
+export function redactSecrets(text: string | null | undefined, knownSecrets: Array<string | null | undefined> = []): string {
+  let out = String(text ?? "")
+    .replace(AUTH_VALUE_RE, `$1${REDACTED}$3`)
+    .replace(/("(?:gateway)?password"|"authValue")(\s*:\s*)"(?:[^"\\]|\\.)*"/gi, `$1$2"${REDACTED}"`);
+
+  const trimmed = (values: Array<string | null | undefined>) => values.map((v) => String(v ?? "").trim());
+  const credentials = trimmed([...CREDENTIAL_ENV_VARS.map((k) => process.env[k]), ...knownSecrets]).filter(Boolean);
+  const envSecrets = trimmed(SECRET_ENV_VARS.map((k) => process.env[k])).filter(
+    (v) => v.length >= MIN_LITERAL_SECRET_LENGTH
+  );
+
+  // longest first, so a secret that contains another is masked whole
+  const literals = [...new Set([...credentials, ...envSecrets])].sort((a, b) => b.length - a.length);
+
+  for (const secret of literals) {
+    out = out.replace(new RegExp(escapeRegExp(secret), "g"), REDACTED);
+  }
+
+  return out;
+}
+
+/** Same as redactSecrets, but keeps null for empty values (for nullable columns) */
+export function redactOrNull(text: string | null | undefined, knownSecrets: Array<string | null | undefined> = []) {
+  return text ? redactSecrets(text, knownSecrets) : null;
+}
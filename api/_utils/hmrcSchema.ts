@@ -0,0 +1,135 @@
+// api/_utils/hmrcSchema.ts
+import fs from "fs";
+import path from "path";
+import { validateXML } from "xmllint-wasm";
+import { govTalkAuthValues, redactSecrets } from "./hmrcRedact.js";
+
+/**
+ * Offline schema check for the claim XML we generate, run before anything is
+ * sent to HMRC (and by the XML preview). Catches element order, overlong
+ * names, malformed dates/amounts and postcodes without a gateway round trip.
+ *
+ * Schemas live in api/_hmrc_schemas (GovTalk envelope + R68 v2); the entry
+ * point imports both so one xmllint pass validates envelope and claim body.
+ * The bundled envelope and R68 files are hand-written partial schemas, not
+ * HMRC's official files (see their headers). To check against the official
+ * ones from the HMRC Charities Technical Pack, save them as envelope-v2-0.xsd
+ * and r68-v2.xsd in a directory and point HMRC_SCHEMA_DIR at it; the
+ * generated-claim test in _tests/hmrcSchema.test.ts then runs against them.
+ */
+
+export type SchemaViolation = {
+  /** 1-based line in the generated XML (null if xmllint gave none) */
+  line: number | null;
+  /** local name of the offending element, when xmllint names one */
+  element: string | null;
+  message: string;
+  /** 1-based <GAD> the line falls in, if any */
+  gadIndex: number | null;
+  /** claim_items.id for that GAD row, if we know it */
+  itemId: string | null;
+};
+
+const ENTRY_SCHEMA = "hmrc-char-clm.xsd";
+const IMPORTED_SCHEMAS = ["envelope-v2-0.xsd", "r68-v2.xsd"];
+
+function schemaDir(): string {
+  return path.join(process.cwd(), "api", "_hmrc_schemas");
+}
+
+/** Where the envelope and R68 schemas are read from (HMRC_SCHEMA_DIR overrides the bundled copies) */
+function importedSchemaDir(): string {
+  const dir = String(process.env.HMRC_SCHEMA_DIR || "").trim();
+  return dir ? path.resolve(dir) : schemaDir();
+}
+
+let cachedSchemas: { entry: string; imports: Array<{ fileName: string; contents: string }> } | null = null;
+
+function loadSchemas() {
+  if (cachedSchemas) return cachedSchemas;
+
+  const read = (f: string, dir = schemaDir()) => {
+    const p = path.join(dir, f);
+    if (!fs.existsSync(p)) throw new Error(`HMRC schema not found: ${p}`);
+    return fs.readFileSync(p, "utf8");
+  };
+
+  cachedSchemas = {
+    entry: read(ENTRY_SCHEMA),
+    imports: IMPORTED_SCHEMAS.map((fileName) => ({ fileName, contents: read(fileName, importedSchemaDir()) })),
+  };
+  return cachedSchemas;
+}
+
+/** 1-based GAD index containing `line` (null if the line is outside every <GAD>) */
+function gadIndexForLine(xml: string, line: number | null): number | null {
+  if (line === null) return null;
+
+  const lines = xml.split("\n").slice(0, line);
+  let index = 0;
+  let inside = false;
+  lines.forEach((l, i) => {
+    if (/<(?:[\w.-]+:)?GAD>/.test(l)) {
+      index++;
+      inside = true;
+    }
+    // an error reported on the closing line still belongs to that GAD
+    if (/<\/(?:[\w.-]+:)?GAD>/.test(l) && i < lines.length - 1) inside = false;
+  });
+  return inside ? index : null;
+}
+
+/**
+ * Validates a complete HMRC-CHAR-CLM message.
+ * Returns [] when valid. `gadItemIds[i]` is the claim_items.id rendered as the (i+1)th <GAD>.
+ */
+export async function validateClaimXml(xml: string, gadItemIds?: string[] | null): Promise<SchemaViolation[]> {
+  const { entry, imports } = loadSchemas();
+
+  const result = await validateXML({
+    xml: [{ fileName: "claim.xml", contents: xml }],
+    schema: [{ fileName: ENTRY_SCHEMA, contents: entry }],
+    preload: imports,
+  });
+
+  if (result.valid) return [];
+
+  const ids = Array.isArray(gadItemIds) ? gadItemIds : [];
+  // xmllint quotes offending values; the envelope's <Value> is the gateway password
+  const secrets = govTalkAuthValues(xml);
+
+  return result.errors
+    .filter((e) => !e.loc || e.loc.fileName === "claim.xml")
+    .map((e) => {
+      const line = e.loc?.lineNumber ?? null;
+      const gadIndex = gadIndexForLine(xml, line);
+      const element = /Element '(?:\{[^}]*\})?([^']+)'/.exec(e.message)?.[1] ?? null;
+
+      return {
+        line,
+        element,
+        message: redactSecrets(
+          e.message
+            .replace(/^Schemas validity error\s*:\s*/, "")
+            // "{namespace-uri}Name" -> "Name"; leaves value sets like {'a', 'b'} alone
+            .replace(/\{[^}\s']+\}(?=[\w.-])/g, "")
+            .trim(),
+          secrets
+        ),
+        gadIndex,
+        itemId: gadIndex !== null ? ids[gadIndex - 1] ?? null : null,
+      };
+    });
+}
+
+/** One-line summary, for hmrc_last_message / error strings */
+export function summarizeSchemaViolations(violations: SchemaViolation[]): string {
+  if (violations.length === 0) return "";
+
+  const first = violations
+    .slice(0, 3)
+    .map((v) => `${v.gadIndex !== null ? `donation #${v.gadIndex}: ` : v.line !== null ? `line ${v.line}: ` : ""}${v.message}`)
+    .join("; ");
+
+  return violations.length > 3 ? `${first}; +${violations.length - 3} more` : first;
+}
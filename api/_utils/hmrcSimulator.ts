@@ -0,0 +1,414 @@
+// api/_utils/hmrcSimulator.ts
+import crypto from "crypto";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { computeIrmark } from "./irmark.js";
+import { tagText, tryParseGovTalkResponse } from "./govTalkResponse.js";
+
+/**
+ * A small stand-in for the HMRC Transaction Engine, so the whole
+ * submit -> poll -> response/error -> delete cycle (and data_request) can run
+ * offline or in CI. Served by api/dev/hmrc-te.ts; point the app at it with
+ * HMRC_TRANSACTION_ENGINE_URL=http://localhost:3000/api/dev/hmrc-te.
+ *
+ * Every submission follows a script of poll outcomes, e.g. "ack,delay:30,success":
+ * - ack            next poll answers "acknowledgement" (still processing)
+ * - delay:<secs>   keep acknowledging until <secs> after the submission
+ * - error[:<number>[:<gad>]]
+ *                  final business error (GovTalk 3001 + <ErrorResponse>),
+ *                  optionally located at GAD[<gad>] so per-item attribution can be tested
+ * - success        final response with an IRmarkReceipt for the submitted body
+ * When the script runs out the claim succeeds.
+ *
+ * The script comes from the control endpoint (POST .../script) or
+ * HMRC_SIMULATOR_SCRIPT. Submissions whose IRmark does not match their body
+ * are rejected straight away, like the real gateway.
+ *
+ * Error numbers the simulator invents itself are 9xxx, so they are never
+ * mistaken for real HMRC codes.
+ *
+ * State lives in a JSON file under os.tmpdir(): serverless dev servers may run
+ * each request in a fresh process.
+ */
+
+export type SimulatorStep =
+  | { kind: "ack" }
+  | { kind: "delay"; seconds: number }
+  | { kind: "error"; number: string; gadIndex: number | null }
+  | { kind: "success" };
+
+type SimulatedSubmission = {
+  correlationId: string;
+  senderId: string;
+  messageClass: string;
+  submittedAt: string;
+  irmarkReceipt: string;
+  charId: string;
+  steps: SimulatorStep[];
+  /** set once a poll has returned the final answer */
+  final: "response" | "error" | null;
+};
+
+export type SimulatorState = {
+  script: string | null;
+  submissions: Record<string, SimulatedSubmission>;
+};
+
+export type SimulatorReply = { status: number; bodyText: string };
+
+const DEFAULT_SCRIPT = "ack,success";
+
+function statePath() {
+  return path.join(os.tmpdir(), "hmrc-te-simulator.json");
+}
+
+export function loadSimulatorState(): SimulatorState {
+  try {
+    const raw = JSON.parse(fs.readFileSync(statePath(), "utf8"));
+    return { script: raw?.script ?? null, submissions: raw?.submissions ?? {} };
+  } catch {
+    return { script: null, submissions: {} };
+  }
+}
+
+export function saveSimulatorState(state: SimulatorState) {
+  fs.writeFileSync(statePath(), JSON.stringify(state, null, 2), "utf8");
+}
+
+export function resetSimulatorState() {
+  saveSimulatorState({ script: null, submissions: {} });
+}
+
+/** Parses "ack,delay:30,error:9101:2,success" (throws on unknown steps) */
+export function parseSimulatorScript(script: string): SimulatorStep[] {
+  return String(script ?? "")
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean)
+    .map((s): SimulatorStep => {
+      const [kind, a, b] = s.split(":").map((p) => p.trim());
+      switch (kind.toLowerCase()) {
+        case "ack":
+          return { kind: "ack" };
+        case "delay": {
+          const seconds = Number(a);
+          if (!Number.isFinite(seconds) || seconds < 0) throw new Error(`Simulator: bad delay "${s}"`);
+          return { kind: "delay", seconds };
+        }
+        case "error": {
+          const gad = b ? Number(b) : NaN;
+          return { kind: "error", number: a || "9101", gadIndex: Number.isInteger(gad) && gad > 0 ? gad : null };
+        }
+        case "success":
+          return { kind: "success" };
+        default:
+          throw new Error(`Simulator: unknown step "${s}"`);
+      }
+    });
+}
+
+function xmlEscape(s: string) {
+  return String(s ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function gatewayTimestamp(now: Date) {
+  return now.toISOString().replace("Z", "");
+}
+
+function govTalkReply(p: {
+  now: Date;
+  messageClass: string;
+  qualifier: "acknowledgement" | "response" | "error";
+  fn: string;
+  correlationId: string;
+  responseEndPoint?: { url: string; pollInterval: number };
+  errors?: Array<{ number: string; type: string; text: string; location?: string }>;
+  body?: string;
+}) {
+  const endPoint = p.responseEndPoint
+    ? `\n      <ResponseEndPoint PollInterval="${p.responseEndPoint.pollInterval}">${xmlEscape(p.responseEndPoint.url)}</ResponseEndPoint>`
+    : "";
+
+  const errors = p.errors?.length
+    ? `
+    <GovTalkErrors>${p.errors
+      .map(
+        (e) => `
+      <Error>
+        <RaisedBy>Department</RaisedBy>
+        <Number>${xmlEscape(e.number)}</Number>
+        <Type>${xmlEscape(e.type)}</Type>
+        <Text>${xmlEscape(e.text)}</Text>${e.location ? `\n        <Location>${xmlEscape(e.location)}</Location>` : ""}
+      </Error>`
+      )
+      .join("")}
+    </GovTalkErrors>`
+    : "";
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<GovTalkMessage xmlns="http://www.govtalk.gov.uk/CM/envelope">
+  <EnvelopeVersion>2.0</EnvelopeVersion>
+  <Header>
+    <MessageDetails>
+      <Class>${xmlEscape(p.messageClass)}</Class>
+      <Qualifier>${p.qualifier}</Qualifier>
+      <Function>${xmlEscape(p.fn)}</Function>
+      <CorrelationID>${xmlEscape(p.correlationId)}</CorrelationID>${endPoint}
+      <GatewayTimestamp>${gatewayTimestamp(p.now)}</GatewayTimestamp>
+    </MessageDetails>
+    <SenderDetails/>
+  </Header>
+  <GovTalkDetails>
+    <Keys/>${errors}
+  </GovTalkDetails>
+  <Body>${p.body ?? ""}</Body>
+</GovTalkMessage>`;
+}
+
+function gatewayError(now: Date, messageClass: string, fn: string, correlationId: string, number: string, text: string) {
+  return govTalkReply({
+    now,
+    messageClass,
+    qualifier: "error",
+    fn,
+    correlationId,
+    errors: [{ number, type: "fatal", text }],
+  });
+}
+
+function successBody(sub: SimulatedSubmission, now: Date) {
+  const when = `${now.toISOString().slice(11, 16)} on ${now.toISOString().slice(0, 10)}`;
+  return `
+    <SuccessResponse xmlns="http://www.inlandrevenue.gov.uk/SuccessResponse">
+      <IRmarkReceipt>
+        <Message code="0000">HMRC (simulator) has received the ${xmlEscape(sub.messageClass)} document ref: ${xmlEscape(sub.charId)} at ${when}. The associated IRmark was: ${sub.irmarkReceipt}.</Message>
+      </IRmarkReceipt>
+      <AcceptedTime>${now.toISOString()}</AcceptedTime>
+    </SuccessResponse>
+  `;
+}
+
+function businessErrorBody(step: Extract<SimulatorStep, { kind: "error" }>) {
+  const location =
+    step.gadIndex !== null
+      ? `/hd:GovTalkMessage[1]/hd:Body[1]/r68:IRenvelope[1]/r68:R68[1]/r68:Claim[1]/r68:Repayment[1]/r68:GAD[${step.gadIndex}]`
+      : "";
+
+  return `
+    <ErrorResponse xmlns="http://www.govtalk.gov.uk/CM/errorresponse" SchemaVersion="2.0">
+      <Application/>
+      <Error>
+        <RaisedBy>ChRIS</RaisedBy>
+        <Number>${xmlEscape(step.number)}</Number>
+        <Type>business</Type>
+        <Text>Simulated business rule failure${step.gadIndex !== null ? ` for donation ${step.gadIndex}` : ""}</Text>${location ? `\n        <Location>${location}</Location>` : ""}
+      </Error>
+    </ErrorResponse>
+  `;
+}
+
+/**
+ * Advances a submission's script for one poll.
+ * Returns the step that decides this poll's answer.
+ */
+function nextStep(sub: SimulatedSubmission, now: Date): SimulatorStep {
+  while (sub.steps.length) {
+    const step = sub.steps[0];
+    if (step.kind === "delay") {
+      const readyAt = new Date(sub.submittedAt).getTime() + step.seconds * 1000;
+      if (now.getTime() < readyAt) return { kind: "ack" };
+      sub.steps.shift();
+      continue;
+    }
+    // final steps stay at the head so repeat polls get the same answer
+    if (step.kind === "ack") sub.steps.shift();
+    return step;
+  }
+  return { kind: "success" };
+}
+
+/**
+ * Handles one GovTalk message posted to the simulator.
+ * `baseUrl` is the simulator's own URL (for ResponseEndPoint).
+ */
+export function handleSimulatorMessage(
+  xml: string,
+  opts: { baseUrl: string; now?: Date; pollInterval?: number }
+): SimulatorReply {
+  const now = opts.now ?? new Date();
+  const pollInterval = opts.pollInterval ?? Number(process.env.HMRC_SIMULATOR_POLL_INTERVAL ?? 1);
+
+  const msg = tryParseGovTalkResponse(xml);
+  if (!msg) {
+    return { status: 400, bodyText: gatewayError(now, "", "", "", "9001", "Not a GovTalk message") };
+  }
+
+  const { messageClass, correlationId } = msg;
+  const fn = msg.function.toLowerCase();
+  // a DSP poll is Qualifier "poll" with Function "submit"
+  const isPoll = msg.qualifier === "poll";
+  const senderId = tagText(xml, "SenderID");
+
+  const state = loadSimulatorState();
+
+  try {
+    if (fn === "submit" && !isPoll) {
+      if (correlationId) {
+        return {
+          status: 200,
+          bodyText: gatewayError(now, messageClass, fn, "", "9003", "CorrelationID must be blank on a submission"),
+        };
+      }
+
+      const sent = tagText(xml, "IRmark");
+      let expected: ReturnType<typeof computeIrmark>;
+      try {
+        expected = computeIrmark(xml);
+      } catch (e: any) {
+        return { status: 200, bodyText: gatewayError(now, messageClass, fn, "", "9001", e?.message ?? "Bad XML") };
+      }
+      if (sent !== expected.irmark) {
+        return {
+          status: 200,
+          bodyText: gatewayError(now, messageClass, fn, "", "9002", `IRmark mismatch (expected ${expected.irmark})`),
+        };
+      }
+
+      const id = crypto.randomBytes(16).toString("hex").toUpperCase();
+      state.submissions[id] = {
+        correlationId: id,
+        senderId,
+        messageClass,
+        submittedAt: now.toISOString(),
+        irmarkReceipt: expected.receipt,
+        charId: tagText(xml, "Key"),
+        steps: parseSimulatorScript(state.script ?? process.env.HMRC_SIMULATOR_SCRIPT ?? DEFAULT_SCRIPT),
+        final: null,
+      };
+
+      return {
+        status: 200,
+        bodyText: govTalkReply({
+          now,
+          messageClass,
+          qualifier: "acknowledgement",
+          fn,
+          correlationId: id,
+          responseEndPoint: { url: `${opts.baseUrl}/poll`, pollInterval },
+        }),
+      };
+    }
+
+    if (isPoll) {
+      const sub = state.submissions[correlationId];
+      if (!sub) {
+        return { status: 200, bodyText: gatewayError(now, messageClass, fn, correlationId, "9004", "Unknown CorrelationID") };
+      }
+
+      const step = nextStep(sub, now);
+
+      if (step.kind === "error") {
+        sub.final = "error";
+        return {
+          status: 200,
+          bodyText: govTalkReply({
+            now,
+            messageClass: sub.messageClass,
+            qualifier: "error",
+            fn: "submit",
+            correlationId,
+            errors: [
+              {
+                number: "3001",
+                type: "business",
+                text: "The submission of this document has failed due to departmental specific business logic in the Body tag.",
+              },
+            ],
+            body: businessErrorBody(step),
+          }),
+        };
+      }
+
+      if (step.kind === "success") {
+        sub.final = "response";
+        return {
+          status: 200,
+          bodyText: govTalkReply({
+            now,
+            messageClass: sub.messageClass,
+            qualifier: "response",
+            fn: "submit",
+            correlationId,
+            body: successBody(sub, now),
+          }),
+        };
+      }
+
+      return {
+        status: 200,
+        bodyText: govTalkReply({
+          now,
+          messageClass: sub.messageClass,
+          qualifier: "acknowledgement",
+          fn: "submit",
+          correlationId,
+          responseEndPoint: { url: `${opts.baseUrl}/poll`, pollInterval },
+        }),
+      };
+    }
+
+    if (fn === "delete") {
+      if (!state.submissions[correlationId]) {
+        return { status: 200, bodyText: gatewayError(now, messageClass, fn, correlationId, "9004", "Unknown CorrelationID") };
+      }
+      delete state.submissions[correlationId];
+      return { status: 200, bodyText: govTalkReply({ now, messageClass, qualifier: "response", fn, correlationId }) };
+    }
+
+    if (fn === "list") {
+      const records = Object.values(state.submissions)
+        .filter((s) => s.senderId === senderId)
+        .map(
+          (s) => `
+        <StatusRecord>
+          <TimeStamp>${gatewayTimestamp(new Date(s.submittedAt))}</TimeStamp>
+          <CorrelationID>${s.correlationId}</CorrelationID>
+          <TransactionID></TransactionID>
+          <Status>${s.final === "response" ? "SUBMISSION_RESPONSE" : s.final === "error" ? "SUBMISSION_ERROR" : "SUBMISSION_ACKNOWLEDGEMENT"}</Status>
+        </StatusRecord>`
+        )
+        .join("");
+
+      return {
+        status: 200,
+        bodyText: govTalkReply({
+          now,
+          messageClass,
+          qualifier: "response",
+          fn,
+          correlationId: "",
+          body: `
+    <StatusReport>
+      <SenderID>${xmlEscape(senderId)}</SenderID>
+      <StartTimeStamp></StartTimeStamp>
+      <EndTimeStamp>${gatewayTimestamp(now)}</EndTimeStamp>${records}
+    </StatusReport>
+  `,
+        }),
+      };
+    }
+
+    return {
+      status: 200,
+      bodyText: gatewayError(now, messageClass, fn, correlationId, "9005", `Unsupported Function "${fn}"`),
+    };
+  } finally {
+    saveSimulatorState(state);
+  }
+}
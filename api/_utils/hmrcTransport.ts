@@ -3,6 +3,27 @@ import type { VercelRequest } from "@vercel/node";
 export const HMRC_TEST_SUBMIT_URL = "https://test-transaction-engine.tax.service.gov.uk/submission";
 export const HMRC_TEST_POLL_URL = "https://test-transaction-engine.tax.service.gov.uk/poll";
 
+/**
+ * Transaction Engine base URL. Defaults to the HMRC test gateway; set
+ * HMRC_TRANSACTION_ENGINE_URL to point the whole pipeline (submit, poll,
+ * delete, data_request) somewhere else, e.g. the local simulator at
+ * http://localhost:3000/api/dev/hmrc-te (see api/_utils/hmrcSimulator.ts).
+ */
+export function getTransactionEngineBaseUrl(): string | null {
+  const v = String(process.env.HMRC_TRANSACTION_ENGINE_URL || "").trim();
+  return v ? v.replace(/\/+$/, "") : null;
+}
+
+export function getHmrcSubmitUrl(): string {
+  const base = getTransactionEngineBaseUrl();
+  return base ? `${base}/submission` : HMRC_TEST_SUBMIT_URL;
+}
+
+export function getHmrcPollUrl(): string {
+  const base = getTransactionEngineBaseUrl();
+  return base ? `${base}/poll` : HMRC_TEST_POLL_URL;
+}
+
 type HttpResult = {
   ok: boolean;
   status: number;
@@ -10,6 +31,16 @@ type HttpResult = {
   contentType: string | null;
 };
 
+/** Header carrying HMRC_SIMULATOR_SECRET; the simulator route refuses requests without it */
+export const SIMULATOR_SECRET_HEADER = "x-hmrc-simulator-secret";
+
+/** The simulator secret, only for URLs under the HMRC_TRANSACTION_ENGINE_URL override (never HMRC's own) */
+function simulatorHeaders(url: string): Record<string, string> {
+  const secret = String(process.env.HMRC_SIMULATOR_SECRET || "").trim();
+  const base = getTransactionEngineBaseUrl();
+  return secret && base && url.startsWith(`${base}/`) ? { [SIMULATOR_SECRET_HEADER]: secret } : {};
+}
+
 async function httpPostXml(url: string, xml: string, timeoutMs = 25000): Promise<HttpResult> {
   const ac = new AbortController();
   const timer = setTimeout(() => ac.abort(), timeoutMs);
@@ -20,6 +51,7 @@ async function httpPostXml(url: string, xml: string, timeoutMs = 25000): Promise
       headers: {
         "Content-Type": "text/xml; charset=utf-8",
         "Accept": "text/xml, application/xml, */*",
+        ...simulatorHeaders(url),
       },
       body: xml,
       signal: ac.signal,
@@ -39,36 +71,39 @@ async function httpPostXml(url: string, xml: string, timeoutMs = 25000): Promise
 
 /**
  * Submit claim XML to HMRC Transaction Engine TEST endpoint.
+ * Parse the reply with parseGovTalkResponse (govTalkResponse.ts).
  */
-export async function hmrcTestSubmit(xml: string) {
-  return httpPostXml(HMRC_TEST_SUBMIT_URL, xml);
+export async function hmrcTestSubmit(xml: string, url = getHmrcSubmitUrl()) {
+  return httpPostXml(url, xml);
 }
 
-/**
- * Poll HMRC Transaction Engine TEST endpoint.
- *
- * HMRC "poll" expects a GovTalk envelope too. We'll send a minimal poll request
- * referencing the CorrelationID you used at submission time.
- *
- * Note: This is the standard "Document Submission Protocol" pattern. :contentReference[oaicite:2]{index=2}
- */
-export async function hmrcTestPoll(params: {
-  correlationId: string;
+export type GatewayCreds = {
   senderId: string;
   password: string;
   gatewayTest: 1 | 0;
+};
+
+/**
+ * Body-less GovTalk message used by the Document Submission Protocol for
+ * poll (Qualifier "poll", Function "submit"), delete_request and
+ * data_request (Qualifier "request", Function "delete" / "list").
+ */
+function buildGatewayMessageXml(params: GatewayCreds & {
+  messageClass: string;
+  qualifier: "poll" | "request";
+  fn: "submit" | "delete" | "list";
+  correlationId: string;
 }) {
-  const { correlationId, senderId, password, gatewayTest } = params;
+  const { messageClass, qualifier, fn, correlationId, senderId, password, gatewayTest } = params;
 
-  const pollXml =
-`<?xml version="1.0" encoding="UTF-8"?>
+  return `<?xml version="1.0" encoding="UTF-8"?>
 <GovTalkMessage xmlns="http://www.govtalk.gov.uk/CM/envelope">
   <EnvelopeVersion>2.0</EnvelopeVersion>
   <Header>
     <MessageDetails>
-      <Class>HMRC-GATEWAY-POLL</Class>
-      <Qualifier>request</Qualifier>
-      <Function>poll</Function>
+      <Class>${escapeXml(messageClass)}</Class>
+      <Qualifier>${qualifier}</Qualifier>
+      <Function>${fn}</Function>
       <CorrelationID>${escapeXml(correlationId)}</CorrelationID>
       <Transformation>XML</Transformation>
       <GatewayTest>${gatewayTest}</GatewayTest>
@@ -84,10 +119,107 @@ export async function hmrcTestPoll(params: {
       </IDAuthentication>
     </SenderDetails>
   </Header>
+  <GovTalkDetails>
+    <Keys/>
+  </GovTalkDetails>
   <Body/>
 </GovTalkMessage>`;
+}
+
+/**
+ * Poll HMRC Transaction Engine TEST endpoint.
+ *
+ * HMRC "poll" expects a GovTalk envelope too. We'll send a minimal poll request
+ * referencing the CorrelationID you used at submission time.
+ *
+ * Note: This is the standard "Document Submission Protocol" pattern. :contentReference[oaicite:2]{index=2}
+ *
+ * `url` should be the ResponseEndPoint HMRC returned in the acknowledgement;
+ * it falls back to the configured poll URL when none was stored.
+ */
+export async function hmrcTestPoll(params: GatewayCreds & {
+  correlationId: string;
+  url?: string | null;
+}) {
+  return httpPostXml(hmrcPollEndpoint(params.url), buildHmrcPollRequestXml(params));
+}
+
+/** Where a poll goes: the stored ResponseEndPoint, else the configured poll URL */
+export function hmrcPollEndpoint(url?: string | null): string {
+  return String(url || "").trim() || getHmrcPollUrl();
+}
 
-  return httpPostXml(HMRC_TEST_POLL_URL, pollXml);
+/**
+ * DSP poll: same Class as the submission, Qualifier "poll", Function
+ * "submit", and the CorrelationID from the acknowledgement.
+ */
+export function buildHmrcPollRequestXml(params: GatewayCreds & {
+  correlationId: string;
+  messageClass?: string;
+}) {
+  return buildGatewayMessageXml({
+    ...params,
+    messageClass: params.messageClass || "HMRC-CHAR-CLM",
+    qualifier: "poll",
+    fn: "submit",
+  });
+}
+
+/**
+ * DSP delete_request: tells the gateway we have the final response for
+ * `correlationId`, so it can drop it. Must be sent after every final
+ * response/error, otherwise responses pile up in data_request listings.
+ *
+ * Reply is a GovTalk message with Qualifier "response" and Function "delete".
+ */
+export function buildHmrcDeleteRequestXml(params: GatewayCreds & {
+  correlationId: string;
+  messageClass?: string;
+}) {
+  return buildGatewayMessageXml({
+    ...params,
+    messageClass: params.messageClass || "HMRC-CHAR-CLM",
+    qualifier: "request",
+    fn: "delete",
+  });
+}
+
+export async function hmrcTestDelete(params: GatewayCreds & {
+  correlationId: string;
+  messageClass?: string;
+  url?: string | null;
+}) {
+  return httpPostXml(hmrcDeleteEndpoint(params.url), buildHmrcDeleteRequestXml(params));
+}
+
+/** delete_request goes to the submission URL unless told otherwise */
+export function hmrcDeleteEndpoint(url?: string | null): string {
+  return String(url || "").trim() || getHmrcSubmitUrl();
+}
+
+/**
+ * DSP data_request: asks the gateway which submissions it still holds for
+ * this SenderID (and message class). CorrelationID must be blank.
+ *
+ * Reply is a GovTalk "response" with Function "list" and a <StatusReport>
+ * body (see parseStatusReport in govTalkResponse.ts).
+ */
+export function buildHmrcDataRequestXml(params: GatewayCreds & { messageClass?: string }) {
+  return buildGatewayMessageXml({
+    ...params,
+    messageClass: params.messageClass || "HMRC-CHAR-CLM",
+    qualifier: "request",
+    fn: "list",
+    correlationId: "",
+  });
+}
+
+export async function hmrcTestDataRequest(params: GatewayCreds & {
+  messageClass?: string;
+  url?: string | null;
+}) {
+  const url = String(params.url || "").trim() || getHmrcSubmitUrl();
+  return httpPostXml(url, buildHmrcDataRequestXml(params));
 }
 
 export function getBearerToken(req: VercelRequest): string | null {
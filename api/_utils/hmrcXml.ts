@@ -1,12 +1,24 @@
 // api/_utils/hmrcXml.ts
 import fs from "fs";
 import path from "path";
-import { supabaseAdmin } from "./supabase.js";
+import { applyIrmark } from "./irmark.js";
+import { resolveGatewayCreds, type AgentDetails, type HmrcSenderRole } from "./hmrcCredentials.js";
+import { checkGasdsRules, gasdsProblems, type CommunityBuilding, type GasdsEntry } from "./gasds.js";
+import { buildOtherIncomeFields, type OtherIncomeFields } from "./otherIncome.js";
+import { adjustmentProblem, adjustmentTotal, claimRepayment } from "./adjustments.js";
+import { normalizeDonorFields, type NormalizationChange } from "./hmrcNormalize.js";
+import {
+  missingProfileFields,
+  normalizeRegulator,
+  type CharityProfileFields,
+} from "./charityProfile.js";
+import { AGG_DESCRIPTION_MAX, AGG_ROW_MAX_TOTAL, normalizeItemType, type ClaimItemType } from "./claimItems.js";
+import { claimTotals, loadClaimContent, type ClaimContent, type ClaimTotals } from "./claimSnapshot.js";
 
 /**
  * Version stamp (exposed via response headers in your handlers)
  */
-export const HMRC_XML_VERSION = "2026-01-28-v1-ets-creds-and-ts-modes";
+export const HMRC_XML_VERSION = "2026-10-19-v2-computed-irmark";
 
 /**
  * Modes:
@@ -16,13 +28,24 @@ export const HMRC_XML_VERSION = "2026-01-28-v1-ets-creds-and-ts-modes";
  *
  * Set env HMRC_XML_MODE to one of: "ETS" | "LIVE" | "LTS"
  */
-function getXmlMode(): "ETS" | "LIVE" | "LTS" {
+export type HmrcXmlMode = "ETS" | "LIVE" | "LTS";
+
+export function getXmlMode(): HmrcXmlMode {
   const v = String(process.env.HMRC_XML_MODE || "ETS").trim().toUpperCase();
   if (v === "LIVE") return "LIVE";
   if (v === "LTS") return "LTS";
   return "ETS";
 }
 
+/**
+ * GatewayTest flag for any message we send (claim, poll, delete, ...).
+ * Keep "1" for test traffic; "0" for live. HMRC_GATEWAY_TEST overrides.
+ */
+export function getGatewayTest(mode: HmrcXmlMode): 1 | 0 {
+  const v = String(process.env.HMRC_GATEWAY_TEST ?? (mode === "LIVE" ? "0" : "1")).trim();
+  return v === "0" ? 0 : 1;
+}
+
 /** XML escape */
 function xmlEscape(v: any): string {
   return String(v ?? "")
@@ -138,20 +161,11 @@ function loadTemplateOrFallback(): string {
         <PeriodEnd>{{PERIOD_END}}</PeriodEnd>
         <DefaultCurrency>GBP</DefaultCurrency>
         <IRmark Type="generic">{{IRMARK}}</IRmark>
-        <Sender>Individual</Sender>
+        <Sender>{{SENDER_TYPE}}</Sender>
       </IRheader>
 
       <R68>
-        <AuthOfficial>
-          <OffName>
-            <Fore>{{OFFICIAL_FORE}}</Fore>
-            <Sur>{{OFFICIAL_SUR}}</Sur>
-          </OffName>
-          <OffID>
-            <Postcode>{{OFFICIAL_POSTCODE}}</Postcode>
-          </OffID>
-          <Phone>{{OFFICIAL_PHONE}}</Phone>
-        </AuthOfficial>
+{{CLAIMANT_BLOCK}}
 
         <Declaration>yes</Declaration>
 
@@ -159,21 +173,16 @@ function loadTemplateOrFallback(): string {
           <OrgName>{{ORG_NAME}}</OrgName>
           <HMRCref>{{HMRCREF}}</HMRCref>
 
-          <Regulator>
-            <RegName>{{REG_NAME}}</RegName>
-            <RegNo>{{REG_NO}}</RegNo>
-          </Regulator>
+{{REGULATOR_BLOCK}}
 
           <Repayment>
 {{DONATION_ROWS}}
             <EarliestGAdate>{{EARLIEST_GA_DATE}}</EarliestGAdate>
-            {{OTHER_INC_BLOCK}}
+{{OTHER_INC_BLOCK}}
+{{ADJUSTMENT_BLOCK}}
           </Repayment>
 
-          <GASDS>
-            <ConnectedCharities>no</ConnectedCharities>
-            <CommBldgs>no</CommBldgs>
-          </GASDS>
+{{GASDS_BLOCK}}
         </Claim>
       </R68>
     </IRenvelope>
@@ -187,66 +196,192 @@ function normalizePostcode(postcode: any): string {
   return String(postcode ?? "").trim().toUpperCase();
 }
 
+/**
+ * HMRC sample official/regulator. Only used in ETS, for charities whose
+ * profile is not filled in yet; LIVE/LTS refuse to build without the real ones.
+ */
+const SAMPLE_PROFILE: CharityProfileFields = {
+  official_title: null,
+  official_fore: "John",
+  official_sur: "Smith",
+  official_postcode: "AB12 3CD",
+  official_phone: "01234 567890",
+  regulator: "CCEW",
+  regulator_number: "A1234",
+};
+
+/** <AuthOfficial> block: the charity files for itself (charities.official_*) */
+function buildAuthOfficialXml(profile: CharityProfileFields): string {
+  return [
+    "        <AuthOfficial>",
+    "          <OffName>",
+    ...(profile.official_title ? [`            <Ttl>${xmlEscape(profile.official_title)}</Ttl>`] : []),
+    `            <Fore>${xmlEscape(profile.official_fore)}</Fore>`,
+    `            <Sur>${xmlEscape(profile.official_sur)}</Sur>`,
+    "          </OffName>",
+    "          <OffID>",
+    `            <Postcode>${xmlEscape(normalizePostcode(profile.official_postcode))}</Postcode>`,
+    "          </OffID>",
+    `          <Phone>${xmlEscape(profile.official_phone)}</Phone>`,
+    "        </AuthOfficial>",
+  ].join("\n");
+}
+
+/** <Regulator> block: RegName + RegNo, or <NoReg> for exempt/unregistered charities */
+function buildRegulatorXml(profile: CharityProfileFields): string {
+  const regulator = normalizeRegulator(profile.regulator);
+  return [
+    "          <Regulator>",
+    regulator === "none"
+      ? "            <NoReg>yes</NoReg>"
+      : [
+          `            <RegName>${xmlEscape(regulator)}</RegName>`,
+          `            <RegNo>${xmlEscape(profile.regulator_number)}</RegNo>`,
+        ].join("\n"),
+    "          </Regulator>",
+  ].join("\n");
+}
+
+/** <AgtOrNom> block: an agent files on the charity's behalf (repayment still goes to the charity) */
+function buildAgentXml(agent: AgentDetails): string {
+  return [
+    "        <AgtOrNom>",
+    `          <OrgName>${xmlEscape(agent.orgName)}</OrgName>`,
+    `          <RefNo>${xmlEscape(agent.agentRef)}</RefNo>`,
+    "          <PayToAoN>no</PayToAoN>",
+    "          <AoNID>",
+    `            <Postcode>${xmlEscape(normalizePostcode(agent.postcode))}</Postcode>`,
+    "          </AoNID>",
+    `          <Phone>${xmlEscape(agent.phone)}</Phone>`,
+    "        </AgtOrNom>",
+  ].join("\n");
+}
+
 /** Build a single <GAD> row in the sample style */
 function buildGadRowXml(item: {
+  item_type: ClaimItemType;
   donor_first_name: string;
   donor_last_name: string;
-  donor_address: string;
+  /** house name/number only (see hmrcNormalize.ts) */
+  donor_house: string;
   donor_postcode: string;
+  donor_overseas: boolean;
+  agg_description: string;
+  sponsored: boolean;
   donation_date: string;
   donation_amount: number;
 }): string {
   const donationDate = normalizeDate(item.donation_date);
   const amount = formatMoney(item.donation_amount);
-  const postcode = normalizePostcode(item.donor_postcode);
-  const address = String(item.donor_address ?? "").trim();
+  // R68 order: Donor/AggDonation, Sponsored, Date, Total
+  const sponsoredLine = item.sponsored ? ["              <Sponsored>yes</Sponsored>"] : [];
+
+  // Aggregated small donations: description instead of a named donor
+  if (item.item_type === "aggregated") {
+    return [
+      "            <GAD>",
+      `              <AggDonation>${xmlEscape(String(item.agg_description ?? "").trim())}</AggDonation>`,
+      `              <Date>${xmlEscape(donationDate)}</Date>`,
+      `              <Total>${xmlEscape(amount)}</Total>`,
+      "            </GAD>",
+    ].join("\n");
+  }
+
+  // Donors outside the UK have no postcode: <Overseas>yes</Overseas> takes its place
+  const locationLine = item.donor_overseas
+    ? "                <Overseas>yes</Overseas>"
+    : `                <Postcode>${xmlEscape(normalizePostcode(item.donor_postcode))}</Postcode>`;
 
   return [
     "            <GAD>",
     "              <Donor>",
     `                <Fore>${xmlEscape(String(item.donor_first_name ?? "").trim())}</Fore>`,
     `                <Sur>${xmlEscape(String(item.donor_last_name ?? "").trim())}</Sur>`,
-    `                <House>${xmlEscape(address)}</House>`,
-    `                <Postcode>${xmlEscape(postcode)}</Postcode>`,
+    `                <House>${xmlEscape(item.donor_house)}</House>`,
+    locationLine,
     "              </Donor>",
+    ...sponsoredLine,
     `              <Date>${xmlEscape(donationDate)}</Date>`,
     `              <Total>${xmlEscape(amount)}</Total>`,
     "            </GAD>",
   ].join("\n");
 }
 
-function earliestDonationDate(items: Array<{ donation_date: string }>, fallback: string): string {
-  const dates = items
-    .map((it) => normalizeDate(it.donation_date))
-    .filter((d) => /^\d{4}-\d{2}-\d{2}$/.test(d))
-    .sort();
-  return dates[0] || fallback;
+/** <OtherInc> rows (tax-deducted other income), placed after EarliestGAdate */
+function buildOtherIncXml(rows: OtherIncomeFields[]): string {
+  return rows
+    .map((r) =>
+      [
+        "            <OtherInc>",
+        `              <Payer>${xmlEscape(r.payer_name)}</Payer>`,
+        `              <OIDate>${xmlEscape(normalizeDate(r.income_date))}</OIDate>`,
+        `              <Gross>${xmlEscape(formatMoney(r.gross_amount))}</Gross>`,
+        `              <Tax>${xmlEscape(formatMoney(r.tax_deducted))}</Tax>`,
+        "            </OtherInc>",
+      ].join("\n")
+    )
+    .join("\n");
+}
+
+/** <Adjustment>: previous overclaims taken off this claim (see adjustments.ts) */
+function buildAdjustmentXml(total: number): string {
+  return total > 0 ? `            <Adjustment>${xmlEscape(formatMoney(total))}</Adjustment>` : "";
 }
 
 /**
- * Returns ETS test credentials per Charities Technical Pack.
- * If you set HMRC_SENDER_ID / HMRC_AUTH_VALUE, those override.
+ * <GASDS> block (see gasds.ts): general small-donation amounts per tax year,
+ * then one <Building> per community building with its own per-year amounts.
+ * With no entries this is the plain "no" flags block.
  */
-function getSenderCreds(mode: "ETS" | "LIVE" | "LTS") {
-  const senderFromEnv = String(process.env.HMRC_SENDER_ID || "").trim();
-  const passFromEnv = String(process.env.HMRC_AUTH_VALUE || "").trim();
-
-  // If explicitly set, always use env.
-  if (senderFromEnv && passFromEnv) {
-    return { senderId: senderFromEnv, authValue: passFromEnv };
+function buildGasdsXml(
+  entries: GasdsEntry[],
+  adjustment: number | null,
+  registers: { buildings: CommunityBuilding[]; connectedCharities: boolean }
+): string {
+  const yearAmount = (tag: string, e: GasdsEntry, indent: string) => [
+    `${indent}<${tag}>`,
+    `${indent}  <Year>${e.tax_year}</Year>`,
+    `${indent}  <Amount>${xmlEscape(formatMoney(e.amount))}</Amount>`,
+    `${indent}</${tag}>`,
+  ];
+
+  const general = entries.filter((e) => !e.building_id);
+  const buildings = registers.buildings.filter((b) => entries.some((e) => e.building_id === b.id));
+
+  const lines = [
+    "          <GASDS>",
+    `            <ConnectedCharities>${registers.connectedCharities ? "yes" : "no"}</ConnectedCharities>`,
+  ];
+
+  for (const e of general) lines.push(...yearAmount("GASDSClaim", e, "            "));
+
+  lines.push(`            <CommBldgs>${buildings.length ? "yes" : "no"}</CommBldgs>`);
+
+  for (const b of buildings) {
+    lines.push(
+      "            <Building>",
+      `              <BldgName>${xmlEscape(b.name.trim())}</BldgName>`,
+      `              <Address>${xmlEscape(b.address.trim())}</Address>`,
+      `              <Postcode>${xmlEscape(normalizePostcode(b.postcode))}</Postcode>`
+    );
+    for (const e of entries.filter((x) => x.building_id === b.id)) {
+      lines.push(...yearAmount("BldgClaim", e, "              "));
+    }
+    lines.push("            </Building>");
   }
 
-  // Defaults:
-  // ETS uses fixed test creds from the pack.
-  if (mode === "ETS") {
-    return { senderId: "323412300001", authValue: "testing1" };
-  }
+  if (adjustment) lines.push(`            <Adj>${xmlEscape(formatMoney(adjustment))}</Adj>`);
+  lines.push("          </GASDS>");
 
-  // LIVE/LTS default to your old sample values unless overridden.
-  return {
-    senderId: senderFromEnv || "GIFTAIDCHAR",
-    authValue: passFromEnv || "testing2",
-  };
+  return lines.join("\n");
+}
+
+function earliestDonationDate(items: Array<{ donation_date: string }>, fallback: string): string {
+  const dates = items
+    .map((it) => normalizeDate(it.donation_date))
+    .filter((d) => /^\d{4}-\d{2}-\d{2}$/.test(d))
+    .sort();
+  return dates[0] || fallback;
 }
 
 /**
@@ -256,7 +391,7 @@ function getSenderCreds(mode: "ETS" | "LIVE" | "LTS") {
  * If you set HMRC_TEST_CHARID it will be used for ETS mode (only),
  * otherwise we use the charity’s stored charity_number.
  */
-function chooseCharIdForMode(mode: "ETS" | "LIVE" | "LTS", charityNumberOrLegacy: string) {
+function chooseCharIdForMode(mode: HmrcXmlMode, charityNumberOrLegacy: string) {
   if (mode === "ETS") {
     const forced = String(process.env.HMRC_TEST_CHARID || "").trim();
     if (forced) return forced;
@@ -266,96 +401,249 @@ function chooseCharIdForMode(mode: "ETS" | "LIVE" | "LTS", charityNumberOrLegacy
   return charityNumberOrLegacy;
 }
 
+export type GeneratedClaimXml = {
+  xml: string;
+  /** base64 IRmark inserted into the message */
+  irmark: string;
+  /** base32 form of the same digest (as printed on HMRC receipts) */
+  irmarkReceipt: string;
+  /** charity the claim belongs to */
+  charityId: string;
+  /** whose gateway creds are in the envelope (polls/deletes must use the same) */
+  senderRole: HmrcSenderRole;
+  /** claim_items ids in <GAD> order — maps HMRC error locations (GAD[n]) back to items */
+  gadItemIds: string[];
+  /** charity_adjustments rows summed into <Adjustment> (attached to the claim before it is sent) */
+  adjustments: Array<{ id: string; amount: number }>;
+  /** donor values adjusted to fit HMRC's format, per item (stored rows are left as they are) */
+  normalizationChanges: Array<{ itemId: string; changes: NormalizationChange[] }>;
+  /** counts and sums of what was built (the snapshot's totals once frozen) */
+  totals: ClaimTotals;
+  /** true when built from claims.ready_snapshot rather than the live rows */
+  fromSnapshot: boolean;
+};
+
 /**
  * ✅ MAIN entrypoint used by Preview XML + ISV Submit:
  * Uses charities.charity_number as HMRC CHARID / HMRCref.
  * (Keeps charities.charity_id as legacy fallback.)
  */
 export async function generateHmrcGiftAidXml(claimId: string): Promise<string> {
-  const id = String(claimId || "").trim();
-  if (!id) throw new Error("claimId is required");
+  const { xml } = await generateHmrcGiftAidClaim(claimId);
+  return xml;
+}
 
-  const mode = getXmlMode();
+/** Letters/digits only, as accepted by charity setup */
+const CHARID_RE = /^[A-Z0-9]{3,30}$/i;
 
-  // 1) Load claim
-  const { data: claim, error: claimErr } = await supabaseAdmin
-    .from("claims")
-    .select("id, charity_id, period_start, period_end")
-    .eq("id", id)
-    .single();
+/** One reason a claim cannot be sent; `id` is the item / other income row when the rule is about one */
+export type ClaimProblem = {
+  scope: "claim" | "charity" | "item" | "otherIncome" | "gasds";
+  id: string | null;
+  message: string;
+};
 
-  if (claimErr || !claim) throw new Error(claimErr?.message || "Claim not found");
+/** "Item x: a; Item y: b" — for error strings */
+export function summarizeClaimProblems(problems: ClaimProblem[]): string {
+  return problems.map((p) => p.message).join("; ");
+}
 
-  const periodEnd = normalizeDate((claim as any).period_end);
-  if (!periodEnd) throw new Error("Claim period_end is missing/invalid (expected YYYY-MM-DD)");
-  const periodStart = normalizeDate((claim as any).period_start) || periodEnd;
+/**
+ * Every rule a claim has to pass before it is built, all failures at once.
+ * Used by mark-ready (on the live rows) and by the generator (on the
+ * snapshot). `needsOfficial` is false when the charity files through the agent.
+ */
+export async function validateClaimContent(
+  content: ClaimContent,
+  opts: { mode: HmrcXmlMode; needsOfficial: boolean }
+): Promise<{ problems: ClaimProblem[]; donors: Map<string, ReturnType<typeof normalizeDonorFields>> }> {
+  const problems: ClaimProblem[] = [];
+  const add = (scope: ClaimProblem["scope"], id: string | null, message: string) => problems.push({ scope, id, message });
+  const { claim, charity, items, otherIncome, gasds, adjustments } = content;
+
+  // Claim
+  if (!normalizeDate(claim.period_end)) add("claim", null, "Claim period_end is missing/invalid (expected YYYY-MM-DD)");
+
+  // Charity — HMRC CHARID == charity_number
+  const rawCharid = String(charity.charity_number || "").trim() || String(charity.charity_id || "").trim();
+  const charid = chooseCharIdForMode(opts.mode, rawCharid);
+  if (!charid) {
+    add("charity", charity.id, "Missing Charity Number (used as HMRC CHARID). Ask an operator to set it in Admin.");
+  } else if (!CHARID_RE.test(charid)) {
+    add("charity", charity.id, `Charity Number '${charid}' is not a valid HMRC CHARID (3-30 letters/numbers)`);
+  }
 
-  // 2) Load charity — HMRC CHARID == charity_number
-  const { data: charity, error: charityErr } = await supabaseAdmin
-    .from("charities")
-    .select("id, name, contact_email, charity_number, charity_id")
-    .eq("id", (claim as any).charity_id)
-    .single();
+  // ETS may fall back to HMRC's sample official/regulator; anything else must be real
+  const missingProfile = missingProfileFields(charity, { needsOfficial: opts.needsOfficial });
+  if (missingProfile.length && opts.mode !== "ETS") {
+    add(
+      "charity",
+      charity.id,
+      `Charity profile is missing: ${missingProfile.join(", ")}. Ask an operator to complete it on the charity page.`
+    );
+  }
 
-  if (charityErr || !charity) throw new Error(charityErr?.message || "Charity not found");
+  // Donations; donor details are normalised to HMRC's format on the way out
+  if (items.length === 0) add("claim", null, "No donation items found for this claim");
 
-  const rawCharid =
-    String((charity as any).charity_number || "").trim() ||
-    String((charity as any).charity_id || "").trim(); // legacy fallback
+  const donors = new Map<string, ReturnType<typeof normalizeDonorFields>>();
 
-  const charid = chooseCharIdForMode(mode, rawCharid);
+  for (const it of items) {
+    const itemProblem = (message: string) => add("item", String(it.id), `Item ${it.id}: ${message}`);
 
-  if (!charid) {
-    throw new Error("Missing Charity Number (used as HMRC CHARID). Ask an operator to set it in Admin.");
+    if (!normalizeDate(it.donation_date)) itemProblem("Donation Date is required (YYYY-MM-DD)");
+
+    const amt = Number(it.donation_amount);
+    if (!Number.isFinite(amt) || amt <= 0) itemProblem("Donation Amount must be > 0");
+
+    if (normalizeItemType(it.item_type) === "aggregated") {
+      const desc = String(it.agg_description || "").trim();
+      if (!desc) itemProblem("aggregated row needs a description");
+      if (desc.length > AGG_DESCRIPTION_MAX) {
+        itemProblem(`aggregated description must be ${AGG_DESCRIPTION_MAX} characters or fewer`);
+      }
+      if (amt > AGG_ROW_MAX_TOTAL) itemProblem(`aggregated row cannot exceed £${AGG_ROW_MAX_TOTAL}`);
+      if (it.sponsored === true) itemProblem("sponsored donations cannot be aggregated");
+      continue;
+    }
+
+    const missing = [
+      !String(it.donor_first_name || "").trim() && "First Name is required",
+      !String(it.donor_last_name || "").trim() && "Last Name is required",
+      !String(it.donor_address || "").trim() && "Address is required",
+      !normalizePostcode(it.donor_postcode) &&
+        it.donor_overseas !== true &&
+        "Postcode is required (or mark the donor as overseas)",
+    ].filter((m): m is string => !!m);
+
+    missing.forEach(itemProblem);
+    if (missing.length) continue;
+
+    const donor = normalizeDonorFields({
+      firstName: String(it.donor_first_name),
+      lastName: String(it.donor_last_name),
+      address: String(it.donor_address),
+      postcode: String(it.donor_postcode ?? ""),
+      overseas: it.donor_overseas === true,
+    });
+    donor.problems.forEach(itemProblem);
+    if (!donor.problems.length) donors.set(String(it.id), donor);
   }
 
-  // 3) Load claim items
-  const { data: items, error: itemsErr } = await supabaseAdmin
-    .from("claim_items")
-    .select(
-      "id, donor_first_name, donor_last_name, donor_address, donor_postcode, donation_date, donation_amount"
-    )
-    .eq("claim_id", id)
-    .order("donation_date", { ascending: true });
+  // Other income with tax deducted (same rules as the other-income routes)
+  for (const r of otherIncome) {
+    const { error } = buildOtherIncomeFields({
+      payerName: r.payer_name,
+      incomeDate: normalizeDate(r.income_date),
+      grossAmount: r.gross_amount,
+      taxDeducted: r.tax_deducted,
+    });
+    if (error) add("otherIncome", String(r.id), `Other income ${r.id}: ${error}`);
+  }
+
+  // GASDS top-ups (caps + matching rule re-checked; rows may predate newer claims)
+  try {
+    for (const issue of gasdsProblems(await checkGasdsRules(claim, gasds.entries))) add("gasds", null, `GASDS: ${issue}`);
+  } catch (e: any) {
+    add("gasds", null, `GASDS: ${e?.message ?? e}`);
+  }
 
-  if (itemsErr) throw new Error(itemsErr.message);
+  // Previous overclaims cannot take more than the claim repays
+  const totals = claimTotals(content);
+  const gasdsTotal = gasds.entries.reduce((sum, e) => sum + Number(e.amount || 0), 0) - (gasds.adjustment ?? 0);
+  const repayment = claimRepayment({
+    donations: totals.total_amount,
+    gasds: Math.max(gasdsTotal, 0),
+    otherIncomeTax: totals.other_income_tax,
+  });
+  const overAdjusted = adjustmentProblem(adjustments, repayment);
+  if (overAdjusted) add("claim", null, overAdjusted);
+
+  return { problems, donors };
+}
 
-  const itemRows = (items || []) as any[];
-  if (itemRows.length === 0) throw new Error("No donation items found for this claim");
+/**
+ * Same as generateHmrcGiftAidXml, but also returns the computed IRmark
+ * so submit routes can store it on the claim.
+ *
+ * A claim that has been marked ready is built from its frozen snapshot only
+ * (items, charity, GASDS and adjustments; see claimSnapshot.ts); a draft from
+ * the live rows.
+ */
+export async function generateHmrcGiftAidClaim(claimId: string): Promise<GeneratedClaimXml> {
+  const id = String(claimId || "").trim();
+  if (!id) throw new Error("claimId is required");
 
-  // 4) Validate items
-  for (const it of itemRows) {
-    if (!String(it.donor_first_name || "").trim()) throw new Error(`Item ${it.id}: First Name is required`);
-    if (!String(it.donor_last_name || "").trim()) throw new Error(`Item ${it.id}: Last Name is required`);
-    if (!String(it.donor_address || "").trim()) throw new Error(`Item ${it.id}: Address is required`);
+  const mode = getXmlMode();
 
-    const pc = normalizePostcode(it.donor_postcode);
-    if (!pc) throw new Error(`Item ${it.id}: Postcode is required`);
+  // 1) Claim content: snapshot if frozen, live rows otherwise
+  const { content, snapshot } = await loadClaimContent(id);
+  const { claim, charity, items: itemRows, otherIncome } = content;
 
-    const d = normalizeDate(it.donation_date);
-    if (!d) throw new Error(`Item ${it.id}: Donation Date is required (YYYY-MM-DD)`);
+  // The charity's own gateway login, or the agent's (per charities.hmrc_mode; see hmrcCredentials.ts)
+  const sender = await resolveGatewayCreds(String(charity.id), mode);
+  const { senderId, authValue } = sender;
 
-    const amt = Number(it.donation_amount);
-    if (!Number.isFinite(amt) || amt <= 0) throw new Error(`Item ${it.id}: Donation Amount must be > 0`);
+  if (sender.role === "agent" && (!sender.agent?.agentRef || !sender.agent?.orgName)) {
+    throw new Error("Agent connection is missing the agent reference or name. Ask an operator to re-save it.");
   }
 
-  // 5) Donation rows
+  // 2) Every rule at once (see validateClaimContent)
+  const { problems, donors } = await validateClaimContent(content, { mode, needsOfficial: sender.role !== "agent" });
+  if (problems.length) throw new Error(summarizeClaimProblems(problems));
+
+  const periodEnd = normalizeDate(claim.period_end);
+  const periodStart = normalizeDate(claim.period_start) || periodEnd;
+
+  const rawCharid = String(charity.charity_number || "").trim() || String(charity.charity_id || "").trim(); // legacy fallback
+  const charid = chooseCharIdForMode(mode, rawCharid);
+
+  // Authorised official (own filing only) + regulator from the charity profile.
+  // ETS may fall back to HMRC's sample values (validateClaimContent refuses it elsewhere).
+  const profile: CharityProfileFields = missingProfileFields(charity, { needsOfficial: sender.role !== "agent" }).length
+    ? SAMPLE_PROFILE
+    : charity;
+
+  // 3) Donation rows
   const donationRowsXml = itemRows
-    .map((it) =>
-      buildGadRowXml({
-        donor_first_name: String(it.donor_first_name),
-        donor_last_name: String(it.donor_last_name),
-        donor_address: String(it.donor_address),
-        donor_postcode: String(it.donor_postcode),
+    .map((it) => {
+      const donor = donors.get(String(it.id));
+      return buildGadRowXml({
+        item_type: normalizeItemType(it.item_type),
+        donor_first_name: donor?.firstName ?? "",
+        donor_last_name: donor?.lastName ?? "",
+        donor_house: donor?.house ?? "",
+        donor_postcode: donor?.postcode ?? "",
+        donor_overseas: it.donor_overseas === true,
+        agg_description: String(it.agg_description ?? ""),
+        sponsored: it.sponsored === true,
         donation_date: String(it.donation_date),
         donation_amount: Number(it.donation_amount),
-      })
-    )
+      });
+    })
     .join("\n");
 
-  const earliestGA = earliestDonationDate(itemRows, periodStart);
-
-  // 6) Header fields per mode
+  const earliestGA = earliestDonationDate(
+    itemRows.map((it) => ({ donation_date: String(it.donation_date ?? "") })),
+    periodStart
+  );
+
+  // 3a) Other income with tax deducted (validated above)
+  const otherIncomeRows = otherIncome.map(
+    (r) =>
+      buildOtherIncomeFields({
+        payerName: r.payer_name,
+        incomeDate: normalizeDate(r.income_date),
+        grossAmount: r.gross_amount,
+        taxDeducted: r.tax_deducted,
+      }).fields as OtherIncomeFields
+  );
+
+  // 3b) GASDS top-ups and 3c) previous overclaims to pay back come with the
+  //     content too (rules checked above)
+  const { gasds, adjustments } = content;
+
+  // 4) Header fields per mode
   // - CorrelationID: reserved/system-controlled for Transaction Engine (ETS/LIVE) -> MUST be blank
   // - GatewayTimestamp:
   //    - LTS requires a value
@@ -366,9 +654,7 @@ export async function generateHmrcGiftAidXml(claimId: string): Promise<string> {
       ? new Date().toISOString().replace("Z", "") // LTS example is without trailing Z sometimes; either works locally
       : ""; // ETS/LIVE blank to avoid fixed-value errors
 
-  const { senderId, authValue } = getSenderCreds(mode);
-
-  // 7) Fill template
+  // 5) Fill template
   const template = loadTemplateOrFallback();
 
   const vars: Record<string, string> = {
@@ -376,7 +662,7 @@ export async function generateHmrcGiftAidXml(claimId: string): Promise<string> {
 
     // GatewayTest:
     // Keep "1" for test traffic; set to "0" for live if you want (via env).
-    GATEWAY_TEST: xmlEscape(process.env.HMRC_GATEWAY_TEST ?? (mode === "LIVE" ? "0" : "1")),
+    GATEWAY_TEST: xmlEscape(String(getGatewayTest(mode))),
 
     GATEWAY_TIMESTAMP: xmlEscape(gatewayTimestamp),
 
@@ -396,40 +682,55 @@ export async function generateHmrcGiftAidXml(claimId: string): Promise<string> {
 
     // IRheader
     PERIOD_END: xmlEscape(periodEnd),
-    IRMARK: xmlEscape(process.env.HMRC_IRMARK ?? "nMs6zamBGcmT7n0selJHXuiQUEw="),
+    // Computed after the template is filled (see step 7)
+    IRMARK: "",
+    SENDER_TYPE: sender.role === "agent" ? "Agent" : "Individual",
 
-    // Official (sample defaults)
-    OFFICIAL_FORE: xmlEscape(process.env.HMRC_OFFICIAL_FORE ?? "John"),
-    OFFICIAL_SUR: xmlEscape(process.env.HMRC_OFFICIAL_SUR ?? "Smith"),
-    OFFICIAL_POSTCODE: xmlEscape(process.env.HMRC_OFFICIAL_POSTCODE ?? "AB12 3CD"),
-    OFFICIAL_PHONE: xmlEscape(process.env.HMRC_OFFICIAL_PHONE ?? "01234 567890"),
+    // Who signs the claim: the charity's authorised official, or the agent
+    CLAIMANT_BLOCK: sender.role === "agent" && sender.agent ? buildAgentXml(sender.agent) : buildAuthOfficialXml(profile),
 
     // Claim
-    ORG_NAME: xmlEscape(String((charity as any).name || "My Organisation")),
+    ORG_NAME: xmlEscape(String(charity.name || "My Organisation")),
 
     // Per the pack: HMRCref is the charity’s HMRC reference (same value used in CHARID keys)
     HMRCREF: xmlEscape(charid),
 
-    // Regulator (sample defaults)
-    REG_NAME: xmlEscape(process.env.HMRC_REG_NAME ?? "CCEW"),
-    REG_NO: xmlEscape(process.env.HMRC_REG_NO ?? "A1234"),
+    REGULATOR_BLOCK: buildRegulatorXml(profile),
 
     // Repayment
     DONATION_ROWS: donationRowsXml,
     EARLIEST_GA_DATE: xmlEscape(earliestGA),
 
     // Optional blocks
-    OTHER_INC_BLOCK: "",
+    OTHER_INC_BLOCK: buildOtherIncXml(otherIncomeRows),
+    ADJUSTMENT_BLOCK: buildAdjustmentXml(adjustmentTotal(adjustments)),
+    GASDS_BLOCK: buildGasdsXml(gasds.entries, gasds.adjustment, gasds),
   };
 
   const xml = replaceAllPlaceholders(template, vars);
 
-  // 8) Safety check: no placeholders left
+  // 6) Safety check: no placeholders left
   if (xml.indexOf("{{") !== -1) {
     const pos = xml.indexOf("{{");
     const snippet = xml.slice(Math.max(0, pos - 60), Math.min(xml.length, pos + 140));
     throw new Error(`XML template still has unreplaced placeholders. Snippet: ${snippet}`);
   }
 
-  return xml;
+  // 7) IRmark: canonicalised <Body> (minus IRmark) -> SHA-1 -> base64
+  const marked = applyIrmark(xml);
+
+  return {
+    xml: marked.xml,
+    irmark: marked.irmark,
+    irmarkReceipt: marked.receipt,
+    charityId: String(charity.id),
+    senderRole: sender.role,
+    gadItemIds: itemRows.map((it) => String(it.id)),
+    adjustments: adjustments.map((a) => ({ id: a.id, amount: Number(a.amount) })),
+    normalizationChanges: [...donors.entries()]
+      .filter(([, d]) => d.changes.length > 0)
+      .map(([itemId, d]) => ({ itemId, changes: d.changes })),
+    totals: snapshot?.totals ?? claimTotals(content),
+    fromSnapshot: !!snapshot,
+  };
 }
@@ -0,0 +1,308 @@
+// api/_utils/irmark.ts
+import crypto from "crypto";
+
+/**
+ * IRmark per the HMRC "IRmark Specification":
+ * 1) take the GovTalk <Body> element (keeping the envelope namespace in scope)
+ * 2) remove the <IRmark> element
+ * 3) canonicalise with W3C Canonical XML 1.0 (inclusive, without comments)
+ * 4) SHA-1 the canonical bytes
+ *
+ * The mark in the message is the base64 digest; the receipt form HMRC prints
+ * on acknowledgements is the same digest in base32 (32 chars).
+ *
+ * We only ever canonicalise XML we generated ourselves, so the parser below is
+ * deliberately small: no DTDs, no external entities.
+ */
+
+type XmlAttr = { name: string; value: string };
+
+type XmlNode =
+  | { type: "element"; name: string; attrs: XmlAttr[]; children: XmlNode[] }
+  | { type: "text"; value: string }
+  | { type: "pi"; target: string; data: string };
+
+type XmlElement = Extract<XmlNode, { type: "element" }>;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  lt: "<",
+  gt: ">",
+  amp: "&",
+  quot: '"',
+  apos: "'",
+};
+
+function decodeEntities(s: string): string {
+  return s.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[a-zA-Z]+);/g, (m, ref: string) => {
+    if (ref[0] === "#") {
+      const code = ref[1] === "x" ? parseInt(ref.slice(2), 16) : parseInt(ref.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : m;
+    }
+    const v = NAMED_ENTITIES[ref];
+    if (v === undefined) throw new Error(`IRmark: unsupported entity &${ref};`);
+    return v;
+  });
+}
+
+/** Minimal XML parser -> tree (comments dropped, CDATA folded into text) */
+function parseXml(input: string): XmlElement {
+  // XML line-end normalisation
+  const xml = input.replace(/\r\n?/g, "\n");
+
+  const root: XmlElement = { type: "element", name: "#document", attrs: [], children: [] };
+  const stack: XmlElement[] = [root];
+  let i = 0;
+
+  const top = () => stack[stack.length - 1];
+
+  const pushText = (value: string) => {
+    if (!value) return;
+    const kids = top().children;
+    const last = kids[kids.length - 1];
+    if (last && last.type === "text") last.value += value;
+    else kids.push({ type: "text", value });
+  };
+
+  while (i < xml.length) {
+    const lt = xml.indexOf("<", i);
+    if (lt === -1) {
+      pushText(decodeEntities(xml.slice(i)));
+      break;
+    }
+    if (lt > i) pushText(decodeEntities(xml.slice(i, lt)));
+
+    if (xml.startsWith("<!--", lt)) {
+      const end = xml.indexOf("-->", lt + 4);
+      if (end === -1) throw new Error("IRmark: unterminated comment");
+      i = end + 3;
+      continue;
+    }
+
+    if (xml.startsWith("<![CDATA[", lt)) {
+      const end = xml.indexOf("]]>", lt + 9);
+      if (end === -1) throw new Error("IRmark: unterminated CDATA");
+      pushText(xml.slice(lt + 9, end));
+      i = end + 3;
+      continue;
+    }
+
+    if (xml.startsWith("<?", lt)) {
+      const end = xml.indexOf("?>", lt + 2);
+      if (end === -1) throw new Error("IRmark: unterminated processing instruction");
+      const body = xml.slice(lt + 2, end);
+      const m = /^([^\s]+)\s*([\s\S]*)$/.exec(body);
+      const target = m?.[1] ?? "";
+      // The XML declaration is not a PI and is never part of the canonical form
+      if (target.toLowerCase() !== "xml") {
+        top().children.push({ type: "pi", target, data: m?.[2] ?? "" });
+      }
+      i = end + 2;
+      continue;
+    }
+
+    if (xml.startsWith("<!", lt)) {
+      throw new Error("IRmark: DOCTYPE declarations are not supported");
+    }
+
+    if (xml.startsWith("</", lt)) {
+      const end = xml.indexOf(">", lt);
+      if (end === -1) throw new Error("IRmark: unterminated end tag");
+      const name = xml.slice(lt + 2, end).trim();
+      const open = stack.pop();
+      if (!open || open.name !== name) {
+        throw new Error(`IRmark: mismatched end tag </${name}>`);
+      }
+      i = end + 1;
+      continue;
+    }
+
+    // Start tag
+    const tagRe = /^<([^\s/>]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/;
+    const m = tagRe.exec(xml.slice(lt));
+    if (!m) throw new Error(`IRmark: malformed tag near: ${xml.slice(lt, lt + 60)}`);
+
+    const attrs: XmlAttr[] = [];
+    const attrRe = /([^\s=/>]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+    let am: RegExpExecArray | null;
+    while ((am = attrRe.exec(m[2])) !== null) {
+      const raw = am[2] ?? am[3] ?? "";
+      // attribute-value normalisation (CDATA type): whitespace chars -> space
+      attrs.push({ name: am[1], value: decodeEntities(raw.replace(/[\t\n]/g, " ")) });
+    }
+
+    const el: XmlElement = { type: "element", name: m[1], attrs, children: [] };
+    top().children.push(el);
+    if (!m[3]) stack.push(el);
+    i = lt + m[0].length;
+  }
+
+  if (stack.length !== 1) throw new Error(`IRmark: unclosed element <${top().name}>`);
+  return root;
+}
+
+function localName(qname: string) {
+  const idx = qname.indexOf(":");
+  return idx === -1 ? qname : qname.slice(idx + 1);
+}
+
+function nsDeclsOf(el: XmlElement): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const a of el.attrs) {
+    if (a.name === "xmlns") out[""] = a.value;
+    else if (a.name.startsWith("xmlns:")) out[a.name.slice(6)] = a.value;
+  }
+  return out;
+}
+
+/** Finds the first element with this local name, collecting in-scope namespaces on the way */
+function findWithScope(
+  el: XmlElement,
+  name: string,
+  scope: Record<string, string>
+): { el: XmlElement; scope: Record<string, string> } | null {
+  for (const child of el.children) {
+    if (child.type !== "element") continue;
+    const childScope = { ...scope, ...nsDeclsOf(child) };
+    if (localName(child.name) === name) return { el: child, scope: childScope };
+    const found = findWithScope(child, name, childScope);
+    if (found) return found;
+  }
+  return null;
+}
+
+function escapeC14nText(s: string) {
+  return s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/\r/g, "&#xD;");
+}
+
+function escapeC14nAttr(s: string) {
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/"/g, "&quot;")
+    .replace(/\t/g, "&#x9;")
+    .replace(/\n/g, "&#xA;")
+    .replace(/\r/g, "&#xD;");
+}
+
+/**
+ * Canonical XML 1.0 serialisation of an element subtree.
+ * `scope` is the full in-scope namespace map at this element;
+ * `rendered` is what the nearest output ancestor already declared.
+ */
+function c14nElement(
+  el: XmlElement,
+  scope: Record<string, string>,
+  rendered: Record<string, string>
+): string {
+  const nsOut: Array<[string, string]> = [];
+  for (const prefix of Object.keys(scope)) {
+    const uri = scope[prefix];
+    if (prefix === "" && uri === "" && !rendered[""]) continue; // xmlns="" only when undeclaring
+    if (rendered[prefix] === uri) continue;
+    nsOut.push([prefix, uri]);
+  }
+  nsOut.sort((a, b) => (a[0] < b[0] ? -1 : a[0] > b[0] ? 1 : 0));
+
+  const plainAttrs = el.attrs
+    .filter((a) => a.name !== "xmlns" && !a.name.startsWith("xmlns:"))
+    .map((a) => {
+      const idx = a.name.indexOf(":");
+      const prefix = idx === -1 ? "" : a.name.slice(0, idx);
+      // unprefixed attributes have no namespace (they do NOT take the default)
+      const uri = idx === -1 ? "" : a.name.startsWith("xml:") ? "http://www.w3.org/XML/1998/namespace" : scope[prefix] ?? "";
+      return { ...a, uri, local: localName(a.name) };
+    })
+    .sort((a, b) => {
+      if (a.uri !== b.uri) return a.uri < b.uri ? -1 : 1;
+      return a.local < b.local ? -1 : a.local > b.local ? 1 : 0;
+    });
+
+  let out = `<${el.name}`;
+  for (const [prefix, uri] of nsOut) {
+    out += prefix ? ` xmlns:${prefix}="${escapeC14nAttr(uri)}"` : ` xmlns="${escapeC14nAttr(uri)}"`;
+  }
+  for (const a of plainAttrs) out += ` ${a.name}="${escapeC14nAttr(a.value)}"`;
+  out += ">";
+
+  const nextRendered = { ...rendered };
+  for (const [prefix, uri] of nsOut) nextRendered[prefix] = uri;
+
+  for (const child of el.children) {
+    if (child.type === "text") out += escapeC14nText(child.value);
+    else if (child.type === "pi") out += `<?${child.target}${child.data ? ` ${child.data}` : ""}?>`;
+    else out += c14nElement(child, { ...scope, ...nsDeclsOf(child) }, nextRendered);
+  }
+
+  return out + `</${el.name}>`;
+}
+
+function removeElements(el: XmlElement, name: string) {
+  el.children = el.children.filter((c) => !(c.type === "element" && localName(c.name) === name));
+  for (const c of el.children) if (c.type === "element") removeElements(c, name);
+}
+
+/**
+ * Canonical form of the GovTalk <Body> with the IRmark element removed.
+ * This is the exact byte sequence HMRC hashes.
+ */
+export function canonicaliseBodyForIrmark(xml: string): string {
+  const doc = parseXml(xml);
+  const found = findWithScope(doc, "Body", {});
+  if (!found) throw new Error("IRmark: GovTalk <Body> element not found");
+
+  removeElements(found.el, "IRmark");
+  return c14nElement(found.el, found.scope, {});
+}
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+/** RFC 4648 base32 (no padding needed for a 20-byte SHA-1 digest) */
+function base32Encode(buf: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let out = "";
+  for (const byte of buf) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      out += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) out += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return out;
+}
+
+export type IrmarkResult = {
+  /** base64 SHA-1 — goes into <IRmark Type="generic"> */
+  irmark: string;
+  /** base32 SHA-1 — the form shown on HMRC receipts */
+  receipt: string;
+};
+
+/** Computes the IRmark of a complete GovTalk message */
+export function computeIrmark(xml: string): IrmarkResult {
+  const canonical = canonicaliseBodyForIrmark(xml);
+  const digest = crypto.createHash("sha1").update(canonical, "utf8").digest();
+  return {
+    irmark: digest.toString("base64"),
+    receipt: base32Encode(digest),
+  };
+}
+
+/**
+ * Computes the IRmark and writes it into the message's <IRmark> element.
+ * The element must already exist (its current content is ignored by the hash).
+ */
+export function applyIrmark(xml: string): IrmarkResult & { xml: string } {
+  const result = computeIrmark(xml);
+
+  const re = /(<IRmark\b[^>]*>)[^<]*(<\/IRmark>)|<IRmark\b([^>]*)\/>/;
+  if (!re.test(xml)) throw new Error("IRmark: <IRmark> element not found in message");
+
+  const out = xml.replace(re, (_m, open?: string, close?: string, selfAttrs?: string) =>
+    open ? `${open}${result.irmark}${close}` : `<IRmark${selfAttrs ?? ""}>${result.irmark}</IRmark>`
+  );
+
+  return { ...result, xml: out };
+}
@@ -0,0 +1,62 @@
+// api/_utils/otherIncome.ts
+
+/**
+ * Other income a charity received with tax already deducted (e.g. interest
+ * paid net), reclaimed alongside Gift Aid as <OtherInc> rows inside
+ * <Repayment>. Stored in claim_other_income:
+ * { claim_id, payer_name, income_date, gross_amount, tax_deducted }.
+ *
+ * Shared by the other-income routes, its CSV import and the XML generator.
+ */
+
+/** R68 <Payer> max length */
+export const OTHER_INCOME_PAYER_MAX = 40;
+
+export type OtherIncomeFields = {
+  payer_name: string;
+  income_date: string;
+  gross_amount: number;
+  tax_deducted: number;
+};
+
+function norm(v: any): string {
+  return String(v ?? "").trim();
+}
+
+/**
+ * Builds claim_other_income columns from loose input
+ * ({ payerName, incomeDate, grossAmount, taxDeducted }).
+ * Returns { error } with a user-facing message when the row is invalid.
+ */
+export function buildOtherIncomeFields(input: {
+  payerName?: any;
+  incomeDate?: any;
+  grossAmount?: any;
+  taxDeducted?: any;
+}): { fields: OtherIncomeFields; error: null } | { fields: null; error: string } {
+  const payer_name = norm(input.payerName);
+  const income_date = norm(input.incomeDate);
+  const gross_amount = Number(input.grossAmount);
+  const tax_deducted = Number(input.taxDeducted);
+
+  const fail = (error: string) => ({ fields: null, error });
+
+  if (!payer_name) return fail("Payer is required");
+  if (payer_name.length > OTHER_INCOME_PAYER_MAX) {
+    return fail(`Payer must be ${OTHER_INCOME_PAYER_MAX} characters or fewer`);
+  }
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(income_date)) return fail("Date must be YYYY-MM-DD");
+  if (!Number.isFinite(gross_amount) || gross_amount <= 0) return fail("Gross amount must be a positive number");
+  if (!Number.isFinite(tax_deducted) || tax_deducted <= 0) return fail("Tax deducted must be a positive number");
+  if (tax_deducted > gross_amount) return fail("Tax deducted cannot be more than the gross amount");
+
+  return {
+    fields: {
+      payer_name,
+      income_date,
+      gross_amount: Math.round(gross_amount * 100) / 100,
+      tax_deducted: Math.round(tax_deducted * 100) / 100,
+    },
+    error: null,
+  };
+}
@@ -0,0 +1,116 @@
+// api/_utils/submissionAttempts.ts
+import { supabaseAdmin } from "./supabase.js";
+import { redactOrNull } from "./hmrcRedact.js";
+
+/**
+ * History of every message sent to the gateway for a claim.
+ *
+ * claims.hmrc_last_message only holds the latest state; each submit, poll
+ * and delete_request also leaves one claim_submission_attempts row, so an
+ * earlier acknowledgement is never lost to a later failure:
+ *
+ *   { claim_id, kind, actor_user_id, actor_email, endpoint, http_status,
+ *     qualifier, correlation_id, request_body, response_body, error, created_at }
+ *
+ * Bodies and error text are stored redacted (hmrcRedact.ts). actor_* is
+ * null for messages sent by the scheduled poller.
+ */
+
+export const ATTEMPT_KINDS = ["submit", "poll", "delete"] as const;
+export type AttemptKind = (typeof ATTEMPT_KINDS)[number];
+
+export const ATTEMPT_COLS =
+  "id, claim_id, kind, actor_user_id, actor_email, endpoint, http_status, qualifier, correlation_id, request_body, response_body, error, created_at";
+
+/** Who triggered a message: a signed-in user, or null for the scheduler */
+export type AttemptActor = { userId: string; email?: string | null } | null;
+
+export type SubmissionAttempt = {
+  id: string;
+  claim_id: string;
+  kind: AttemptKind;
+  actor_user_id: string | null;
+  actor_email: string | null;
+  endpoint: string;
+  http_status: number | null;
+  qualifier: string | null;
+  correlation_id: string | null;
+  request_body: string | null;
+  response_body: string | null;
+  /** transport failure (timeout, DNS, ...) when no HTTP reply came back */
+  error: string | null;
+  created_at: string;
+};
+
+/**
+ * Records one outbound message. Never throws: a missing history row must not
+ * lose HMRC's answer for the claim itself. A failed insert is logged instead.
+ */
+export async function recordSubmissionAttempt(a: {
+  claimId: string;
+  kind: AttemptKind;
+  actor?: AttemptActor;
+  endpoint: string;
+  httpStatus?: number | null;
+  qualifier?: string | null;
+  correlationId?: string | null;
+  requestBody?: string | null;
+  responseBody?: string | null;
+  error?: string | null;
+  at?: Date;
+  /** credentials used for this message, masked wherever they appear */
+  secrets?: Array<string | null | undefined>;
+}): Promise<void> {
+  const secrets = a.secrets ?? [];
+
+  let failure: string | null = null;
+  try {
+    const { error } = await supabaseAdmin.from("claim_submission_attempts").insert({
+      claim_id: a.claimId,
+      kind: a.kind,
+      actor_user_id: a.actor?.userId ?? null,
+      actor_email: a.actor?.email ?? null,
+      endpoint: a.endpoint,
+      http_status: a.httpStatus || null,
+      qualifier: a.qualifier ?? null,
+      correlation_id: a.correlationId || null,
+      request_body: redactOrNull(a.requestBody, secrets),
+      response_body: redactOrNull(a.responseBody, secrets),
+      error: redactOrNull(a.error, secrets),
+      created_at: (a.at ?? new Date()).toISOString(),
+    });
+    if (error) failure = error.message;
+  } catch (e: any) {
+    failure = e?.message ?? String(e);
+  }
+
+  // history is best effort, but a gap in it must be visible
+  if (failure) console.error(`recordSubmissionAttempt: ${a.kind} attempt for claim ${a.claimId} not recorded: ${failure}`);
+}
+
+/** Attempts for one claim, oldest first */
+export async function listSubmissionAttempts(claimId: string): Promise<SubmissionAttempt[]> {
+  const { data, error } = await supabaseAdmin
+    .from("claim_submission_attempts")
+    .select(ATTEMPT_COLS)
+    .eq("claim_id", claimId)
+    .order("created_at", { ascending: true });
+
+  if (error) throw new Error(error.message);
+  return (data ?? []) as SubmissionAttempt[];
+}
+
+/** Most recent submit message for a claim (null if it was never sent) */
+export async function latestSubmitAttempt(claimId: string): Promise<SubmissionAttempt | null> {
+  const { data, error } = await supabaseAdmin
+    .from("claim_submission_attempts")
+    .select(ATTEMPT_COLS)
+    .eq("claim_id", claimId)
+    .eq("kind", "submit")
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  return (data as SubmissionAttempt | null) ?? null;
+}
@@ -0,0 +1,136 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { supabaseAdmin } from "../../_utils/supabase.js";
+import { requireOperator } from "../../_utils/requireOperator.js";
+import { ADJUSTMENT_COLS, ADJUSTMENT_REASON_MAX } from "../../_utils/adjustments.js";
+
+function send(res: VercelResponse, status: number, body: any) {
+  return res.status(status).json(body);
+}
+
+function parseBody(req: VercelRequest) {
+  const b: any = (req as any).body;
+  if (!b) return {};
+  if (typeof b === "object") return b;
+  if (typeof b === "string") {
+    try {
+      return JSON.parse(b);
+    } catch {
+      return {};
+    }
+  }
+  return {};
+}
+
+/**
+ * Ledger of previous overclaims to pay back through <Adjustment> (see adjustments.ts).
+ *
+ * GET    ?charityId=...                                      -> { adjustments }
+ * POST   { charityId, id?, amount, reason, sourceClaimId? }   -> add / update an open one
+ * DELETE ?id=...                                             -> remove an open one
+ *
+ * Once a claim has taken an adjustment (marked ready with it in its snapshot,
+ * or sent it) the row can no longer be changed; reopening the claim releases it.
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  try {
+    await requireOperator(req);
+
+    if (req.method === "GET") {
+      const charityId = String(req.query.charityId ?? "").trim();
+      if (!charityId) return send(res, 400, { ok: false, error: "charityId is required" });
+
+      const { data, error } = await supabaseAdmin
+        .from("charity_adjustments")
+        .select(ADJUSTMENT_COLS)
+        .eq("charity_id", charityId)
+        .order("created_at", { ascending: false });
+
+      if (error) return send(res, 500, { ok: false, error: error.message });
+      return send(res, 200, { ok: true, adjustments: data ?? [] });
+    }
+
+    if (req.method === "POST") {
+      const body = parseBody(req);
+      const charityId = String(body.charityId ?? "").trim();
+      const id = String(body.id ?? "").trim();
+      const amount = Number(body.amount);
+      const reason = String(body.reason ?? "").trim();
+      const sourceClaimId = String(body.sourceClaimId ?? "").trim() || null;
+
+      if (!charityId) return send(res, 400, { ok: false, error: "charityId is required" });
+      if (!Number.isFinite(amount) || amount <= 0) {
+        return send(res, 400, { ok: false, error: "Amount must be a positive number" });
+      }
+      if (!reason) return send(res, 400, { ok: false, error: "Reason is required" });
+      if (reason.length > ADJUSTMENT_REASON_MAX) {
+        return send(res, 400, { ok: false, error: `Reason must be ${ADJUSTMENT_REASON_MAX} characters or fewer` });
+      }
+
+      if (sourceClaimId) {
+        const { data: source, error: srcErr } = await supabaseAdmin
+          .from("claims")
+          .select("id, charity_id")
+          .eq("id", sourceClaimId)
+          .maybeSingle();
+
+        if (srcErr) return send(res, 500, { ok: false, error: srcErr.message });
+        if (!source || source.charity_id !== charityId) {
+          return send(res, 400, { ok: false, error: "Source claim does not belong to this charity" });
+        }
+      }
+
+      const row = {
+        charity_id: charityId,
+        amount: Math.round(amount * 100) / 100,
+        reason,
+        source_claim_id: sourceClaimId,
+      };
+
+      if (id) {
+        const { data, error } = await supabaseAdmin
+          .from("charity_adjustments")
+          .update(row)
+          .eq("id", id)
+          .eq("charity_id", charityId)
+          .is("claim_id", null)
+          .is("consumed_at", null)
+          .select(ADJUSTMENT_COLS)
+          .maybeSingle();
+
+        if (error) return send(res, 500, { ok: false, error: error.message });
+        if (!data) return send(res, 409, { ok: false, error: "Adjustment not found or already taken by a ready or sent claim" });
+        return send(res, 200, { ok: true, adjustment: data });
+      }
+
+      const { data, error } = await supabaseAdmin
+        .from("charity_adjustments")
+        .insert(row)
+        .select(ADJUSTMENT_COLS)
+        .single();
+
+      if (error) return send(res, 500, { ok: false, error: error.message });
+      return send(res, 200, { ok: true, adjustment: data });
+    }
+
+    if (req.method === "DELETE") {
+      const id = String(req.query.id ?? "").trim();
+      if (!id) return send(res, 400, { ok: false, error: "id is required" });
+
+      const { data, error } = await supabaseAdmin
+        .from("charity_adjustments")
+        .delete()
+        .eq("id", id)
+        .is("claim_id", null)
+        .is("consumed_at", null)
+        .select("id");
+
+      if (error) return send(res, 500, { ok: false, error: error.message });
+      if (!data?.length) return send(res, 409, { ok: false, error: "Adjustment not found or already taken by a ready or sent claim" });
+      return send(res, 200, { ok: true });
+    }
+
+    return send(res, 405, { ok: false, error: "Method not allowed" });
+  } catch (e: any) {
+    return send(res, 500, { ok: false, error: e?.message ?? "Server error" });
+  }
+}
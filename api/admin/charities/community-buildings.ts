@@ -0,0 +1,106 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { supabaseAdmin } from "../../_utils/supabase.js";
+import { requireOperator } from "../../_utils/requireOperator.js";
+
+function send(res: VercelResponse, status: number, body: any) {
+  return res.status(status).json(body);
+}
+
+function parseBody(req: VercelRequest) {
+  const b: any = (req as any).body;
+  if (!b) return {};
+  if (typeof b === "object") return b;
+  if (typeof b === "string") {
+    try {
+      return JSON.parse(b);
+    } catch {
+      return {};
+    }
+  }
+  return {};
+}
+
+/** R68 <BldgName> / <Address> max length */
+const BUILDING_FIELD_MAX = 40;
+
+/**
+ * Register of community buildings a charity collects GASDS donations in.
+ *
+ * GET    ?charityId=...                                -> { buildings }
+ * POST   { charityId, id?, name, address, postcode }    -> add / update one
+ * DELETE ?id=...                                        -> remove (refused while claims use it)
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  try {
+    await requireOperator(req);
+
+    if (req.method === "GET") {
+      const charityId = String(req.query.charityId ?? "").trim();
+      if (!charityId) return send(res, 400, { ok: false, error: "charityId is required" });
+
+      const { data, error } = await supabaseAdmin
+        .from("charity_community_buildings")
+        .select("id, name, address, postcode, created_at")
+        .eq("charity_id", charityId)
+        .order("name", { ascending: true });
+
+      if (error) return send(res, 500, { ok: false, error: error.message });
+      return send(res, 200, { ok: true, buildings: data ?? [] });
+    }
+
+    if (req.method === "POST") {
+      const body = parseBody(req);
+      const charityId = String(body.charityId ?? "").trim();
+      const id = String(body.id ?? "").trim();
+      const name = String(body.name ?? "").trim();
+      const address = String(body.address ?? "").trim();
+      const postcode = String(body.postcode ?? "").trim().toUpperCase();
+
+      if (!charityId) return send(res, 400, { ok: false, error: "charityId is required" });
+      if (!name) return send(res, 400, { ok: false, error: "Building name is required" });
+      if (!address) return send(res, 400, { ok: false, error: "Address is required" });
+      if (!postcode) return send(res, 400, { ok: false, error: "Postcode is required" });
+      if (name.length > BUILDING_FIELD_MAX || address.length > BUILDING_FIELD_MAX) {
+        return send(res, 400, { ok: false, error: `Name and address must be ${BUILDING_FIELD_MAX} characters or fewer` });
+      }
+
+      const row = { charity_id: charityId, name, address, postcode };
+
+      const { data, error } = id
+        ? await supabaseAdmin
+            .from("charity_community_buildings")
+            .update(row)
+            .eq("id", id)
+            .eq("charity_id", charityId)
+            .select("id, name, address, postcode")
+            .single()
+        : await supabaseAdmin.from("charity_community_buildings").insert(row).select("id, name, address, postcode").single();
+
+      if (error) return send(res, 500, { ok: false, error: error.message });
+      return send(res, 200, { ok: true, building: data });
+    }
+
+    if (req.method === "DELETE") {
+      const id = String(req.query.id ?? "").trim();
+      if (!id) return send(res, 400, { ok: false, error: "id is required" });
+
+      const { count, error: useErr } = await supabaseAdmin
+        .from("claim_gasds")
+        .select("id", { count: "exact", head: true })
+        .eq("building_id", id);
+
+      if (useErr) return send(res, 500, { ok: false, error: useErr.message });
+      if (count) {
+        return send(res, 409, { ok: false, error: `Building is used by ${count} GASDS claim row(s); remove those first` });
+      }
+
+      const { error } = await supabaseAdmin.from("charity_community_buildings").delete().eq("id", id);
+      if (error) return send(res, 500, { ok: false, error: error.message });
+      return send(res, 200, { ok: true });
+    }
+
+    return send(res, 405, { ok: false, error: "Method not allowed" });
+  } catch (e: any) {
+    return send(res, 500, { ok: false, error: e?.message ?? "Server error" });
+  }
+}
@@ -0,0 +1,104 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { supabaseAdmin } from "../../_utils/supabase.js";
+import { requireOperator } from "../../_utils/requireOperator.js";
+
+function send(res: VercelResponse, status: number, body: any) {
+  return res.status(status).json(body);
+}
+
+function parseBody(req: VercelRequest) {
+  const b: any = (req as any).body;
+  if (!b) return {};
+  if (typeof b === "object") return b;
+  if (typeof b === "string") {
+    try {
+      return JSON.parse(b);
+    } catch {
+      return {};
+    }
+  }
+  return {};
+}
+
+/**
+ * Register of charities connected to this one for GASDS. Any entry sets
+ * <ConnectedCharities>yes</ConnectedCharities>; when the connected charity is
+ * also one of ours (linkedCharityId) its GASDS counts against the shared cap.
+ *
+ * GET    ?charityId=...                                               -> { connected }
+ * POST   { charityId, id?, name, charityNumber?, linkedCharityId? }   -> add / update one
+ * DELETE ?id=...                                                      -> remove
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  try {
+    await requireOperator(req);
+
+    if (req.method === "GET") {
+      const charityId = String(req.query.charityId ?? "").trim();
+      if (!charityId) return send(res, 400, { ok: false, error: "charityId is required" });
+
+      const { data, error } = await supabaseAdmin
+        .from("charity_connected_charities")
+        .select("id, name, charity_number, linked_charity_id, created_at")
+        .eq("charity_id", charityId)
+        .order("name", { ascending: true });
+
+      if (error) return send(res, 500, { ok: false, error: error.message });
+      return send(res, 200, { ok: true, connected: data ?? [] });
+    }
+
+    if (req.method === "POST") {
+      const body = parseBody(req);
+      const charityId = String(body.charityId ?? "").trim();
+      const id = String(body.id ?? "").trim();
+      const name = String(body.name ?? "").trim();
+      const charityNumber = String(body.charityNumber ?? "").trim() || null;
+      const linkedCharityId = String(body.linkedCharityId ?? "").trim() || null;
+
+      if (!charityId) return send(res, 400, { ok: false, error: "charityId is required" });
+      if (!name) return send(res, 400, { ok: false, error: "Name is required" });
+      if (linkedCharityId === charityId) {
+        return send(res, 400, { ok: false, error: "A charity cannot be connected to itself" });
+      }
+
+      if (linkedCharityId) {
+        const { data: linked, error: linkErr } = await supabaseAdmin
+          .from("charities")
+          .select("id")
+          .eq("id", linkedCharityId)
+          .maybeSingle();
+        if (linkErr) return send(res, 500, { ok: false, error: linkErr.message });
+        if (!linked) return send(res, 400, { ok: false, error: "Linked charity not found" });
+      }
+
+      const row = { charity_id: charityId, name, charity_number: charityNumber, linked_charity_id: linkedCharityId };
+      const cols = "id, name, charity_number, linked_charity_id";
+
+      const { data, error } = id
+        ? await supabaseAdmin
+            .from("charity_connected_charities")
+            .update(row)
+            .eq("id", id)
+            .eq("charity_id", charityId)
+            .select(cols)
+            .single()
+        : await supabaseAdmin.from("charity_connected_charities").insert(row).select(cols).single();
+
+      if (error) return send(res, 500, { ok: false, error: error.message });
+      return send(res, 200, { ok: true, connected: data });
+    }
+
+    if (req.method === "DELETE") {
+      const id = String(req.query.id ?? "").trim();
+      if (!id) return send(res, 400, { ok: false, error: "id is required" });
+
+      const { error } = await supabaseAdmin.from("charity_connected_charities").delete().eq("id", id);
+      if (error) return send(res, 500, { ok: false, error: error.message });
+      return send(res, 200, { ok: true });
+    }
+
+    return send(res, 405, { ok: false, error: "Method not allowed" });
+  } catch (e: any) {
+    return send(res, 500, { ok: false, error: e?.message ?? "Server error" });
+  }
+}
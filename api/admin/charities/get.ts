@@ -1,6 +1,7 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node";
 import { supabaseAdmin } from "../../_utils/supabase.js";
 import { requireOperator } from "../../_utils/requireOperator.js";
+import { CHARITY_PROFILE_COLS } from "../../_utils/charityProfile.js";
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   try {
@@ -13,7 +14,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
     const { data: charity, error } = await supabaseAdmin
       .from("charities")
-      .select("id, name, contact_email, charity_number, self_submit_enabled")
+      .select(`id, name, contact_email, charity_number, self_submit_enabled, hmrc_mode, hmrc_connection_id, ${CHARITY_PROFILE_COLS}`)
       .eq("id", charityId)
       .single();
 
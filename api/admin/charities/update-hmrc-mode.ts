@@ -0,0 +1,60 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { supabaseAdmin } from "../../_utils/supabase.js";
+import { requireOperator } from "../../_utils/requireOperator.js";
+
+function send(res: VercelResponse, status: number, body: any) {
+  return res.status(status).json(body);
+}
+
+function parseBody(req: VercelRequest) {
+  const b: any = (req as any).body;
+  if (!b) return {};
+  if (typeof b === "object") return b;
+  if (typeof b === "string") {
+    try {
+      return JSON.parse(b);
+    } catch {
+      return {};
+    }
+  }
+  return {};
+}
+
+const HMRC_MODES = ["charity", "agent"] as const;
+
+/**
+ * Chooses whose gateway credentials a charity's claims go out under:
+ * - "charity": the charity's own login (hmrc_connections for that charity)
+ * - "agent": the operator-wide agent login (<Sender>Agent</Sender> + <AgtOrNom>)
+ *
+ * Claims already submitted keep polling under the role they were sent with.
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  try {
+    if (req.method !== "POST") return send(res, 405, { ok: false, error: "Method not allowed" });
+
+    await requireOperator(req);
+
+    const body = parseBody(req);
+    const charityId = String(body.charityId ?? "").trim();
+    const hmrcMode = String(body.hmrcMode ?? "").trim().toLowerCase();
+
+    if (!charityId) return send(res, 400, { ok: false, error: "charityId is required" });
+    if (!(HMRC_MODES as readonly string[]).includes(hmrcMode)) {
+      return send(res, 400, { ok: false, error: `hmrcMode must be one of: ${HMRC_MODES.join(", ")}` });
+    }
+
+    const { data: updated, error } = await supabaseAdmin
+      .from("charities")
+      .update({ hmrc_mode: hmrcMode })
+      .eq("id", charityId)
+      .select("id, name, contact_email, charity_number, self_submit_enabled, hmrc_mode, hmrc_connection_id")
+      .single();
+
+    if (error) return send(res, 500, { ok: false, error: error.message });
+
+    return send(res, 200, { ok: true, charity: updated });
+  } catch (e: any) {
+    return send(res, 403, { ok: false, error: e?.message ?? "Forbidden" });
+  }
+}
@@ -0,0 +1,56 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { supabaseAdmin } from "../../_utils/supabase.js";
+import { requireOperator } from "../../_utils/requireOperator.js";
+import { buildCharityProfileFields, CHARITY_PROFILE_COLS } from "../../_utils/charityProfile.js";
+
+function send(res: VercelResponse, status: number, body: any) {
+  return res.status(status).json(body);
+}
+
+function parseBody(req: VercelRequest) {
+  const b: any = (req as any).body;
+  if (!b) return {};
+  if (typeof b === "object") return b;
+  if (typeof b === "string") {
+    try {
+      return JSON.parse(b);
+    } catch {
+      return {};
+    }
+  }
+  return {};
+}
+
+/**
+ * Authorised official + regulator declared on the charity's claims (see charityProfile.ts).
+ *
+ * POST { charityId, officialTitle?, officialFore, officialSur, officialPostcode, officialPhone,
+ *        regulator: "CCEW" | "OSCR" | "CCNI" | "none", regulatorNumber? }
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  try {
+    if (req.method !== "POST") return send(res, 405, { ok: false, error: "Method not allowed" });
+
+    await requireOperator(req);
+
+    const body = parseBody(req);
+    const charityId = String(body.charityId ?? "").trim();
+    if (!charityId) return send(res, 400, { ok: false, error: "charityId is required" });
+
+    const { fields, error: fieldsErr } = buildCharityProfileFields(body);
+    if (!fields) return send(res, 400, { ok: false, error: fieldsErr });
+
+    const { data: updated, error } = await supabaseAdmin
+      .from("charities")
+      .update(fields)
+      .eq("id", charityId)
+      .select(`id, name, contact_email, charity_number, self_submit_enabled, hmrc_mode, hmrc_connection_id, ${CHARITY_PROFILE_COLS}`)
+      .single();
+
+    if (error) return send(res, 500, { ok: false, error: error.message });
+
+    return send(res, 200, { ok: true, charity: updated });
+  } catch (e: any) {
+    return send(res, 403, { ok: false, error: e?.message ?? "Forbidden" });
+  }
+}
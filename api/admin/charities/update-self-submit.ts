@@ -0,0 +1,59 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { supabaseAdmin } from "../../_utils/supabase.js";
+import { requireOperator } from "../../_utils/requireOperator.js";
+
+function send(res: VercelResponse, status: number, body: any) {
+  return res.status(status).json(body);
+}
+
+function parseBody(req: VercelRequest) {
+  const b: any = (req as any).body;
+  if (!b) return {};
+  if (typeof b === "object") return b;
+  if (typeof b === "string") {
+    try {
+      return JSON.parse(b);
+    } catch {
+      return {};
+    }
+  }
+  return {};
+}
+
+/**
+ * Lets a charity's own users send its claims to HMRC (api/hmrc/submit-claim.ts).
+ * Off for new charities (charity/setup.ts); operators can always submit.
+ *
+ * POST { charityId, enabled } -> { charity }
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== "POST") return send(res, 405, { ok: false, error: "Method not allowed" });
+
+  try {
+    await requireOperator(req);
+  } catch (e: any) {
+    return send(res, 403, { ok: false, error: e?.message ?? "Forbidden" });
+  }
+
+  try {
+    const body = parseBody(req);
+    const charityId = String(body.charityId ?? "").trim();
+
+    if (!charityId) return send(res, 400, { ok: false, error: "charityId is required" });
+    if (typeof body.enabled !== "boolean") return send(res, 400, { ok: false, error: "enabled must be true or false" });
+
+    const { data: updated, error } = await supabaseAdmin
+      .from("charities")
+      .update({ self_submit_enabled: body.enabled })
+      .eq("id", charityId)
+      .select("id, name, contact_email, charity_number, self_submit_enabled, hmrc_mode, hmrc_connection_id")
+      .maybeSingle();
+
+    if (error) return send(res, 500, { ok: false, error: error.message });
+    if (!updated) return send(res, 404, { ok: false, error: "Charity not found" });
+
+    return send(res, 200, { ok: true, charity: updated });
+  } catch (e: any) {
+    return send(res, 500, { ok: false, error: e?.message ?? "Server error" });
+  }
+}
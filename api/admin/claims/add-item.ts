@@ -1,6 +1,8 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node";
 import { supabaseAdmin } from "../../_utils/supabase.js";
 import { requireOperator } from "../../_utils/requireOperator.js";
+import { claimEditError, confirmClaimEdit } from "../../_utils/claimLifecycle.js";
+import { buildClaimItemFields, donorNameFor } from "../../_utils/claimItems.js";
 
 function send(res: VercelResponse, status: number, body: any) {
   return res.status(status).json(body);
@@ -35,33 +37,21 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     const body = parseBody(req);
 
     const claimId = norm(body.claimId);
-    const title = norm(body.title) || null;
-
-    const firstName = norm(body.firstName);
-    const lastName = norm(body.lastName);
-    const address = norm(body.address);
-    const postcode = norm(body.postcode);
+    if (!claimId) return send(res, 400, { ok: false, error: "claimId is required" });
 
-    const donationDate = norm(body.donationDate);
-    const donationAmount = Number(body.donationAmount);
+    const editErr = await claimEditError(claimId);
+    if (editErr) return send(res, 400, { ok: false, error: editErr });
 
-    if (!claimId) return send(res, 400, { ok: false, error: "claimId is required" });
-    if (!firstName) return send(res, 400, { ok: false, error: "First Name is required" });
-    if (!lastName) return send(res, 400, { ok: false, error: "Last Name is required" });
-    if (!address) return send(res, 400, { ok: false, error: "Address is required" });
-    if (!postcode) return send(res, 400, { ok: false, error: "Postcode is required" });
-    if (!donationDate) return send(res, 400, { ok: false, error: "Donation Date is required" });
-
-    if (!Number.isFinite(donationAmount) || donationAmount <= 0) {
-      return send(res, 400, { ok: false, error: "Donation Amount must be a positive number" });
-    }
+    // "donor" (default) or "aggregated" — rules live in claimItems.ts
+    const { fields, error: fieldsErr, changes } = buildClaimItemFields(body);
+    if (!fields) return send(res, 400, { ok: false, error: fieldsErr });
 
     // ✅ IMPORTANT: satisfy DB NOT NULL constraint
-    const donor_name = [title || "", firstName, lastName].filter(Boolean).join(" ").trim();
+    const donor_name = donorNameFor(fields);
 
     // Insert includes BOTH:
     // - legacy donor_name (required in your DB right now)
-    // - structured donor_* fields used by your UI
+    // - structured fields used by your UI / XML
     const { data, error } = await supabaseAdmin
       .from("claim_items")
       .insert({
@@ -69,14 +59,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
         donor_name, // ✅ fixes your error
 
-        donor_title: title,
-        donor_first_name: firstName,
-        donor_last_name: lastName,
-        donor_address: address,
-        donor_postcode: postcode,
-
-        donation_date: donationDate,
-        donation_amount: donationAmount,
+        ...fields,
       })
       .select("id")
       .single();
@@ -85,7 +68,14 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       return send(res, 500, { ok: false, error: error.message });
     }
 
-    return send(res, 200, { ok: true, id: data?.id });
+    const lateErr = await confirmClaimEdit(claimId, async () => {
+      const { error: undoErr } = await supabaseAdmin.from("claim_items").delete().eq("id", data.id);
+      if (undoErr) throw new Error(undoErr.message);
+    });
+    if (lateErr) return send(res, 409, { ok: false, error: lateErr });
+
+    // changes: what was adjusted to fit HMRC's format (hmrcNormalize.ts)
+    return send(res, 200, { ok: true, id: data?.id, changes });
   } catch (e: any) {
     return send(res, 500, { ok: false, error: e?.message ?? "Server error" });
   }
@@ -0,0 +1,141 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { supabaseAdmin } from "../../_utils/supabase.js";
+import { requireOperator } from "../../_utils/requireOperator.js";
+import { actionBlock, confirmClaimEdit } from "../../_utils/claimLifecycle.js";
+import { donorNameFor, planSmallDonationAggregation, type SmallDonation } from "../../_utils/claimItems.js";
+
+function json(res: VercelResponse, status: number, payload: any) {
+  return res.status(status).setHeader("Content-Type", "application/json").send(JSON.stringify(payload));
+}
+
+function parseBody(req: VercelRequest): any {
+  const b: any = (req as any).body;
+  if (!b) return {};
+  if (typeof b === "object") return b;
+  if (typeof b === "string") {
+    try { return JSON.parse(b); } catch { return {}; }
+  }
+  return {};
+}
+
+/**
+ * POST { claimId, includeNamed?, dryRun? }
+ *
+ * Replaces small (£20 or less) donor rows on a draft claim with aggregated
+ * <AggDonation> rows of up to £1,000 each. By default only anonymous rows
+ * (no full name/address) are swept up; includeNamed also takes named ones.
+ * dryRun returns the plan without changing anything.
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  try {
+    if (req.method !== "POST") return json(res, 405, { ok: false, error: "Method not allowed" });
+
+    await requireOperator(req);
+
+    const body = parseBody(req);
+    const claimId = String(body.claimId || "");
+    const includeNamed = body.includeNamed === true;
+    const dryRun = body.dryRun === true;
+
+    if (!claimId) return json(res, 400, { ok: false, error: "claimId is required" });
+
+    const { data: claim, error: claimErr } = await supabaseAdmin
+      .from("claims")
+      .select("id, status")
+      .eq("id", claimId)
+      .single();
+
+    if (claimErr) return json(res, 500, { ok: false, error: claimErr.message });
+    if (!claim) return json(res, 404, { ok: false, error: "Claim not found" });
+    if (actionBlock(claim, "edit")) return json(res, 400, { ok: false, error: "Can only aggregate items on a draft claim" });
+
+    const { data: items, error: itemsErr } = await supabaseAdmin
+      .from("claim_items")
+      .select(
+        "id, item_type, sponsored, donor_first_name, donor_last_name, donor_address, donor_postcode, donor_overseas, donation_date, donation_amount"
+      )
+      .eq("claim_id", claimId);
+
+    if (itemsErr) return json(res, 500, { ok: false, error: itemsErr.message });
+
+    const groups = planSmallDonationAggregation((items ?? []) as SmallDonation[], { includeNamed });
+    const replaced = groups.reduce((n, g) => n + g.itemIds.length, 0);
+
+    const summary = groups.map((g) => ({
+      donationDate: g.donation_date,
+      donationAmount: g.donation_amount,
+      description: g.agg_description,
+      itemCount: g.itemIds.length,
+    }));
+
+    if (dryRun || groups.length === 0) {
+      return json(res, 200, { ok: true, dryRun, replaced, created: 0, groups: summary });
+    }
+
+    // 1) Insert the aggregated rows
+    const inserts = groups.map((g) => {
+      const fields = {
+        item_type: "aggregated" as const,
+        donor_title: null,
+        donor_first_name: null,
+        donor_last_name: null,
+        donor_address: null,
+        donor_postcode: null,
+        donor_overseas: false,
+        agg_description: g.agg_description,
+        sponsored: false,
+        donation_date: g.donation_date,
+        donation_amount: g.donation_amount,
+      };
+      return { claim_id: claimId, donor_name: donorNameFor(fields), ...fields };
+    });
+
+    const { data: created, error: insErr } = await supabaseAdmin.from("claim_items").insert(inserts).select("id");
+    if (insErr) return json(res, 500, { ok: false, error: insErr.message });
+
+    // 2) Remove the rows they replace
+    const ids = groups.flatMap((g) => g.itemIds);
+    const CHUNK = 500;
+    const removed: any[] = [];
+
+    for (let i = 0; i < ids.length; i += CHUNK) {
+      const { data: gone, error: delErr } = await supabaseAdmin
+        .from("claim_items")
+        .delete()
+        .in("id", ids.slice(i, i + CHUNK))
+        .select("*");
+      if (!delErr) {
+        removed.push(...(gone ?? []));
+        continue;
+      }
+
+      // Nothing removed yet: undo the insert so no donation is claimed twice
+      if (i === 0) {
+        const createdIds = (created ?? []).map((r: any) => r.id);
+        if (createdIds.length) await supabaseAdmin.from("claim_items").delete().in("id", createdIds);
+        return json(res, 500, { ok: false, error: `Failed to remove aggregated items: ${delErr.message}` });
+      }
+
+      return json(res, 500, {
+        ok: false,
+        error: `Aggregated rows were added but only ${i} of ${ids.length} original items were removed: ${delErr.message}. Run the action again to finish.`,
+      });
+    }
+
+    // 3) Claim marked ready meanwhile: put the original rows back
+    const lateErr = await confirmClaimEdit(claimId, async () => {
+      for (let i = 0; i < removed.length; i += CHUNK) {
+        const { error: undoErr } = await supabaseAdmin.from("claim_items").insert(removed.slice(i, i + CHUNK));
+        if (undoErr) throw new Error(undoErr.message);
+      }
+      const createdIds = (created ?? []).map((r: any) => r.id);
+      const { error: undoErr } = await supabaseAdmin.from("claim_items").delete().in("id", createdIds);
+      if (undoErr) throw new Error(undoErr.message);
+    });
+    if (lateErr) return json(res, 409, { ok: false, error: lateErr });
+
+    return json(res, 200, { ok: true, dryRun: false, replaced, created: created?.length ?? 0, groups: summary });
+  } catch (e: any) {
+    return json(res, 500, { ok: false, error: e?.message ?? "Server error" });
+  }
+}
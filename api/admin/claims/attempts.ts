@@ -0,0 +1,27 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { requireOperator } from "../../_utils/requireOperator.js";
+import { listSubmissionAttempts } from "../../_utils/submissionAttempts.js";
+
+/**
+ * Timeline of messages sent to the gateway for a claim (submit, poll, delete).
+ * GET ?claimId=... -> { attempts } oldest first, bodies already redacted
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== "GET") return res.status(405).json({ ok: false, error: "Method not allowed" });
+
+  try {
+    await requireOperator(req);
+  } catch (e: any) {
+    return res.status(403).json({ ok: false, error: e?.message ?? "Forbidden" });
+  }
+
+  try {
+    const claimId = String(req.query.claimId ?? "").trim();
+    if (!claimId) return res.status(400).json({ ok: false, error: "claimId is required" });
+
+    const attempts = await listSubmissionAttempts(claimId);
+    return res.status(200).json({ ok: true, attempts });
+  } catch (e: any) {
+    return res.status(500).json({ ok: false, error: e?.message ?? "Server error" });
+  }
+}
@@ -1,6 +1,7 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node";
 import { supabaseAdmin } from "../../_utils/supabase.js";
 import { requireOperator } from "../../_utils/requireOperator.js";
+import { confirmClaimEdit, itemClaimEditError } from "../../_utils/claimLifecycle.js";
 
 function json(res: VercelResponse, status: number, payload: any) {
   return res
@@ -34,14 +35,27 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
     if (!itemId) return json(res, 400, { ok: false, error: "itemId is required" });
 
-    // DB trigger will block deletes unless claim is 'draft'
-    const { error } = await supabaseAdmin
+    // Only while the claim is a draft (claimLifecycle.ts)
+    const editErr = await itemClaimEditError(String(itemId));
+    if (editErr) return json(res, 400, { ok: false, error: editErr });
+
+    const { data: removed, error } = await supabaseAdmin
       .from("claim_items")
       .delete()
-      .eq("id", itemId);
+      .eq("id", itemId)
+      .select("*")
+      .maybeSingle();
 
     if (error) return json(res, 500, { ok: false, error: error.message });
 
+    if (removed) {
+      const lateErr = await confirmClaimEdit(String(removed.claim_id), async () => {
+        const { error: undoErr } = await supabaseAdmin.from("claim_items").insert(removed);
+        if (undoErr) throw new Error(undoErr.message);
+      });
+      if (lateErr) return json(res, 409, { ok: false, error: lateErr });
+    }
+
     return json(res, 200, { ok: true });
   } catch (err: any) {
     return json(res, 500, { ok: false, error: err?.message ?? "Server error" });
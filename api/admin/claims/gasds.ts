@@ -0,0 +1,142 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { supabaseAdmin } from "../../_utils/supabase.js";
+import { requireOperator } from "../../_utils/requireOperator.js";
+import { actionBlock, confirmClaimEdit } from "../../_utils/claimLifecycle.js";
+import {
+  checkGasdsRules,
+  gasdsProblems,
+  loadClaimGasds,
+  loadGasdsRegisters,
+  parseGasdsEntries,
+} from "../../_utils/gasds.js";
+
+type ClaimRow = {
+  id: string;
+  charity_id: string;
+  status: string;
+  gasds_adjustment: number | null;
+};
+
+function json(res: VercelResponse, status: number, payload: any) {
+  return res.status(status).setHeader("Content-Type", "application/json").send(JSON.stringify(payload));
+}
+
+function parseBody(req: VercelRequest): any {
+  const b: any = (req as any).body;
+  if (!b) return {};
+  if (typeof b === "object") return b;
+  if (typeof b === "string") {
+    try { return JSON.parse(b); } catch { return {}; }
+  }
+  return {};
+}
+
+/**
+ * GASDS section of a claim.
+ *
+ * GET  ?claimId=...  -> { entries, adjustment, checks, buildings, connected }
+ * POST { claimId, entries: [{ taxYear, amount, buildingId? }], adjustment }
+ *      buildingId = one of the charity's community buildings (else the general allowance).
+ *      Replaces the claim's GASDS rows (draft claims only). Rejected with
+ *      400 + checks when a cap or the matching rule would be broken.
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  try {
+    if (req.method !== "GET" && req.method !== "POST") {
+      return json(res, 405, { ok: false, error: "Method not allowed" });
+    }
+
+    await requireOperator(req);
+
+    const body = req.method === "POST" ? parseBody(req) : {};
+    const claimId = String((req.method === "GET" ? req.query.claimId : body.claimId) || "");
+    if (!claimId) return json(res, 400, { ok: false, error: "claimId is required" });
+
+    const { data, error: claimErr } = await supabaseAdmin
+      .from("claims")
+      .select("id, charity_id, status, gasds_adjustment")
+      .eq("id", claimId)
+      .single();
+
+    if (claimErr) return json(res, 500, { ok: false, error: claimErr.message });
+    if (!data) return json(res, 404, { ok: false, error: "Claim not found" });
+    const claim = data as ClaimRow;
+
+    const { buildings, connected } = await loadGasdsRegisters(claim.charity_id);
+
+    if (req.method === "GET") {
+      const { entries, adjustment } = await loadClaimGasds(claimId);
+      const checks = await checkGasdsRules(claim, entries);
+      return json(res, 200, { ok: true, entries, adjustment, checks, buildings, connected });
+    }
+
+    if (actionBlock(claim, "edit")) return json(res, 400, { ok: false, error: "GASDS can only be changed on a draft claim" });
+
+    const parsed = parseGasdsEntries(body.entries);
+    if (!parsed.entries) return json(res, 400, { ok: false, error: parsed.error });
+
+    if (parsed.entries.some((e) => e.building_id && !buildings.some((b) => b.id === e.building_id))) {
+      return json(res, 400, { ok: false, error: "Unknown community building for this charity" });
+    }
+
+    const adjRaw = body.adjustment;
+    const adjustment = adjRaw === null || adjRaw === undefined || adjRaw === "" ? null : Number(adjRaw);
+    if (adjustment !== null && (!Number.isFinite(adjustment) || adjustment < 0)) {
+      return json(res, 400, { ok: false, error: "GASDS adjustment must be zero or a positive number" });
+    }
+
+    const checks = await checkGasdsRules(claim, parsed.entries);
+    const problems = gasdsProblems(checks);
+    if (problems.length) {
+      return json(res, 400, { ok: false, error: problems.join("; "), checks });
+    }
+
+    // kept to put back if the claim leaves draft meanwhile
+    const { data: previous, error: prevErr } = await supabaseAdmin.from("claim_gasds").select("*").eq("claim_id", claimId);
+    if (prevErr) return json(res, 500, { ok: false, error: prevErr.message });
+
+    // Replace the rows
+    const { error: delErr } = await supabaseAdmin.from("claim_gasds").delete().eq("claim_id", claimId);
+    if (delErr) return json(res, 500, { ok: false, error: delErr.message });
+
+    if (parsed.entries.length) {
+      const { error: insErr } = await supabaseAdmin
+        .from("claim_gasds")
+        .insert(
+          parsed.entries.map((e) => ({
+            claim_id: claimId,
+            tax_year: e.tax_year,
+            amount: e.amount,
+            building_id: e.building_id,
+          }))
+        );
+      if (insErr) return json(res, 500, { ok: false, error: insErr.message });
+    }
+
+    const { error: updErr } = await supabaseAdmin
+      .from("claims")
+      .update({ gasds_adjustment: adjustment ? Math.round(adjustment * 100) / 100 : null })
+      .eq("id", claimId);
+
+    if (updErr) return json(res, 500, { ok: false, error: updErr.message });
+
+    const lateErr = await confirmClaimEdit(claimId, async () => {
+      const { error: undoDelErr } = await supabaseAdmin.from("claim_gasds").delete().eq("claim_id", claimId);
+      if (undoDelErr) throw new Error(undoDelErr.message);
+      if (previous?.length) {
+        const { error: undoInsErr } = await supabaseAdmin.from("claim_gasds").insert(previous);
+        if (undoInsErr) throw new Error(undoInsErr.message);
+      }
+      const { error: undoUpdErr } = await supabaseAdmin
+        .from("claims")
+        .update({ gasds_adjustment: claim.gasds_adjustment })
+        .eq("id", claimId);
+      if (undoUpdErr) throw new Error(undoUpdErr.message);
+    });
+    if (lateErr) return json(res, 409, { ok: false, error: lateErr });
+
+    return json(res, 200, { ok: true, entries: parsed.entries, adjustment: adjustment || null, checks });
+  } catch (e: any) {
+    return json(res, 500, { ok: false, error: e?.message ?? "Server error" });
+  }
+}
@@ -1,6 +1,8 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node";
 import { supabaseAdmin } from "../../_utils/supabase.js";
 import { requireOperator } from "../../_utils/requireOperator.js";
+import { redactOrNull } from "../../_utils/hmrcRedact.js";
+import { allowedClaimActions } from "../../_utils/claimLifecycle.js";
 
 function safeJson(res: VercelResponse, status: number, payload: any) {
   return res.status(status).setHeader("Content-Type", "application/json").send(JSON.stringify(payload));
@@ -32,7 +34,13 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
     if (charErr) return safeJson(res, 500, { ok: false, error: charErr.message });
 
-    return safeJson(res, 200, { ok: true, claim, charity });
+    // rows written before redaction may still hold a full GovTalk message
+    if (claim.hmrc_raw_response) claim.hmrc_raw_response = redactOrNull(claim.hmrc_raw_response);
+
+    // what the UI may offer for this claim (claimLifecycle.ts)
+    const actions = allowedClaimActions(claim);
+
+    return safeJson(res, 200, { ok: true, claim, charity, actions });
   } catch (err: any) {
     return safeJson(res, 500, { ok: false, error: err?.message ?? "Server error" });
   }
@@ -1,6 +1,9 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node";
 import { supabaseAdmin } from "../../_utils/supabase.js";
 import { requireOperator } from "../../_utils/requireOperator.js";
+import { actionBlock, confirmClaimEdit } from "../../_utils/claimLifecycle.js";
+import { buildClaimItemFields, donorNameFor } from "../../_utils/claimItems.js";
+import type { NormalizationChange } from "../../_utils/hmrcNormalize.js";
 
 function json(res: VercelResponse, status: number, payload: any) {
   return res.status(status).setHeader("Content-Type", "application/json").send(JSON.stringify(payload));
@@ -16,10 +19,6 @@ function parseBody(req: VercelRequest): any {
   return {};
 }
 
-function isIsoDate(d: any) {
-  return typeof d === "string" && /^\d{4}-\d{2}-\d{2}$/.test(d);
-}
-
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   try {
     if (req.method !== "POST") return json(res, 405, { ok: false, error: "Method not allowed" });
@@ -41,58 +40,64 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
     if (claimErr) return json(res, 500, { ok: false, error: claimErr.message });
     if (!claim) return json(res, 404, { ok: false, error: "Claim not found" });
-    if (claim.status !== "draft") return json(res, 400, { ok: false, error: "Can only import into a draft claim" });
+    if (actionBlock(claim, "edit")) return json(res, 400, { ok: false, error: "Can only import into a draft claim" });
 
     const errors: Array<{ row: number; error: string }> = [];
+    // rows imported with values adjusted to fit HMRC's format
+    const adjusted: Array<{ row: number; changes: NormalizationChange[] }> = [];
     const inserts: any[] = [];
 
     for (let i = 0; i < rows.length; i++) {
       const r = rows[i] || {};
 
-      const donor_title = String(r.title || "").trim();
-      const donor_first_name = String(r.first_name || "").trim();
-      const donor_last_name = String(r.last_name || "").trim();
-      const donor_address = String(r.address || "").trim();
-      const donor_postcode = String(r.postcode || "").trim();
-
-      const donation_date = String(r.donation_date || "").trim();
-      const donation_amount = Number(r.donation_amount);
-
-      if (!donor_first_name) { errors.push({ row: i + 2, error: "First Name is required" }); continue; }
-      if (!donor_last_name) { errors.push({ row: i + 2, error: "Last Name is required" }); continue; }
-      if (!donor_address) { errors.push({ row: i + 2, error: "Address is required" }); continue; }
-      if (!donor_postcode) { errors.push({ row: i + 2, error: "Postcode is required" }); continue; }
-      if (!isIsoDate(donation_date)) { errors.push({ row: i + 2, error: "Donation Date must be YYYY-MM-DD" }); continue; }
-      if (!Number.isFinite(donation_amount) || donation_amount <= 0) {
-        errors.push({ row: i + 2, error: "Donation Amount must be a positive number" });
-        continue;
-      }
+      // item_type column is optional: blank = named donor, "aggregated" = AggDonation row
+      const { fields, error: fieldsErr, changes } = buildClaimItemFields({
+        itemType: r.item_type,
+        title: r.title,
+        firstName: r.first_name,
+        lastName: r.last_name,
+        address: r.address,
+        postcode: r.postcode,
+        overseas: r.overseas,
+        aggDescription: r.agg_description,
+        sponsored: r.sponsored,
+        donationDate: r.donation_date,
+        donationAmount: r.donation_amount,
+      });
+
+      if (!fields) { errors.push({ row: i + 2, error: fieldsErr }); continue; }
+      if (changes.length) adjusted.push({ row: i + 2, changes });
 
       inserts.push({
         claim_id: claimId,
-        donor_title: donor_title || null,
-        donor_first_name,
-        donor_last_name,
-        donor_address,
-        donor_postcode,
-        donation_date,
-        donation_amount,
+        donor_name: donorNameFor(fields),
+        ...fields,
       });
     }
 
-    if (inserts.length === 0) return json(res, 200, { ok: true, inserted: 0, errors });
+    if (inserts.length === 0) return json(res, 200, { ok: true, inserted: 0, errors, adjusted: [] });
 
     const CHUNK = 500;
     let inserted = 0;
+    const insertedIds: string[] = [];
 
     for (let i = 0; i < inserts.length; i += CHUNK) {
       const chunk = inserts.slice(i, i + CHUNK);
-      const { error: insErr } = await supabaseAdmin.from("claim_items").insert(chunk);
-      if (insErr) return json(res, 500, { ok: false, error: insErr.message, inserted, errors });
+      const { data: rowsIn, error: insErr } = await supabaseAdmin.from("claim_items").insert(chunk).select("id");
+      if (insErr) return json(res, 500, { ok: false, error: insErr.message, inserted, errors, adjusted });
       inserted += chunk.length;
+      insertedIds.push(...(rowsIn ?? []).map((r: any) => String(r.id)));
     }
 
-    return json(res, 200, { ok: true, inserted, errors });
+    const lateErr = await confirmClaimEdit(claimId, async () => {
+      for (let i = 0; i < insertedIds.length; i += CHUNK) {
+        const { error: undoErr } = await supabaseAdmin.from("claim_items").delete().in("id", insertedIds.slice(i, i + CHUNK));
+        if (undoErr) throw new Error(undoErr.message);
+      }
+    });
+    if (lateErr) return json(res, 409, { ok: false, error: lateErr, inserted: 0, errors, adjusted: [] });
+
+    return json(res, 200, { ok: true, inserted, errors, adjusted });
   } catch (e: any) {
     return json(res, 500, { ok: false, error: e?.message ?? "Server error" });
   }
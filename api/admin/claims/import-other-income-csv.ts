@@ -0,0 +1,82 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { supabaseAdmin } from "../../_utils/supabase.js";
+import { requireOperator } from "../../_utils/requireOperator.js";
+import { actionBlock, confirmClaimEdit } from "../../_utils/claimLifecycle.js";
+import { buildOtherIncomeFields } from "../../_utils/otherIncome.js";
+
+function json(res: VercelResponse, status: number, payload: any) {
+  return res.status(status).setHeader("Content-Type", "application/json").send(JSON.stringify(payload));
+}
+
+function parseBody(req: VercelRequest): any {
+  const b: any = (req as any).body;
+  if (!b) return {};
+  if (typeof b === "object") return b;
+  if (typeof b === "string") {
+    try { return JSON.parse(b); } catch { return {}; }
+  }
+  return {};
+}
+
+/**
+ * POST { claimId, rows: [{ payer, date, gross, tax }] }
+ * CSV columns: payer,date,gross,tax (parsed client-side, like import-csv).
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  try {
+    if (req.method !== "POST") return json(res, 405, { ok: false, error: "Method not allowed" });
+
+    await requireOperator(req);
+
+    const body = parseBody(req);
+    const claimId = String(body.claimId || "");
+    const rows = Array.isArray(body.rows) ? body.rows : [];
+
+    if (!claimId) return json(res, 400, { ok: false, error: "claimId is required" });
+    if (rows.length === 0) return json(res, 400, { ok: false, error: "rows[] is required" });
+
+    const { data: claim, error: claimErr } = await supabaseAdmin
+      .from("claims")
+      .select("id, status")
+      .eq("id", claimId)
+      .single();
+
+    if (claimErr) return json(res, 500, { ok: false, error: claimErr.message });
+    if (!claim) return json(res, 404, { ok: false, error: "Claim not found" });
+    if (actionBlock(claim, "edit")) return json(res, 400, { ok: false, error: "Can only import into a draft claim" });
+
+    const errors: Array<{ row: number; error: string }> = [];
+    const inserts: any[] = [];
+
+    for (let i = 0; i < rows.length; i++) {
+      const r = rows[i] || {};
+
+      const { fields, error: fieldsErr } = buildOtherIncomeFields({
+        payerName: r.payer,
+        incomeDate: r.date,
+        grossAmount: r.gross,
+        taxDeducted: r.tax,
+      });
+
+      if (!fields) { errors.push({ row: i + 2, error: fieldsErr }); continue; }
+
+      inserts.push({ claim_id: claimId, ...fields });
+    }
+
+    if (inserts.length === 0) return json(res, 200, { ok: true, inserted: 0, errors });
+
+    const { data: rowsIn, error: insErr } = await supabaseAdmin.from("claim_other_income").insert(inserts).select("id");
+    if (insErr) return json(res, 500, { ok: false, error: insErr.message, inserted: 0, errors });
+
+    const lateErr = await confirmClaimEdit(claimId, async () => {
+      const ids = (rowsIn ?? []).map((r: any) => String(r.id));
+      const { error: undoErr } = await supabaseAdmin.from("claim_other_income").delete().in("id", ids);
+      if (undoErr) throw new Error(undoErr.message);
+    });
+    if (lateErr) return json(res, 409, { ok: false, error: lateErr, inserted: 0, errors });
+
+    return json(res, 200, { ok: true, inserted: inserts.length, errors });
+  } catch (e: any) {
+    return json(res, 500, { ok: false, error: e?.message ?? "Server error" });
+  }
+}
@@ -17,7 +17,9 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
     const { data: items, error } = await supabaseAdmin
       .from("claim_items")
-      .select("id, donor_name, donor_postcode, donation_date, donation_amount, gift_aid_declaration_date, created_at")
+      .select(
+        "id, claim_id, item_type, donor_name, donor_title, donor_first_name, donor_last_name, donor_address, donor_postcode, donor_overseas, agg_description, sponsored, donation_date, donation_amount, gift_aid_declaration_date, created_at"
+      )
       .eq("claim_id", claimId)
       .order("created_at", { ascending: false });
 
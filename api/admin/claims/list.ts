@@ -1,6 +1,7 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node";
 import { supabaseAdmin } from "../../_utils/supabase.js";
 import { requireOperator } from "../../_utils/requireOperator.js";
+import { allowedClaimActions } from "../../_utils/claimLifecycle.js";
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   try {
@@ -18,7 +19,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     let query = supabaseAdmin
       .from("claims")
       .select(
-        "id, charity_id, created_at, period_start, period_end, tax_year, total_amount, donation_count, status, hmrc_reference, hmrc_last_message"
+        "id, charity_id, created_at, period_start, period_end, tax_year, total_amount, donation_count, status, hmrc_reference, hmrc_last_message, approved_at, hmrc_irmark, hmrc_correlation_id, hmrc_submit_started_at"
       )
       .order("created_at", { ascending: false });
 
@@ -47,6 +48,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       ...c,
       charity_name: charityMap[c.charity_id]?.name ?? "Unknown Charity",
       charity_email: charityMap[c.charity_id]?.contact_email ?? null,
+      actions: allowedClaimActions(c),
     }));
 
     return res.status(200).json({ ok: true, claims: enriched });
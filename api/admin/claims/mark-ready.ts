@@ -1,37 +1,35 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node";
-import { supabaseAdmin } from "../../_utils/supabase.js";
 import { requireOperator } from "../../_utils/requireOperator.js";
-
+import { transitionClaim } from "../../_utils/claimLifecycle.js";
+
+/**
+ * draft -> ready. Runs every claim rule on the current rows and answers with
+ * all failures at once ({ ok: false, error, problems: [{ scope, id, message }] });
+ * on success the items, charity details, GASDS, adjustments and totals are frozen in
+ * claims.ready_snapshot and later submissions are built from that.
+ */
 export default async function handler(req: VercelRequest, res: VercelResponse) {
+  let user: Awaited<ReturnType<typeof requireOperator>>;
   try {
     if (req.method !== "POST") return res.status(405).json({ ok: false, error: "Method not allowed" });
 
-    await requireOperator(req);
+    user = await requireOperator(req);
+  } catch (err: any) {
+    return res.status(403).json({ ok: false, error: err.message });
+  }
 
+  try {
     const { claimId } = req.body ?? {};
     if (!claimId) return res.status(400).json({ ok: false, error: "claimId is required" });
 
-    // compute totals from claim_items
-    const { data: items, error: itemsErr } = await supabaseAdmin
-      .from("claim_items")
-      .select("donation_amount")
-      .eq("claim_id", claimId);
+    const result = await transitionClaim(String(claimId), "markReady", { userId: user.id });
+    if (!result.ok) {
+      const { code, ...rest } = result;
+      return res.status(code).json(rest);
+    }
 
-    if (itemsErr) return res.status(500).json({ ok: false, error: itemsErr.message });
-    const donation_count = items?.length ?? 0;
-    const total_amount = (items ?? []).reduce((s: number, it: any) => s + Number(it.donation_amount || 0), 0);
-
-    if (donation_count === 0) return res.status(400).json({ ok: false, error: "No donations in this claim" });
-
-    const { error } = await supabaseAdmin
-      .from("claims")
-      .update({ status: "ready", donation_count, total_amount })
-      .eq("id", claimId);
-
-    if (error) return res.status(500).json({ ok: false, error: error.message });
-
-    return res.status(200).json({ ok: true });
+    return res.status(200).json({ ok: true, status: result.claim.status, actions: result.actions });
   } catch (err: any) {
-    return res.status(403).json({ ok: false, error: err.message });
+    return res.status(500).json({ ok: false, error: err?.message ?? "Server error" });
   }
 }
@@ -0,0 +1,142 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { supabaseAdmin } from "../../_utils/supabase.js";
+import { requireOperator } from "../../_utils/requireOperator.js";
+import { claimEditError, confirmClaimEdit } from "../../_utils/claimLifecycle.js";
+import { buildOtherIncomeFields } from "../../_utils/otherIncome.js";
+
+function json(res: VercelResponse, status: number, payload: any) {
+  return res.status(status).setHeader("Content-Type", "application/json").send(JSON.stringify(payload));
+}
+
+function parseBody(req: VercelRequest): any {
+  const b: any = (req as any).body;
+  if (!b) return {};
+  if (typeof b === "object") return b;
+  if (typeof b === "string") {
+    try { return JSON.parse(b); } catch { return {}; }
+  }
+  return {};
+}
+
+const COLS = "id, claim_id, payer_name, income_date, gross_amount, tax_deducted, created_at";
+
+/**
+ * Tax-deducted other income on a claim (<OtherInc>).
+ *
+ * GET    ?claimId=...                                                        -> { rows }
+ * POST   { claimId, id?, payerName, incomeDate, grossAmount, taxDeducted }    -> add / update one
+ * DELETE ?id=...                                                             -> remove one
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  try {
+    await requireOperator(req);
+
+    if (req.method === "GET") {
+      const claimId = String(req.query.claimId || "");
+      if (!claimId) return json(res, 400, { ok: false, error: "claimId is required" });
+
+      const { data, error } = await supabaseAdmin
+        .from("claim_other_income")
+        .select(COLS)
+        .eq("claim_id", claimId)
+        .order("income_date", { ascending: true });
+
+      if (error) return json(res, 500, { ok: false, error: error.message });
+      return json(res, 200, { ok: true, rows: data ?? [] });
+    }
+
+    if (req.method === "POST") {
+      const body = parseBody(req);
+      const claimId = String(body.claimId || "");
+      const id = String(body.id || "");
+
+      if (!claimId) return json(res, 400, { ok: false, error: "claimId is required" });
+
+      const { fields, error: fieldsErr } = buildOtherIncomeFields(body);
+      if (!fields) return json(res, 400, { ok: false, error: fieldsErr });
+
+      const editErr = await claimEditError(claimId);
+      if (editErr) return json(res, 400, { ok: false, error: editErr });
+
+      let before: any = null;
+      if (id) {
+        const { data: prev, error: prevErr } = await supabaseAdmin
+          .from("claim_other_income")
+          .select(COLS)
+          .eq("id", id)
+          .eq("claim_id", claimId)
+          .maybeSingle();
+
+        if (prevErr) return json(res, 500, { ok: false, error: prevErr.message });
+        if (!prev) return json(res, 404, { ok: false, error: "Row not found" });
+        before = prev;
+      }
+
+      const { data, error } = id
+        ? await supabaseAdmin
+            .from("claim_other_income")
+            .update(fields)
+            .eq("id", id)
+            .eq("claim_id", claimId)
+            .select(COLS)
+            .single()
+        : await supabaseAdmin
+            .from("claim_other_income")
+            .insert({ claim_id: claimId, ...fields })
+            .select(COLS)
+            .single();
+
+      if (error) return json(res, 500, { ok: false, error: error.message });
+
+      const lateErr = await confirmClaimEdit(claimId, async () => {
+        const { error: undoErr } = before
+          ? await supabaseAdmin.from("claim_other_income").update(before).eq("id", id)
+          : await supabaseAdmin.from("claim_other_income").delete().eq("id", data.id);
+        if (undoErr) throw new Error(undoErr.message);
+      });
+      if (lateErr) return json(res, 409, { ok: false, error: lateErr });
+
+      return json(res, 200, { ok: true, row: data });
+    }
+
+    if (req.method === "DELETE") {
+      const id = String(req.query.id || "");
+      if (!id) return json(res, 400, { ok: false, error: "id is required" });
+
+      const { data: row, error: rowErr } = await supabaseAdmin
+        .from("claim_other_income")
+        .select("id, claim_id")
+        .eq("id", id)
+        .maybeSingle();
+
+      if (rowErr) return json(res, 500, { ok: false, error: rowErr.message });
+      if (!row) return json(res, 404, { ok: false, error: "Row not found" });
+
+      const editErr = await claimEditError(String(row.claim_id));
+      if (editErr) return json(res, 400, { ok: false, error: editErr });
+
+      const { data: removed, error } = await supabaseAdmin
+        .from("claim_other_income")
+        .delete()
+        .eq("id", id)
+        .select("*")
+        .maybeSingle();
+
+      if (error) return json(res, 500, { ok: false, error: error.message });
+
+      if (removed) {
+        const lateErr = await confirmClaimEdit(String(row.claim_id), async () => {
+          const { error: undoErr } = await supabaseAdmin.from("claim_other_income").insert(removed);
+          if (undoErr) throw new Error(undoErr.message);
+        });
+        if (lateErr) return json(res, 409, { ok: false, error: lateErr });
+      }
+
+      return json(res, 200, { ok: true });
+    }
+
+    return json(res, 405, { ok: false, error: "Method not allowed" });
+  } catch (e: any) {
+    return json(res, 500, { ok: false, error: e?.message ?? "Server error" });
+  }
+}
@@ -1,54 +1,58 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node";
 import { supabaseAdmin } from "../../_utils/supabase.js";
 import { requireOperator } from "../../_utils/requireOperator.js";
-import { hmrcTestPoll } from "../../_utils/hmrcTransport.js";
+import { POLLABLE_CLAIM_COLS, pollClaimOnce, type PollableClaim } from "../../_utils/hmrcPoller.js";
+import { tryParseGovTalkResponse } from "../../_utils/govTalkResponse.js";
+import { hmrcErrorsForClaim } from "../../_utils/hmrcErrors.js";
+import { redactSecrets } from "../../_utils/hmrcRedact.js";
+import { actionBlock } from "../../_utils/claimLifecycle.js";
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
-  try {
-    if (req.method !== "POST") return res.status(405).json({ ok: false, error: "Method not allowed" });
+  if (req.method !== "POST") return res.status(405).json({ ok: false, error: "Method not allowed" });
 
-    await requireOperator(req);
+  let user: Awaited<ReturnType<typeof requireOperator>>;
+  try {
+    user = await requireOperator(req);
+  } catch (err: any) {
+    return res.status(403).json({ ok: false, error: err?.message ?? "Forbidden" });
+  }
 
+  try {
     const { claimId } = (req.body ?? {}) as any;
     const cid = String(claimId || "").trim();
     if (!cid) return res.status(400).json({ ok: false, error: "claimId is required" });
 
-    const { data: claim, error: claimErr } = await supabaseAdmin
+    const { data, error: claimErr } = await supabaseAdmin
       .from("claims")
-      .select("id, status, hmrc_correlation_id")
+      .select(POLLABLE_CLAIM_COLS)
       .eq("id", cid)
       .single();
 
-    if (claimErr || !claim) return res.status(404).json({ ok: false, error: claimErr?.message || "Claim not found" });
-    if (!claim.hmrc_correlation_id) return res.status(400).json({ ok: false, error: "No hmrc_correlation_id stored on claim yet" });
+    if (claimErr || !data) return res.status(404).json({ ok: false, error: claimErr?.message || "Claim not found" });
+    const claim = data as PollableClaim;
 
-    // NOTE: for now we keep sample credentials, same as submit.
-    // Next iteration: pull per-charity creds from hmrc_connections (charity or agent mode).
-    const pollResult = await hmrcTestPoll({
-      correlationId: String(claim.hmrc_correlation_id),
-      senderId: "GIFTAIDCHAR",
-      password: "testing2",
-      gatewayTest: 1,
-    });
+    const blocked = actionBlock(claim, "poll");
+    if (blocked) return res.status(409).json({ ok: false, error: blocked });
+    if (!claim.hmrc_correlation_id) return res.status(400).json({ ok: false, error: "No hmrc_correlation_id stored on claim yet" });
 
-    // Save poll response text for audit/debug
-    await supabaseAdmin.from("claims").update({
-      hmrc_last_message: pollResult.ok
-        ? `HMRC TEST poll OK (HTTP ${pollResult.status}). Check response.`
-        : `HMRC TEST poll failed (HTTP ${pollResult.status}).`,
-      hmrc_raw_response: pollResult.bodyText,
-    }).eq("id", cid);
+    // Same handling as the scheduled poller (api/cron/poll-claims.ts)
+    const result = await pollClaimOnce(claim, { actor: { userId: user.id, email: user.email } });
+    const parsed = tryParseGovTalkResponse(result.bodyText);
+    const errors = result.outcome === "rejected" ? hmrcErrorsForClaim(parsed, claim.hmrc_gad_item_ids) : [];
 
     return res.status(200).json({
       ok: true,
+      outcome: result.outcome,
+      message: result.message,
+      nextPollAt: result.nextPollAt,
       hmrc: {
-        httpStatus: pollResult.status,
-        ok: pollResult.ok,
-        contentType: pollResult.contentType,
-        responseSnippet: pollResult.bodyText.slice(0, 800),
+        httpStatus: result.httpStatus,
+        qualifier: result.qualifier,
+        errors,
+        responseSnippet: redactSecrets(result.bodyText).slice(0, 800),
       },
     });
   } catch (err: any) {
-    return res.status(403).json({ ok: false, error: err?.message ?? "Forbidden" });
+    return res.status(500).json({ ok: false, error: err?.message ?? "Server error" });
   }
 }
@@ -0,0 +1,44 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { requireOperator } from "../../_utils/requireOperator.js";
+import { getIdempotencyKey, resubmitClaim } from "../../_utils/claimSubmission.js";
+
+function parseBody(req: VercelRequest) {
+  const b: any = (req as any).body;
+  if (!b) return {};
+  if (typeof b === "object") return b;
+  if (typeof b === "string") {
+    try { return JSON.parse(b); } catch { return {}; }
+  }
+  return {};
+}
+
+/**
+ * "Resubmit after rejection" (see resubmitClaim in claimSubmission.ts).
+ * POST { claimId } (+ Idempotency-Key header) -> same body as admin/claims/submit
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== "POST") return res.status(405).json({ ok: false, error: "Method not allowed" });
+
+  let user: Awaited<ReturnType<typeof requireOperator>>;
+  try {
+    user = await requireOperator(req);
+  } catch (err: any) {
+    return res.status(403).json({ ok: false, error: err?.message ?? "Forbidden" });
+  }
+
+  try {
+    const body = parseBody(req);
+    const result = await resubmitClaim(
+      String(body.claimId || ""),
+      { kind: "operator", userId: user.id, email: user.email },
+      { idempotencyKey: getIdempotencyKey(req, body) }
+    );
+    if (!result.ok) {
+      const { code, ...rest } = result;
+      return res.status(code).json(rest);
+    }
+    return res.status(200).json(result);
+  } catch (err: any) {
+    return res.status(500).json({ ok: false, error: err?.message ?? "Server error" });
+  }
+}
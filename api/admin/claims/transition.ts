@@ -0,0 +1,48 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { requireOperator } from "../../_utils/requireOperator.js";
+import { OPERATOR_TRANSITIONS, transitionClaim, type ClaimAction } from "../../_utils/claimLifecycle.js";
+
+function parseBody(req: VercelRequest) {
+  const b: any = (req as any).body;
+  if (!b) return {};
+  if (typeof b === "object") return b;
+  if (typeof b === "string") {
+    try { return JSON.parse(b); } catch { return {}; }
+  }
+  return {};
+}
+
+/**
+ * Operator status changes that do not talk to HMRC.
+ * POST { claimId, action: "approve" | "reopen" | "markPaid" | "withdraw" }
+ *   -> { ok, status, actions }
+ * markReady has its own route (it also stores totals); submit / resubmit / poll
+ * go through claimSubmission.ts and hmrcPoller.ts.
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== "POST") return res.status(405).json({ ok: false, error: "Method not allowed" });
+
+  let user: Awaited<ReturnType<typeof requireOperator>>;
+  try {
+    user = await requireOperator(req);
+  } catch (err: any) {
+    return res.status(403).json({ ok: false, error: err?.message ?? "Forbidden" });
+  }
+
+  try {
+    const body = parseBody(req);
+    const action = String(body.action || "") as ClaimAction;
+    if (action === "markReady" || !OPERATOR_TRANSITIONS.includes(action)) {
+      return res.status(400).json({ ok: false, error: `Unknown action '${action}'` });
+    }
+
+    const result = await transitionClaim(String(body.claimId || ""), action, { userId: user.id });
+    if (!result.ok) {
+      const { code, ...rest } = result;
+      return res.status(code).json(rest);
+    }
+    return res.status(200).json({ ok: true, status: result.claim.status, actions: result.actions });
+  } catch (err: any) {
+    return res.status(500).json({ ok: false, error: err?.message ?? "Server error" });
+  }
+}
@@ -1,6 +1,8 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node";
 import { supabaseAdmin } from "../../_utils/supabase.js";
 import { requireOperator } from "../../_utils/requireOperator.js";
+import { confirmClaimEdit, itemClaimEditError } from "../../_utils/claimLifecycle.js";
+import { buildClaimItemFields, donorNameFor } from "../../_utils/claimItems.js";
 
 function json(res: VercelResponse, status: number, payload: any) {
   return res.status(status).setHeader("Content-Type", "application/json").send(JSON.stringify(payload));
@@ -16,10 +18,6 @@ function parseBody(req: VercelRequest): any {
   return {};
 }
 
-function isIsoDate(d: any) {
-  return typeof d === "string" && /^\d{4}-\d{2}-\d{2}$/.test(d);
-}
-
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   try {
     if (req.method !== "POST") return json(res, 405, { ok: false, error: "Method not allowed" });
@@ -29,44 +27,40 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     const body = parseBody(req);
 
     const itemId = String(body.itemId || "");
-    const donor_title = String(body.title || "").trim();
-    const donor_first_name = String(body.firstName || "").trim();
-    const donor_last_name = String(body.lastName || "").trim();
-    const donor_address = String(body.address || "").trim();
-    const donor_postcode = String(body.postcode || "").trim();
+    if (!itemId) return json(res, 400, { ok: false, error: "itemId is required" });
 
-    const donation_date = String(body.donationDate || "").trim();
-    const donation_amount = Number(body.donationAmount);
+    // May switch a row between "donor" and "aggregated"; the other kind's fields are cleared
+    const { fields, error: fieldsErr, changes } = buildClaimItemFields(body);
+    if (!fields) return json(res, 400, { ok: false, error: fieldsErr });
 
-    if (!itemId) return json(res, 400, { ok: false, error: "itemId is required" });
-    if (!donor_first_name) return json(res, 400, { ok: false, error: "First Name is required" });
-    if (!donor_last_name) return json(res, 400, { ok: false, error: "Last Name is required" });
-    if (!donor_address) return json(res, 400, { ok: false, error: "Address is required" });
-    if (!donor_postcode) return json(res, 400, { ok: false, error: "Postcode is required" });
-    if (!isIsoDate(donation_date)) return json(res, 400, { ok: false, error: "Donation Date must be YYYY-MM-DD" });
-    if (!Number.isFinite(donation_amount) || donation_amount <= 0) {
-      return json(res, 400, { ok: false, error: "Donation Amount must be a positive number" });
-    }
+    // Only while the claim is a draft (claimLifecycle.ts)
+    const editErr = await itemClaimEditError(itemId);
+    if (editErr) return json(res, 400, { ok: false, error: editErr });
+
+    const { data: before, error: beforeErr } = await supabaseAdmin
+      .from("claim_items")
+      .select("*")
+      .eq("id", itemId)
+      .single();
+
+    if (beforeErr) return json(res, 500, { ok: false, error: beforeErr.message });
 
-    // DB trigger can enforce claim draft; if not, you can check claim_id here too.
     const { data, error } = await supabaseAdmin
       .from("claim_items")
-      .update({
-        donor_title: donor_title || null,
-        donor_first_name,
-        donor_last_name,
-        donor_address,
-        donor_postcode,
-        donation_date,
-        donation_amount,
-      })
+      .update({ ...fields, donor_name: donorNameFor(fields) })
       .eq("id", itemId)
       .select("*")
       .single();
 
     if (error) return json(res, 500, { ok: false, error: error.message });
 
-    return json(res, 200, { ok: true, item: data });
+    const lateErr = await confirmClaimEdit(String(before.claim_id), async () => {
+      const { error: undoErr } = await supabaseAdmin.from("claim_items").update(before).eq("id", itemId);
+      if (undoErr) throw new Error(undoErr.message);
+    });
+    if (lateErr) return json(res, 409, { ok: false, error: lateErr });
+
+    return json(res, 200, { ok: true, item: data, changes });
   } catch (e: any) {
     return json(res, 500, { ok: false, error: e?.message ?? "Server error" });
   }
@@ -1,6 +1,8 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node";
 import { requireOperator } from "../../_utils/requireOperator.js";
-import { generateHmrcGiftAidXml, HMRC_XML_VERSION } from "../../_utils/hmrcXml.js";
+import { generateHmrcGiftAidClaim, HMRC_XML_VERSION } from "../../_utils/hmrcXml.js";
+import { validateClaimXml } from "../../_utils/hmrcSchema.js";
+import { redactSecrets } from "../../_utils/hmrcRedact.js";
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   try {
@@ -18,7 +20,19 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     // ✅ prove which version is deployed
     res.setHeader("x-hmrc-xml-version", HMRC_XML_VERSION);
 
-    const xml = await generateHmrcGiftAidXml(claimId);
+    const { xml: signedXml, gadItemIds, fromSnapshot } = await generateHmrcGiftAidClaim(claimId);
+
+    // "snapshot" once the claim is marked ready (what will be sent), "live" for a draft
+    res.setHeader("x-claim-content", fromSnapshot ? "snapshot" : "live");
+
+    // Preview only: the gateway password never leaves the server
+    const xml = redactSecrets(signedXml);
+
+    // Same offline schema check the submit routes run; the XML still comes back for inspection
+    const violations = await validateClaimXml(signedXml, gadItemIds);
+    if (violations.length) {
+      return res.status(422).json({ ok: false, error: "Claim XML failed schema validation", violations, xml });
+    }
 
     res.setHeader("Content-Type", "application/xml; charset=utf-8");
     res.setHeader("Content-Disposition", `inline; filename="claim-${claimId}.xml"`);
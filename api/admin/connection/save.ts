@@ -21,6 +21,70 @@ function parseBody(req: VercelRequest) {
   return {};
 }
 
+/** Agent login + reference fields (charity_id null, one active row) */
+async function saveAgentConnection(res: VercelResponse, operatorId: string, body: any) {
+  const gatewayUserId = String(body.gatewayUserId || "").trim();
+  const gatewayPassword = String(body.gatewayPassword || "").trim();
+  const agentRef = String(body.agentRef || "").trim().toUpperCase();
+  const agentName = String(body.agentName || "").trim();
+  const agentPostcode = String(body.agentPostcode || "").trim().toUpperCase();
+  const agentPhone = String(body.agentPhone || "").trim();
+
+  if (!gatewayUserId) return send(res, 400, { ok: false, error: "gatewayUserId is required" });
+  if (!gatewayPassword) return send(res, 400, { ok: false, error: "gatewayPassword is required" });
+  if (!agentRef) return send(res, 400, { ok: false, error: "agentRef is required" });
+  if (!agentName) return send(res, 400, { ok: false, error: "agentName is required" });
+
+  const encrypted = encryptJson({
+    gatewayUserId,
+    gatewayPassword,
+    agentRef,
+    agentName,
+    agentPostcode,
+    agentPhone,
+    updatedAt: new Date().toISOString(),
+  });
+
+  // deactivate existing active agent connection
+  await supabaseAdmin
+    .from("hmrc_connections")
+    .update({
+      active: false,
+      updated_by: operatorId,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("mode", "agent")
+    .is("charity_id", null)
+    .eq("active", true);
+
+  const { data: created, error: cErr } = await supabaseAdmin
+    .from("hmrc_connections")
+    .insert({
+      charity_id: null,
+      mode: "agent",
+      active: true,
+      credentials_encrypted: encrypted,
+      created_by: operatorId,
+      updated_by: operatorId,
+    })
+    .select("id")
+    .single();
+
+  if (cErr) return send(res, 500, { ok: false, error: cErr.message });
+
+  return send(res, 200, { ok: true, connectionId: created.id });
+}
+
+/**
+ * POST /api/admin/connection/save
+ *
+ * { charityId, gatewayUserId, gatewayPassword }
+ *   -> the charity's own gateway login (mode "charity")
+ * { mode: "agent", gatewayUserId, gatewayPassword, agentRef, agentName, agentPostcode, agentPhone }
+ *   -> our single agent login, used for every charity whose hmrc_mode is "agent"
+ *
+ * Which one a charity files with is set separately (api/admin/charities/update-hmrc-mode.ts).
+ */
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   try {
     if (req.method !== "POST") {
@@ -31,6 +95,8 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     const operatorId = operator.id;
 
     const body = parseBody(req);
+    if (body.mode === "agent") return await saveAgentConnection(res, operatorId, body);
+
     const charityId = String(body.charityId || "").trim();
 
     const gatewayUserId = String(body.gatewayUserId || "").trim();
@@ -55,6 +121,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         updated_at: new Date().toISOString(),
       })
       .eq("charity_id", charityId)
+      .eq("mode", "charity")
       .eq("active", true);
 
     const { data: created, error: cErr } = await supabaseAdmin
@@ -74,7 +141,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
     await supabaseAdmin
       .from("charities")
-      .update({ hmrc_connection_id: created.id, hmrc_mode: "charity" })
+      .update({ hmrc_connection_id: created.id })
       .eq("id", charityId);
 
     return send(res, 200, { ok: true, connectionId: created.id });
@@ -0,0 +1,179 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { supabaseAdmin } from "../../_utils/supabase.js";
+import { requireOperator } from "../../_utils/requireOperator.js";
+import { hmrcTestDataRequest, hmrcTestPoll } from "../../_utils/hmrcTransport.js";
+import { getGatewayTest, getXmlMode } from "../../_utils/hmrcXml.js";
+import { redactSecrets } from "../../_utils/hmrcRedact.js";
+import { resolveGatewayCreds } from "../../_utils/hmrcCredentials.js";
+import { POLLABLE_STATUSES } from "../../_utils/hmrcPoller.js";
+import {
+  irmarkReceiptFromResponse,
+  parseStatusReport,
+  summarizeGovTalkErrors,
+  tryParseGovTalkResponse,
+  type StatusRecord,
+} from "../../_utils/govTalkResponse.js";
+
+type ClaimRow = {
+  id: string;
+  charity_id: string;
+  status: string;
+  hmrc_correlation_id: string | null;
+  hmrc_irmark_receipt: string | null;
+  hmrc_delete_status: string | null;
+};
+
+const CLAIM_COLS = "id, charity_id, status, hmrc_correlation_id, hmrc_irmark_receipt, hmrc_delete_status";
+
+/** What an operator should do about a gateway record we could match */
+function noteFor(record: StatusRecord, claim: ClaimRow): string | null {
+  const final = /RESPONSE|ERROR/i.test(record.status);
+  const awaiting = (POLLABLE_STATUSES as readonly string[]).includes(claim.status);
+
+  if (final && awaiting) return "HMRC has a final answer waiting — poll this claim";
+  if (final && claim.hmrc_delete_status !== "deleted") return "Final answer received but delete_request not confirmed";
+  if (!final && !awaiting) return `Gateway still processing but claim is '${claim.status}'`;
+  return null;
+}
+
+/**
+ * GET /api/admin/hmrc/outstanding[?deep=1][&charityId=...|&as=agent]
+ *
+ * Sends a DSP data_request and reconciles what the gateway still holds for a
+ * SenderID against `claims`:
+ * - matched by CorrelationID (or, with deep=1, by the IRmark HMRC quotes in the response)
+ * - gatewayOrphans: gateway submissions with no claim
+ * - claimOrphans: claims awaiting HMRC that the gateway no longer lists
+ *
+ * One of charityId or as=agent is required. With charityId we list under the
+ * credentials that charity files with (and only look at its claims); with
+ * as=agent, under the agent's credentials. claimOrphans only covers claims
+ * sent under the role (and so the SenderID) that was listed.
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  try {
+    if (req.method !== "GET") return res.status(405).json({ ok: false, error: "Method not allowed" });
+
+    await requireOperator(req);
+
+    const deep = String(req.query.deep ?? "") === "1";
+    const charityId = String(req.query.charityId ?? "").trim();
+    const asAgent = !charityId && String(req.query.as ?? "") === "agent";
+    if (!charityId && !asAgent) {
+      return res.status(400).json({ ok: false, error: "charityId or as=agent is required" });
+    }
+
+    const mode = getXmlMode();
+    let senderId: string;
+    let authValue: string;
+    let role: string;
+    try {
+      ({ senderId, authValue, role } = charityId
+        ? await resolveGatewayCreds(charityId, mode)
+        : await resolveGatewayCreds("", mode, "agent"));
+    } catch (e: any) {
+      return res.status(400).json({ ok: false, error: e?.message ?? "No gateway credentials" });
+    }
+    const gatewayTest = getGatewayTest(mode);
+
+    // 1) Ask the gateway
+    const listResult = await hmrcTestDataRequest({ senderId, password: authValue, gatewayTest });
+    const parsed = tryParseGovTalkResponse(listResult.bodyText);
+
+    if (!parsed) {
+      return res.status(502).json({
+        ok: false,
+        error: `data_request returned a non-GovTalk reply (HTTP ${listResult.status})`,
+        responseSnippet: redactSecrets(listResult.bodyText, [authValue]).slice(0, 800),
+      });
+    }
+    if (parsed.qualifier === "error") {
+      return res.status(502).json({
+        ok: false,
+        error: `data_request error: ${summarizeGovTalkErrors(parsed.errors) || "no error detail"}`,
+        errors: parsed.errors,
+      });
+    }
+
+    const records = parseStatusReport(parsed.body);
+
+    // 2) Claims we can match by CorrelationID
+    const ids = records.map((r) => r.correlationId).filter(Boolean);
+    let byCorrelation: ClaimRow[] = [];
+    if (ids.length) {
+      const { data, error } = await supabaseAdmin.from("claims").select(CLAIM_COLS).in("hmrc_correlation_id", ids);
+      if (error) return res.status(500).json({ ok: false, error: error.message });
+      byCorrelation = (data ?? []) as ClaimRow[];
+    }
+
+    const claimByCorrelation = new Map(byCorrelation.map((c) => [String(c.hmrc_correlation_id), c]));
+
+    const matched: Array<{ record: StatusRecord; claim: ClaimRow; matchedBy: "correlationId" | "irmark"; note: string | null }> = [];
+    const unmatched: Array<StatusRecord & { irmarkReceipt?: string }> = [];
+
+    for (const r of records) {
+      const c = claimByCorrelation.get(r.correlationId);
+      if (c) matched.push({ record: r, claim: c, matchedBy: "correlationId", note: noteFor(r, c) });
+      else unmatched.push(r);
+    }
+
+    // 3) Optional: fetch each unmatched response and match by its IRmark
+    if (deep && unmatched.length) {
+      for (const r of unmatched) {
+        if (!/RESPONSE/i.test(r.status)) continue;
+        const poll = await hmrcTestPoll({ correlationId: r.correlationId, senderId, password: authValue, gatewayTest });
+        const p = tryParseGovTalkResponse(poll.bodyText);
+        if (p) r.irmarkReceipt = irmarkReceiptFromResponse(p.body) || undefined;
+      }
+
+      const receipts = unmatched.map((r) => r.irmarkReceipt).filter(Boolean) as string[];
+      if (receipts.length) {
+        const { data, error } = await supabaseAdmin.from("claims").select(CLAIM_COLS).in("hmrc_irmark_receipt", receipts);
+        if (error) return res.status(500).json({ ok: false, error: error.message });
+
+        const byIrmark = new Map(((data ?? []) as ClaimRow[]).map((c) => [String(c.hmrc_irmark_receipt), c]));
+        for (let i = unmatched.length - 1; i >= 0; i--) {
+          const r = unmatched[i];
+          const c = r.irmarkReceipt ? byIrmark.get(r.irmarkReceipt) : undefined;
+          if (!c) continue;
+          matched.push({ record: r, claim: c, matchedBy: "irmark", note: "CorrelationID on claim does not match the gateway" });
+          unmatched.splice(i, 1);
+        }
+      }
+    }
+
+    // 4) Claims waiting on HMRC that the gateway no longer knows about,
+    //    among those sent under the SenderID we just listed
+    let awaitingQuery = supabaseAdmin
+      .from("claims")
+      .select(CLAIM_COLS)
+      .in("status", [...POLLABLE_STATUSES])
+      .eq("hmrc_sender_role", role);
+    if (charityId) awaitingQuery = awaitingQuery.eq("charity_id", charityId);
+    const { data: awaiting, error: awaitingErr } = await awaitingQuery;
+
+    if (awaitingErr) return res.status(500).json({ ok: false, error: awaitingErr.message });
+
+    const matchedClaimIds = new Set(matched.map((m) => m.claim.id));
+    const claimOrphans = ((awaiting ?? []) as ClaimRow[])
+      .filter((c) => !matchedClaimIds.has(c.id))
+      .map((c) => ({
+        claim: c,
+        note: c.hmrc_correlation_id
+          ? "Gateway does not list this CorrelationID (already deleted, or submitted under other credentials)"
+          : "No CorrelationID stored — submission acknowledgement was lost",
+      }));
+
+    return res.status(200).json({
+      ok: true,
+      senderId,
+      role,
+      gatewayCount: records.length,
+      matched,
+      gatewayOrphans: unmatched,
+      claimOrphans,
+    });
+  } catch (e: any) {
+    return res.status(500).json({ ok: false, error: e?.message ?? "Server error" });
+  }
+}
@@ -1,6 +1,7 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node";
 import { supabaseAdmin } from "../_utils/supabase.js";
 import { requireUser } from "../_utils/requireUser.js";
+import { buildCharityProfileFields } from "../_utils/charityProfile.js";
 
 function send(res: VercelResponse, status: number, body: any) {
   return res.status(status).json(body);
@@ -71,6 +72,10 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     const idErr = validateCharId(hmrc_charid);
     if (idErr) return send(res, 400, { ok: false, error: idErr });
 
+    // Authorised official + regulator (optional here; required before a live claim is built)
+    const { fields: profile, error: profileErr } = buildCharityProfileFields(body);
+    if (!profile) return send(res, 400, { ok: false, error: profileErr });
+
     /**
      * 1) Find the user's row in public.users safely
      */
@@ -152,6 +157,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           charity_number: hmrc_charid,  // ✅ same value (optional but consistent)
           created_by: userId,
           self_submit_enabled: false,
+          ...profile,
         })
         .select("id")
         .single();
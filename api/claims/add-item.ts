@@ -1,17 +1,18 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node";
 import { supabaseAdmin } from "../_utils/supabase.js";
 import { requireUser } from "../_utils/requireUser.js";
+import { actionBlock, confirmClaimEdit } from "../_utils/claimLifecycle.js";
+import { buildClaimItemFields, donorNameFor } from "../_utils/claimItems.js";
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   try {
     if (req.method !== "POST") return res.status(405).json({ ok: false, error: "Method not allowed" });
 
     const user = await requireUser(req);
-    const { claimId, donorName, donorPostcode, donationDate, donationAmount, declarationDate } = req.body ?? {};
+    const body = req.body ?? {};
+    const { claimId, declarationDate } = body;
 
-    if (!claimId || !donorName || !donorPostcode || !donationDate || !donationAmount) {
-      return res.status(400).json({ ok: false, error: "Missing required fields" });
-    }
+    if (!claimId) return res.status(400).json({ ok: false, error: "claimId is required" });
 
     // ensure claim belongs to user's charity
     const { data: userRow } = await supabaseAdmin.from("users").select("charity_id").eq("id", user.id).single();
@@ -26,22 +27,35 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     if (!claim || claim.charity_id !== userRow.charity_id) {
       return res.status(403).json({ ok: false, error: "Not allowed" });
     }
-    if (claim.status !== "draft") {
+    if (actionBlock(claim, "edit")) {
       return res.status(400).json({ ok: false, error: "Only draft claims can be edited" });
     }
 
-    const { error: insErr } = await supabaseAdmin.from("claim_items").insert({
-      claim_id: claimId,
-      donor_name: donorName,
-      donor_postcode: donorPostcode,
-      donation_date: donationDate,
-      donation_amount: donationAmount,
-      gift_aid_declaration_date: declarationDate ?? null
-    });
+    // same rules as the operator route: donor/aggregated rows, overseas and
+    // sponsored flags, donor details normalised to HMRC's format (claimItems.ts)
+    const { fields, error: fieldsErr, changes } = buildClaimItemFields(body);
+    if (!fields) return res.status(400).json({ ok: false, error: fieldsErr });
+
+    const { data, error: insErr } = await supabaseAdmin
+      .from("claim_items")
+      .insert({
+        claim_id: claimId,
+        donor_name: donorNameFor(fields),
+        ...fields,
+        gift_aid_declaration_date: declarationDate ?? null
+      })
+      .select("id")
+      .single();
 
     if (insErr) return res.status(500).json({ ok: false, error: insErr.message });
 
-    return res.status(200).json({ ok: true });
+    const lateErr = await confirmClaimEdit(claimId, async () => {
+      const { error: undoErr } = await supabaseAdmin.from("claim_items").delete().eq("id", data.id);
+      if (undoErr) throw new Error(undoErr.message);
+    });
+    if (lateErr) return res.status(409).json({ ok: false, error: lateErr });
+
+    return res.status(200).json({ ok: true, id: data?.id, changes });
   } catch (err: any) {
     return res.status(401).json({ ok: false, error: err.message });
   }
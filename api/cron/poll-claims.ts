@@ -0,0 +1,46 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { getBearerToken } from "../_utils/hmrcTransport.js";
+import { retryFailedDeletes, runPollCycle } from "../_utils/hmrcPoller.js";
+
+/**
+ * Scheduled HMRC poller (see "crons" in vercel.json).
+ *
+ * Vercel Cron calls this with `Authorization: Bearer <CRON_SECRET>`.
+ * Each run polls claims whose PollInterval has elapsed and moves them to
+ * accepted/rejected once HMRC gives a final answer, then retries any
+ * delete_request that failed on an earlier run.
+ *
+ * The schedule is every 5 minutes: each claim keeps its own next poll time
+ * from HMRC's PollInterval, so the cron only bounds how late a due poll
+ * runs, and a run with nothing due is a single query. Vercel only invokes
+ * crons on production deployments; set HMRC_POLLER_ENABLED=0 to stop a
+ * deployment polling HMRC (e.g. while its credentials are being rotated).
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  try {
+    if (req.method !== "GET" && req.method !== "POST") {
+      return res.status(405).json({ ok: false, error: "Method not allowed" });
+    }
+
+    const secret = String(process.env.CRON_SECRET || "").trim();
+    if (!secret) return res.status(500).json({ ok: false, error: "CRON_SECRET is not configured" });
+    if (getBearerToken(req) !== secret) return res.status(401).json({ ok: false, error: "Not authorised" });
+
+    if (String(process.env.HMRC_POLLER_ENABLED ?? "1").trim() === "0") {
+      return res.status(200).json({ ok: true, skipped: "HMRC_POLLER_ENABLED=0", polled: 0 });
+    }
+
+    const limit = Number(req.query.limit ?? 25);
+    const outcomes = await runPollCycle({ limit });
+    const deletes = await retryFailedDeletes({ limit });
+
+    return res.status(200).json({
+      ok: true,
+      polled: outcomes.length,
+      outcomes: outcomes.map(({ bodyText: _bodyText, ...o }) => o),
+      deleteRetries: deletes,
+    });
+  } catch (e: any) {
+    return res.status(500).json({ ok: false, error: e?.message ?? "Server error" });
+  }
+}
@@ -0,0 +1,95 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import {
+  handleSimulatorMessage,
+  loadSimulatorState,
+  parseSimulatorScript,
+  resetSimulatorState,
+  saveSimulatorState,
+} from "../_utils/hmrcSimulator.js";
+import { SIMULATOR_SECRET_HEADER } from "../_utils/hmrcTransport.js";
+
+/**
+ * Local HMRC Transaction Engine simulator (see api/_utils/hmrcSimulator.ts).
+ * Only answers when HMRC_SIMULATOR_ENABLED=1 and HMRC_SIMULATOR_SECRET are
+ * set, never in LIVE mode, and only to requests carrying that secret in the
+ * x-hmrc-simulator-secret header (hmrcTransport.ts adds it for the
+ * HMRC_TRANSACTION_ENGINE_URL override). Anything else gets a 404.
+ *
+ * vercel.json routes /api/dev/hmrc-te/<endpoint> here as ?endpoint=<endpoint>:
+ * - POST submission | poll   GovTalk messages (submit, poll, delete, list)
+ * - POST script              { "script": "ack,delay:30,error:9101:2" } for later submissions
+ * - GET  state               current script + held submissions
+ * - POST reset               forget everything
+ */
+
+async function readRawBody(req: VercelRequest): Promise<string> {
+  const b: any = (req as any).body;
+  if (typeof b === "string") return b;
+  if (Buffer.isBuffer(b)) return b.toString("utf8");
+  if (b && typeof b === "object") return JSON.stringify(b);
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+function parseJson(text: string): any {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return {};
+  }
+}
+
+function selfBaseUrl(req: VercelRequest) {
+  const configured = String(process.env.HMRC_TRANSACTION_ENGINE_URL || "").trim();
+  if (configured) return configured.replace(/\/+$/, "");
+
+  const proto = String(req.headers["x-forwarded-proto"] || "http").split(",")[0].trim();
+  return `${proto}://${req.headers.host}/api/dev/hmrc-te`;
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  try {
+    const enabled = String(process.env.HMRC_SIMULATOR_ENABLED || "") === "1";
+    const live = String(process.env.HMRC_XML_MODE || "").trim().toUpperCase() === "LIVE";
+    const secret = String(process.env.HMRC_SIMULATOR_SECRET || "").trim();
+    const given = String(req.headers[SIMULATOR_SECRET_HEADER] || "").trim();
+    if (!enabled || live || !secret || given !== secret) return res.status(404).json({ ok: false, error: "Not found" });
+
+    const endpoint = String(req.query.endpoint ?? "").trim().toLowerCase();
+
+    if (endpoint === "state" && req.method === "GET") {
+      return res.status(200).json({ ok: true, state: loadSimulatorState() });
+    }
+
+    if (req.method !== "POST") return res.status(405).json({ ok: false, error: "Method not allowed" });
+
+    if (endpoint === "reset") {
+      resetSimulatorState();
+      return res.status(200).json({ ok: true });
+    }
+
+    if (endpoint === "script") {
+      const body = parseJson(await readRawBody(req));
+      const script = body.script == null ? null : String(body.script).trim() || null;
+      if (script) parseSimulatorScript(script); // reject typos now, not at the next submission
+
+      const state = loadSimulatorState();
+      state.script = script;
+      saveSimulatorState(state);
+      return res.status(200).json({ ok: true, script });
+    }
+
+    if (endpoint !== "submission" && endpoint !== "poll") {
+      return res.status(404).json({ ok: false, error: `Unknown simulator endpoint "${endpoint}"` });
+    }
+
+    const reply = handleSimulatorMessage(await readRawBody(req), { baseUrl: selfBaseUrl(req) });
+
+    res.setHeader("Content-Type", "text/xml; charset=utf-8");
+    return res.status(reply.status).send(reply.bodyText);
+  } catch (e: any) {
+    return res.status(500).json({ ok: false, error: e?.message ?? "Server error" });
+  }
+}
@@ -57,6 +57,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       .from("hmrc_connections")
       .update({ active: false, updated_by: userId, updated_at: new Date().toISOString() })
       .eq("charity_id", userRow.charity_id)
+      .eq("mode", "charity")
       .eq("active", true);
 
     const { data: created, error: cErr } = await supabaseAdmin
@@ -74,10 +75,11 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
     if (cErr) return send(res, 500, { ok: false, error: cErr.message });
 
-    // Point charity to latest connection
+    // Point charity to latest connection (whether it files as itself or via
+    // the agent is the operator's choice: charities.hmrc_mode)
     await supabaseAdmin
       .from("charities")
-      .update({ hmrc_connection_id: created.id, hmrc_mode: "charity" })
+      .update({ hmrc_connection_id: created.id })
       .eq("id", userRow.charity_id);
 
     return send(res, 200, { ok: true, connectionId: created.id });
@@ -1,8 +1,16 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node";
 import { supabaseAdmin } from "../_utils/supabase.js";
 import { requireUser } from "../_utils/requireUser.js";
-import { generateHmrcGiftAidXml } from "../_utils/hmrcXml.js";
-
+import { getIdempotencyKey, submitClaim } from "../_utils/claimSubmission.js";
+
+/**
+ * Charity self-submit. Same pipeline as the operator routes (see
+ * claimSubmission.ts); a charity user can only send its own charity's claims,
+ * and only once an operator has enabled self-submit for the charity
+ * (charities.self_submit_enabled, see admin/charities/update-self-submit.ts).
+ * The claim must already be ready and approved by an operator; this route
+ * does not change its status itself.
+ */
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   try {
     if (req.method !== "POST") {
@@ -23,72 +31,28 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     if (userErr) return res.status(500).json({ ok: false, error: userErr.message });
     if (!userRow?.charity_id) return res.status(403).json({ ok: false, error: "User is not linked to a charity" });
 
-    // load claim
-    const { data: claim, error: claimErr } = await supabaseAdmin
-      .from("claims")
-      .select("id, charity_id, period_end, status")
-      .eq("id", claimId)
-      .single();
-
-    if (claimErr || !claim) return res.status(404).json({ ok: false, error: "Claim not found" });
-    if (claim.charity_id !== userRow.charity_id) return res.status(403).json({ ok: false, error: "Not allowed" });
-
-    // keep your rule (only draft here)
-    if (claim.status !== "draft") {
-      return res.status(400).json({ ok: false, error: "Only draft claims can be submitted" });
-    }
-
-    // ensure charity has charity_id (HMRC CHARID)
     const { data: charity, error: charityErr } = await supabaseAdmin
       .from("charities")
-      .select("id, charity_id")
-      .eq("id", claim.charity_id)
+      .select("self_submit_enabled")
+      .eq("id", userRow.charity_id)
       .single();
 
-    if (charityErr || !charity) return res.status(500).json({ ok: false, error: "Charity missing" });
-    if (!charity.charity_id) {
-      return res.status(400).json({ ok: false, error: "Charity is missing charity_id (required)" });
+    if (charityErr) return res.status(500).json({ ok: false, error: charityErr.message });
+    if (charity?.self_submit_enabled !== true) {
+      return res.status(403).json({ ok: false, error: "Self-submit is not enabled for this charity" });
     }
 
-    // ensure claim has at least 1 item
-    const { count, error: countErr } = await supabaseAdmin
-      .from("claim_items")
-      .select("id", { count: "exact", head: true })
-      .eq("claim_id", claimId);
-
-    if (countErr) return res.status(500).json({ ok: false, error: countErr.message });
-    if (!count || count === 0) return res.status(400).json({ ok: false, error: "No donations in this claim" });
-
-    // build XML using shared generator (loads claim/charity/items itself)
-    const xml = await generateHmrcGiftAidXml(String(claimId));
-
-    // compute totals (for your claims table summary fields)
-    const { data: amounts, error: amtErr } = await supabaseAdmin
-      .from("claim_items")
-      .select("donation_amount")
-      .eq("claim_id", claimId);
-
-    if (amtErr) return res.status(500).json({ ok: false, error: amtErr.message });
-
-    const totalAmount = (amounts || []).reduce((s: number, it: any) => s + Number(it?.donation_amount || 0), 0);
-
-    await supabaseAdmin
-      .from("claims")
-      .update({
-        status: "submitted",
-        donation_count: count,
-        total_amount: totalAmount,
-        hmrc_last_message: "Submitted to queue (transport not yet wired)",
-        hmrc_raw_response: xml,
-      })
-      .eq("id", claimId);
-
-    return res.status(200).json({
-      ok: true,
-      message: "Claim prepared and marked submitted",
-      xmlPreview: xml.slice(0, 200) + "...",
-    });
-  } catch (err: any) {
-    return res.status(401).json({ ok: false, error: err.message });
+    const result = await submitClaim(
+      String(claimId),
+      { kind: "charity", charityId: userRow.charity_id, userId: user.id, email: user.email },
+      { idempotencyKey: getIdempotencyKey(req, req.body) }
+    );
+    if (!result.ok) {
+      const { code, ...rest } = result;
+      return res.status(code).json(rest);
+    }
+    return res.status(200).json(result);
+  } catch (e: any) {
+    return res.status(401).json({ ok: false, error: e?.message ?? "Unauthorized" });
   }
 }
@@ -14,6 +14,49 @@ export default function Admin() {
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
 
+  // Agent gateway login (used for charities set to "Agent" on their detail page)
+  const [agent, setAgent] = useState({
+    gatewayUserId: "",
+    gatewayPassword: "",
+    agentRef: "",
+    agentName: "",
+    agentPostcode: "",
+    agentPhone: "",
+  });
+  const [agentSaving, setAgentSaving] = useState(false);
+  const [agentMsg, setAgentMsg] = useState<string | null>(null);
+
+  const setAgentField = (k: keyof typeof agent) => (e: React.ChangeEvent<HTMLInputElement>) =>
+    setAgent((a) => ({ ...a, [k]: e.target.value }));
+
+  const saveAgent = async () => {
+    try {
+      setAgentSaving(true);
+      setError(null);
+      setAgentMsg(null);
+
+      const { data } = await supabase.auth.getSession();
+      const token = data.session?.access_token;
+      if (!token) throw new Error("Not logged in. Please log in again.");
+
+      const res = await fetch("/api/admin/connection/save", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+        body: JSON.stringify({ mode: "agent", ...agent }),
+      });
+
+      const json = await res.json();
+      if (!res.ok || !json.ok) throw new Error(json?.error || "Failed to save agent credentials");
+
+      setAgentMsg("Agent credentials saved.");
+      setAgent((a) => ({ ...a, gatewayPassword: "" }));
+    } catch (e: any) {
+      setError(e?.message || "Failed to save agent credentials");
+    } finally {
+      setAgentSaving(false);
+    }
+  };
+
   useEffect(() => {
     (async () => {
       try {
@@ -114,6 +157,67 @@ export default function Admin() {
             </ul>
           )}
         </div>
+
+        <div className="bg-white/80 rounded-lg shadow p-4 mt-6">
+          <h2 className="font-semibold text-brand-primary mb-1">HMRC Agent Credentials</h2>
+          <p className="text-sm text-gray-600 mb-3">
+            One Government Gateway login for filing on behalf of charities set to &quot;Agent&quot;. Saving replaces
+            the current agent login.
+          </p>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <input
+              className="border rounded px-3 py-2 text-sm"
+              placeholder="Gateway User ID"
+              value={agent.gatewayUserId}
+              onChange={setAgentField("gatewayUserId")}
+              autoComplete="off"
+            />
+            <input
+              className="border rounded px-3 py-2 text-sm"
+              type="password"
+              placeholder="Gateway Password"
+              value={agent.gatewayPassword}
+              onChange={setAgentField("gatewayPassword")}
+              autoComplete="new-password"
+            />
+            <input
+              className="border rounded px-3 py-2 text-sm"
+              placeholder="HMRC agent reference"
+              value={agent.agentRef}
+              onChange={setAgentField("agentRef")}
+            />
+            <input
+              className="border rounded px-3 py-2 text-sm"
+              placeholder="Agent organisation name"
+              value={agent.agentName}
+              onChange={setAgentField("agentName")}
+            />
+            <input
+              className="border rounded px-3 py-2 text-sm"
+              placeholder="Agent postcode"
+              value={agent.agentPostcode}
+              onChange={setAgentField("agentPostcode")}
+            />
+            <input
+              className="border rounded px-3 py-2 text-sm"
+              placeholder="Agent phone"
+              value={agent.agentPhone}
+              onChange={setAgentField("agentPhone")}
+            />
+          </div>
+
+          <div className="mt-3 flex items-center gap-3">
+            <button
+              onClick={saveAgent}
+              disabled={agentSaving}
+              className="px-3 py-2 text-sm rounded bg-brand-primary text-white hover:opacity-90 disabled:opacity-50"
+            >
+              {agentSaving ? "Saving…" : "Save Agent Credentials"}
+            </button>
+            {agentMsg && <span className="text-sm text-green-700">{agentMsg}</span>}
+          </div>
+        </div>
       </div>
     </div>
   );
@@ -8,6 +8,46 @@ type Charity = {
   contact_email: string;
   charity_number: string | null; // HMRC CHARID
   self_submit_enabled?: boolean;
+  hmrc_mode?: "charity" | "agent" | null;
+  hmrc_connection_id?: string | null;
+  official_title?: string | null;
+  official_fore?: string | null;
+  official_sur?: string | null;
+  official_postcode?: string | null;
+  official_phone?: string | null;
+  regulator?: "CCEW" | "OSCR" | "CCNI" | "none" | null;
+  regulator_number?: string | null;
+};
+
+type CommunityBuilding = {
+  id: string;
+  name: string;
+  address: string;
+  postcode: string;
+};
+
+type ConnectedCharity = {
+  id: string;
+  name: string;
+  charity_number: string | null;
+  linked_charity_id: string | null;
+};
+
+type Adjustment = {
+  id: string;
+  amount: number;
+  reason: string;
+  source_claim_id: string | null;
+  claim_id: string | null;
+  consumed_at: string | null;
+  created_at: string;
+};
+
+type ClaimOption = {
+  id: string;
+  period_end: string | null;
+  status: string;
+  hmrc_reference: string | null;
 };
 
 async function getToken(): Promise<string> {
@@ -23,10 +63,38 @@ export default function AdminCharityDetail() {
 
   const [charity, setCharity] = useState<Charity | null>(null);
   const [charityNumber, setCharityNumber] = useState("");
+  const [hmrcMode, setHmrcMode] = useState<"charity" | "agent">("charity");
   const [loading, setLoading] = useState(true);
+
+  // Authorised official + regulator (declared on every claim)
+  const [officialTitle, setOfficialTitle] = useState("");
+  const [officialFore, setOfficialFore] = useState("");
+  const [officialSur, setOfficialSur] = useState("");
+  const [officialPostcode, setOfficialPostcode] = useState("");
+  const [officialPhone, setOfficialPhone] = useState("");
+  const [regulator, setRegulator] = useState("");
+  const [regulatorNumber, setRegulatorNumber] = useState("");
   const [busy, setBusy] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
 
+  // GASDS registers
+  const [buildings, setBuildings] = useState<CommunityBuilding[]>([]);
+  const [connected, setConnected] = useState<ConnectedCharity[]>([]);
+  const [otherCharities, setOtherCharities] = useState<Array<{ id: string; name: string }>>([]);
+  const [bldgName, setBldgName] = useState("");
+  const [bldgAddress, setBldgAddress] = useState("");
+  const [bldgPostcode, setBldgPostcode] = useState("");
+  const [connName, setConnName] = useState("");
+  const [connNumber, setConnNumber] = useState("");
+  const [connLinkedId, setConnLinkedId] = useState("");
+
+  // Adjustments ledger (previous overclaims)
+  const [adjustments, setAdjustments] = useState<Adjustment[]>([]);
+  const [claimOptions, setClaimOptions] = useState<ClaimOption[]>([]);
+  const [adjAmount, setAdjAmount] = useState("");
+  const [adjReason, setAdjReason] = useState("");
+  const [adjSourceClaimId, setAdjSourceClaimId] = useState("");
+
   const load = async () => {
     try {
       setLoading(true);
@@ -45,6 +113,40 @@ export default function AdminCharityDetail() {
 
       setCharity(json.charity);
       setCharityNumber(json.charity?.charity_number ?? "");
+      setHmrcMode(json.charity?.hmrc_mode === "agent" ? "agent" : "charity");
+      setOfficialTitle(json.charity?.official_title ?? "");
+      setOfficialFore(json.charity?.official_fore ?? "");
+      setOfficialSur(json.charity?.official_sur ?? "");
+      setOfficialPostcode(json.charity?.official_postcode ?? "");
+      setOfficialPhone(json.charity?.official_phone ?? "");
+      setRegulator(json.charity?.regulator ?? "");
+      setRegulatorNumber(json.charity?.regulator_number ?? "");
+
+      const auth = { headers: { Authorization: `Bearer ${token}` } };
+      const [bRes, cRes, listRes, aRes, claimsRes] = await Promise.all([
+        fetch(`/api/admin/charities/community-buildings?charityId=${encodeURIComponent(charityUuid)}`, auth),
+        fetch(`/api/admin/charities/connected-charities?charityId=${encodeURIComponent(charityUuid)}`, auth),
+        fetch("/api/admin/charities/list?limit=200&offset=0", auth),
+        fetch(`/api/admin/charities/adjustments?charityId=${encodeURIComponent(charityUuid)}`, auth),
+        fetch(`/api/admin/charities/claims?charityId=${encodeURIComponent(charityUuid)}&limit=200&offset=0`, auth),
+      ]);
+
+      const bJson = await bRes.json();
+      if (!bRes.ok || !bJson.ok) throw new Error(bJson?.error || "Failed to load community buildings");
+      const cJson = await cRes.json();
+      if (!cRes.ok || !cJson.ok) throw new Error(cJson?.error || "Failed to load connected charities");
+      const listJson = await listRes.json();
+      if (!listRes.ok || !listJson.ok) throw new Error(listJson?.error || "Failed to load charities");
+      const aJson = await aRes.json();
+      if (!aRes.ok || !aJson.ok) throw new Error(aJson?.error || "Failed to load adjustments");
+      const claimsJson = await claimsRes.json();
+      if (!claimsRes.ok || !claimsJson.ok) throw new Error(claimsJson?.error || "Failed to load claims");
+
+      setBuildings(bJson.buildings || []);
+      setConnected(cJson.connected || []);
+      setOtherCharities((listJson.charities || []).filter((c: any) => c.id !== charityUuid));
+      setAdjustments(aJson.adjustments || []);
+      setClaimOptions(claimsJson.claims || []);
     } catch (e: any) {
       setError(e?.message ?? "Error");
       setCharity(null);
@@ -82,6 +184,222 @@ export default function AdminCharityDetail() {
     }
   };
 
+  const saveHmrcMode = async () => {
+    try {
+      setBusy("mode");
+      setError(null);
+
+      const token = await getToken();
+
+      const res = await fetch("/api/admin/charities/update-hmrc-mode", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+        body: JSON.stringify({ charityId: charityUuid, hmrcMode }),
+      });
+
+      const json = await res.json();
+      if (!res.ok || !json.ok) throw new Error(json?.error || "Failed to update submission mode");
+
+      await load();
+    } catch (e: any) {
+      setError(e?.message ?? "Save failed");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const saveSelfSubmit = async (enabled: boolean) => {
+    try {
+      setBusy("selfSubmit");
+      setError(null);
+
+      const token = await getToken();
+
+      const res = await fetch("/api/admin/charities/update-self-submit", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+        body: JSON.stringify({ charityId: charityUuid, enabled }),
+      });
+
+      const json = await res.json();
+      if (!res.ok || !json.ok) throw new Error(json?.error || "Failed to update self-submit");
+
+      await load();
+    } catch (e: any) {
+      setError(e?.message ?? "Save failed");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const saveProfile = async () => {
+    try {
+      setBusy("profile");
+      setError(null);
+
+      const token = await getToken();
+
+      const res = await fetch("/api/admin/charities/update-profile", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+        body: JSON.stringify({
+          charityId: charityUuid,
+          officialTitle,
+          officialFore,
+          officialSur,
+          officialPostcode,
+          officialPhone,
+          regulator,
+          regulatorNumber: regulator === "none" ? "" : regulatorNumber,
+        }),
+      });
+
+      const json = await res.json();
+      if (!res.ok || !json.ok) throw new Error(json?.error || "Failed to update official/regulator");
+
+      await load();
+    } catch (e: any) {
+      setError(e?.message ?? "Save failed");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  // Mirrors missingProfileFields (api/_utils/charityProfile.ts) on the saved values
+  const profileMissing = [
+    ...(charity?.hmrc_mode !== "agent" &&
+    !(charity?.official_fore && charity?.official_sur && charity?.official_postcode && charity?.official_phone)
+      ? ["authorised official"]
+      : []),
+    ...(!charity?.regulator || (charity.regulator !== "none" && !charity.regulator_number) ? ["regulator"] : []),
+  ];
+
+  const addBuilding = async () => {
+    try {
+      setBusy("building");
+      setError(null);
+
+      const token = await getToken();
+
+      const res = await fetch("/api/admin/charities/community-buildings", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+        body: JSON.stringify({ charityId: charityUuid, name: bldgName, address: bldgAddress, postcode: bldgPostcode }),
+      });
+
+      const json = await res.json();
+      if (!res.ok || !json.ok) throw new Error(json?.error || "Failed to save community building");
+
+      setBldgName("");
+      setBldgAddress("");
+      setBldgPostcode("");
+      await load();
+    } catch (e: any) {
+      setError(e?.message ?? "Save failed");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const addConnected = async () => {
+    try {
+      setBusy("connected");
+      setError(null);
+
+      const token = await getToken();
+
+      const res = await fetch("/api/admin/charities/connected-charities", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+        body: JSON.stringify({
+          charityId: charityUuid,
+          name: connName,
+          charityNumber: connNumber,
+          linkedCharityId: connLinkedId || null,
+        }),
+      });
+
+      const json = await res.json();
+      if (!res.ok || !json.ok) throw new Error(json?.error || "Failed to save connected charity");
+
+      setConnName("");
+      setConnNumber("");
+      setConnLinkedId("");
+      await load();
+    } catch (e: any) {
+      setError(e?.message ?? "Save failed");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const addAdjustment = async () => {
+    try {
+      setBusy("adjustment");
+      setError(null);
+
+      const token = await getToken();
+
+      const res = await fetch("/api/admin/charities/adjustments", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+        body: JSON.stringify({
+          charityId: charityUuid,
+          amount: adjAmount,
+          reason: adjReason,
+          sourceClaimId: adjSourceClaimId || null,
+        }),
+      });
+
+      const json = await res.json();
+      if (!res.ok || !json.ok) throw new Error(json?.error || "Failed to save adjustment");
+
+      setAdjAmount("");
+      setAdjReason("");
+      setAdjSourceClaimId("");
+      await load();
+    } catch (e: any) {
+      setError(e?.message ?? "Save failed");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const claimLabel = (claimId: string | null) => {
+    const c = claimOptions.find((x) => x.id === claimId);
+    if (!c) return claimId ? claimId.slice(0, 8) : "";
+    const end = c.period_end ? new Date(c.period_end).toLocaleDateString() : "no period end";
+    return `${end} (${c.hmrc_reference || c.status})`;
+  };
+
+  const removeRegisterEntry = async (
+    kind: "community-buildings" | "connected-charities" | "adjustments",
+    entryId: string
+  ) => {
+    try {
+      if (!window.confirm("Remove this entry?")) return;
+
+      setBusy(`del:${entryId}`);
+      setError(null);
+
+      const token = await getToken();
+
+      const res = await fetch(`/api/admin/charities/${kind}?id=${encodeURIComponent(entryId)}`, {
+        method: "DELETE",
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      const json = await res.json();
+      if (!res.ok || !json.ok) throw new Error(json?.error || "Failed to remove entry");
+
+      await load();
+    } catch (e: any) {
+      setError(e?.message ?? "Remove failed");
+    } finally {
+      setBusy(null);
+    }
+  };
+
   if (loading) return <div className="max-w-4xl mx-auto p-6 text-gray-500">Loading charity…</div>;
 
   return (
@@ -136,6 +454,366 @@ export default function AdminCharityDetail() {
           </div>
         )}
 
+        <label className="block text-sm font-medium mb-1 mt-6">Submit claims as</label>
+        <p className="text-sm text-gray-600 mb-2">
+          <strong>Charity</strong> uses the charity&apos;s own Government Gateway login.{" "}
+          <strong>Agent</strong> files on its behalf with our agent login (the CHARID above still identifies the
+          charity). Claims already with HMRC keep polling under the login they were sent with.
+        </p>
+        <div className="flex flex-col md:flex-row gap-3">
+          <select
+            className="border rounded px-3 py-2 text-sm w-full md:max-w-md"
+            value={hmrcMode}
+            onChange={(e) => setHmrcMode(e.target.value === "agent" ? "agent" : "charity")}
+            disabled={busy !== null}
+          >
+            <option value="charity">Charity (own gateway credentials)</option>
+            <option value="agent">Agent (our gateway credentials)</option>
+          </select>
+          <button
+            onClick={saveHmrcMode}
+            disabled={busy !== null}
+            className="px-4 py-2 text-sm rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+          >
+            {busy === "mode" ? "Saving…" : "Save"}
+          </button>
+        </div>
+
+        {hmrcMode === "charity" && !charity?.hmrc_connection_id && (
+          <div className="text-xs text-amber-700 mt-2">
+            This charity has not saved its gateway credentials yet — LIVE submissions will fail until it does.
+          </div>
+        )}
+
+        <label className="flex items-center gap-2 text-sm mt-6">
+          <input
+            type="checkbox"
+            checked={charity?.self_submit_enabled === true}
+            onChange={(e) => saveSelfSubmit(e.target.checked)}
+            disabled={busy !== null}
+          />
+          <span className="font-medium">Charity can submit its own claims</span>
+          {busy === "selfSubmit" && <span className="text-gray-500">Saving…</span>}
+        </label>
+        <p className="text-xs text-gray-500 mt-1">
+          When off, only operators send this charity&apos;s claims to HMRC.
+        </p>
+
+        <h2 className="text-lg font-semibold mt-8 mb-2">Authorised Official &amp; Regulator</h2>
+        <p className="text-sm text-gray-600 mb-3">
+          Declared on every claim. The official is only sent when the charity files for itself (agents sign with
+          their own details).
+        </p>
+
+        {profileMissing.length > 0 && (
+          <div className="text-xs text-amber-700 mb-3">
+            Missing {profileMissing.join(" and ")} — live claims cannot be built until this is complete.
+          </div>
+        )}
+
+        <div className="flex flex-col md:flex-row gap-3 mb-3">
+          <input
+            className="border rounded px-3 py-2 text-sm md:w-20"
+            placeholder="Title"
+            maxLength={4}
+            value={officialTitle}
+            onChange={(e) => setOfficialTitle(e.target.value)}
+            disabled={busy !== null}
+          />
+          <input
+            className="border rounded px-3 py-2 text-sm md:flex-1"
+            placeholder="First name"
+            maxLength={35}
+            value={officialFore}
+            onChange={(e) => setOfficialFore(e.target.value)}
+            disabled={busy !== null}
+          />
+          <input
+            className="border rounded px-3 py-2 text-sm md:flex-1"
+            placeholder="Last name"
+            maxLength={35}
+            value={officialSur}
+            onChange={(e) => setOfficialSur(e.target.value)}
+            disabled={busy !== null}
+          />
+          <input
+            className="border rounded px-3 py-2 text-sm md:w-32"
+            placeholder="Postcode"
+            value={officialPostcode}
+            onChange={(e) => setOfficialPostcode(e.target.value)}
+            disabled={busy !== null}
+          />
+          <input
+            className="border rounded px-3 py-2 text-sm md:w-40"
+            placeholder="Phone"
+            maxLength={19}
+            value={officialPhone}
+            onChange={(e) => setOfficialPhone(e.target.value)}
+            disabled={busy !== null}
+          />
+        </div>
+
+        <div className="flex flex-col md:flex-row gap-3">
+          <select
+            className="border rounded px-3 py-2 text-sm"
+            value={regulator}
+            onChange={(e) => setRegulator(e.target.value)}
+            disabled={busy !== null}
+          >
+            <option value="">Regulator…</option>
+            <option value="CCEW">CCEW (Charity Commission, England &amp; Wales)</option>
+            <option value="OSCR">OSCR (Scotland)</option>
+            <option value="CCNI">CCNI (Northern Ireland)</option>
+            <option value="none">Exempt / not registered</option>
+          </select>
+          {regulator !== "none" && (
+            <input
+              className="border rounded px-3 py-2 text-sm md:w-48"
+              placeholder="Registration number"
+              maxLength={20}
+              value={regulatorNumber}
+              onChange={(e) => setRegulatorNumber(e.target.value)}
+              disabled={busy !== null}
+            />
+          )}
+          <button
+            onClick={saveProfile}
+            disabled={busy !== null}
+            className="px-4 py-2 text-sm rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+          >
+            {busy === "profile" ? "Saving…" : "Save"}
+          </button>
+        </div>
+
+        <h2 className="text-lg font-semibold mt-8 mb-2">GASDS: Community Buildings</h2>
+        <p className="text-sm text-gray-600 mb-3">
+          Buildings where small cash donations are collected. Each has its own yearly GASDS allowance; amounts are
+          attributed to a building on the claim page.
+        </p>
+
+        {buildings.length === 0 ? (
+          <div className="text-sm text-gray-500 mb-3">No community buildings registered.</div>
+        ) : (
+          <ul className="divide-y border rounded mb-3">
+            {buildings.map((b) => (
+              <li key={b.id} className="flex items-center justify-between px-3 py-2 text-sm">
+                <span>
+                  <span className="font-medium">{b.name}</span> — {b.address}, {b.postcode}
+                </span>
+                <button
+                  onClick={() => removeRegisterEntry("community-buildings", b.id)}
+                  disabled={busy !== null}
+                  className="px-2 py-1 text-sm rounded border border-red-200 text-red-700 hover:bg-red-50 disabled:opacity-50"
+                >
+                  {busy === `del:${b.id}` ? "Removing…" : "Remove"}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex flex-col md:flex-row gap-3">
+          <input
+            className="border rounded px-3 py-2 text-sm"
+            placeholder="Building name"
+            maxLength={40}
+            value={bldgName}
+            onChange={(e) => setBldgName(e.target.value)}
+            disabled={busy !== null}
+          />
+          <input
+            className="border rounded px-3 py-2 text-sm md:flex-1"
+            placeholder="Address (first line)"
+            maxLength={40}
+            value={bldgAddress}
+            onChange={(e) => setBldgAddress(e.target.value)}
+            disabled={busy !== null}
+          />
+          <input
+            className="border rounded px-3 py-2 text-sm md:w-32"
+            placeholder="Postcode"
+            value={bldgPostcode}
+            onChange={(e) => setBldgPostcode(e.target.value)}
+            disabled={busy !== null}
+          />
+          <button
+            onClick={addBuilding}
+            disabled={busy !== null}
+            className="px-4 py-2 text-sm rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+          >
+            {busy === "building" ? "Saving…" : "Add"}
+          </button>
+        </div>
+
+        <h2 className="text-lg font-semibold mt-8 mb-2">GASDS: Connected Charities</h2>
+        <p className="text-sm text-gray-600 mb-3">
+          Connected charities share one general GASDS allowance. Link one we also file for so its claims count against
+          the shared cap.
+        </p>
+
+        {connected.length === 0 ? (
+          <div className="text-sm text-gray-500 mb-3">Not connected to any charities.</div>
+        ) : (
+          <ul className="divide-y border rounded mb-3">
+            {connected.map((c) => (
+              <li key={c.id} className="flex items-center justify-between px-3 py-2 text-sm">
+                <span>
+                  <span className="font-medium">{c.name}</span>
+                  {c.charity_number ? ` (${c.charity_number})` : ""}
+                  {c.linked_charity_id && (
+                    <>
+                      {" "}
+                      •{" "}
+                      <Link to={`/admin/charities/${c.linked_charity_id}`} className="text-blue-600 hover:underline">
+                        linked
+                      </Link>
+                    </>
+                  )}
+                </span>
+                <button
+                  onClick={() => removeRegisterEntry("connected-charities", c.id)}
+                  disabled={busy !== null}
+                  className="px-2 py-1 text-sm rounded border border-red-200 text-red-700 hover:bg-red-50 disabled:opacity-50"
+                >
+                  {busy === `del:${c.id}` ? "Removing…" : "Remove"}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex flex-col md:flex-row gap-3">
+          <input
+            className="border rounded px-3 py-2 text-sm md:flex-1"
+            placeholder="Charity name"
+            value={connName}
+            onChange={(e) => setConnName(e.target.value)}
+            disabled={busy !== null}
+          />
+          <input
+            className="border rounded px-3 py-2 text-sm md:w-40"
+            placeholder="HMRC ref (optional)"
+            value={connNumber}
+            onChange={(e) => setConnNumber(e.target.value)}
+            disabled={busy !== null}
+          />
+          <select
+            className="border rounded px-3 py-2 text-sm"
+            value={connLinkedId}
+            onChange={(e) => setConnLinkedId(e.target.value)}
+            disabled={busy !== null}
+          >
+            <option value="">Not one of ours</option>
+            {otherCharities.map((c) => (
+              <option key={c.id} value={c.id}>
+                {c.name}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={addConnected}
+            disabled={busy !== null}
+            className="px-4 py-2 text-sm rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+          >
+            {busy === "connected" ? "Saving…" : "Add"}
+          </button>
+        </div>
+
+        <h2 className="text-lg font-semibold mt-8 mb-2">Adjustments (previous overclaims)</h2>
+        <p className="text-sm text-gray-600 mb-3">
+          Amounts to pay back to HMRC, e.g. a cancelled declaration or a refunded donation on a claim already paid. Open
+          adjustments are deducted from the next claim and marked consumed once HMRC accepts it.
+        </p>
+
+        {adjustments.length === 0 ? (
+          <div className="text-sm text-gray-500 mb-3">No adjustments recorded.</div>
+        ) : (
+          <ul className="divide-y border rounded mb-3">
+            {adjustments.map((a) => (
+              <li key={a.id} className="flex items-center justify-between px-3 py-2 text-sm">
+                <span>
+                  <span className="font-medium">£{Number(a.amount || 0).toLocaleString()}</span> — {a.reason}
+                  {a.source_claim_id && (
+                    <>
+                      {" "}
+                      • from{" "}
+                      <Link to={`/admin/claims/${a.source_claim_id}`} className="text-blue-600 hover:underline">
+                        {claimLabel(a.source_claim_id)}
+                      </Link>
+                    </>
+                  )}
+                  <span className="ml-2 text-xs text-gray-500">
+                    {a.consumed_at ? (
+                      <>
+                        consumed {new Date(a.consumed_at).toLocaleDateString()} by{" "}
+                        <Link to={`/admin/claims/${a.claim_id}`} className="text-blue-600 hover:underline">
+                          {claimLabel(a.claim_id)}
+                        </Link>
+                      </>
+                    ) : a.claim_id ? (
+                      <>
+                        sent with{" "}
+                        <Link to={`/admin/claims/${a.claim_id}`} className="text-blue-600 hover:underline">
+                          {claimLabel(a.claim_id)}
+                        </Link>
+                      </>
+                    ) : (
+                      "open"
+                    )}
+                  </span>
+                </span>
+                {!a.claim_id && (
+                  <button
+                    onClick={() => removeRegisterEntry("adjustments", a.id)}
+                    disabled={busy !== null}
+                    className="px-2 py-1 text-sm rounded border border-red-200 text-red-700 hover:bg-red-50 disabled:opacity-50"
+                  >
+                    {busy === `del:${a.id}` ? "Removing…" : "Remove"}
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex flex-col md:flex-row gap-3">
+          <input
+            className="border rounded px-3 py-2 text-sm md:w-32"
+            placeholder="Amount (£)"
+            value={adjAmount}
+            onChange={(e) => setAdjAmount(e.target.value)}
+            disabled={busy !== null}
+          />
+          <input
+            className="border rounded px-3 py-2 text-sm md:flex-1"
+            placeholder="Reason"
+            maxLength={200}
+            value={adjReason}
+            onChange={(e) => setAdjReason(e.target.value)}
+            disabled={busy !== null}
+          />
+          <select
+            className="border rounded px-3 py-2 text-sm"
+            value={adjSourceClaimId}
+            onChange={(e) => setAdjSourceClaimId(e.target.value)}
+            disabled={busy !== null}
+          >
+            <option value="">Source claim (optional)</option>
+            {claimOptions.map((c) => (
+              <option key={c.id} value={c.id}>
+                {claimLabel(c.id)}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={addAdjustment}
+            disabled={busy !== null}
+            className="px-4 py-2 text-sm rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+          >
+            {busy === "adjustment" ? "Saving…" : "Add"}
+          </button>
+        </div>
+
         <div className="mt-6 flex gap-3">
           <button onClick={load} className="px-3 py-2 text-sm rounded border border-gray-200 hover:bg-gray-50">
             Refresh
@@ -1,4 +1,4 @@
-import { useEffect, useMemo, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import { supabase } from "../lib/supabase";
 import { Link, useParams } from "react-router-dom";
 
@@ -21,21 +21,123 @@ type Claim = {
   status: string;
   hmrc_reference: string | null;
   hmrc_last_message: string | null;
+  hmrc_irmark?: string | null;
+  hmrc_irmark_receipt?: string | null;
+  hmrc_correlation_id?: string | null;
+  hmrc_delete_status?: string | null;
+  hmrc_delete_message?: string | null;
+  hmrc_errors?: HmrcClaimError[] | null;
+  approved_at?: string | null;
+  paid_at?: string | null;
+  withdrawn_at?: string | null;
+  /** content frozen by mark-ready; submissions are built from it */
+  ready_snapshot?: {
+    takenAt: string;
+    totals: { donation_count: number; total_amount: number; other_income_gross: number; other_income_tax: number };
+  } | null;
 };
 
+/** What the server allows for a claim right now (api/_utils/claimLifecycle.ts) */
+type ClaimAction =
+  | "edit"
+  | "markReady"
+  | "reopen"
+  | "approve"
+  | "submit"
+  | "resubmit"
+  | "poll"
+  | "markPaid"
+  | "withdraw";
+
+type HmrcClaimError = {
+  source: "gateway" | "business";
+  number: string;
+  text: string;
+  location: string;
+  explanation: string;
+  gadIndex: number | null;
+  itemId: string | null;
+};
+
+type ClaimItemType = "donor" | "aggregated";
+
+/** Tax-deducted other income row (<OtherInc>) */
+type OtherIncomeRow = {
+  id: string;
+  payer_name: string;
+  income_date: string;
+  gross_amount: number;
+  tax_deducted: number;
+};
+
+/** Previous overclaim from the charity's adjustments ledger */
+type ClaimAdjustment = {
+  id: string;
+  amount: number;
+  reason: string;
+  claim_id: string | null;
+  consumed_at: string | null;
+};
+
+/** One message sent to the gateway (api/_utils/submissionAttempts.ts) */
+type SubmissionAttempt = {
+  id: string;
+  kind: "submit" | "poll" | "delete";
+  actor_email: string | null;
+  actor_user_id: string | null;
+  endpoint: string;
+  http_status: number | null;
+  qualifier: string | null;
+  correlation_id: string | null;
+  request_body: string | null;
+  response_body: string | null;
+  error: string | null;
+  created_at: string;
+};
+
+/** Per tax year GASDS check returned by /api/admin/claims/gasds */
+type GasdsYearCheck = {
+  tax_year: number;
+  amount: number;
+  building_id: string | null;
+  cap: number;
+  claimed_elsewhere: number;
+  gift_aid_donations: number;
+  problems: string[];
+};
+
+/** "2024-25" for tax year end 2025 */
+function taxYearLabel(taxYear: number) {
+  return `${taxYear - 1}-${String(taxYear).slice(-2)}`;
+}
+
 type ClaimItem = {
   id: string;
   claim_id?: string;
+  item_type?: ClaimItemType | null;
   donor_title: string | null;
-  donor_first_name: string;
-  donor_last_name: string;
-  donor_address: string;
-  donor_postcode: string;
+  donor_first_name: string | null;
+  donor_last_name: string | null;
+  donor_address: string | null;
+  donor_postcode: string | null;
+  /** donor lives outside the UK -> <Overseas>yes</Overseas> instead of a postcode */
+  donor_overseas?: boolean | null;
+  /** <AggDonation> text for aggregated rows */
+  agg_description?: string | null;
+  /** sponsorship money -> <Sponsored>yes</Sponsored> */
+  sponsored?: boolean | null;
   donation_date: string;
   donation_amount: number;
   created_at: string;
 };
 
+/** Value adjusted to fit HMRC's donor format (api/_utils/hmrcNormalize.ts) */
+type NormalizationChange = { field: string; from: string; to: string; reason: string };
+
+function describeChange(c: NormalizationChange): string {
+  return `${c.field}: "${c.from}" → "${c.to}" (${c.reason})`;
+}
+
 async function getToken(): Promise<string> {
   const { data } = await supabase.auth.getSession();
   const token = data.session?.access_token;
@@ -141,7 +243,19 @@ function escapeHtml(s: string) {
     .join("&#039;");
 }
 
-function openXmlInNewTab(title: string, subtitle: string, xml: string) {
+/**
+ * Last line of defence for previews: the API already redacts (api/_utils/hmrcRedact.ts),
+ * but never render a gateway password that slipped through.
+ */
+function redactGatewayPassword(xml: string): string {
+  return xml.replace(
+    /(<(?:[\w-]+:)?Authentication\b[^>]*>[\s\S]*?<(?:[\w-]+:)?Value\b[^>]*>)[\s\S]*?(<\/(?:[\w-]+:)?Value>)/gi,
+    "$1***REDACTED***$2"
+  );
+}
+
+function openXmlInNewTab(title: string, subtitle: string, rawXml: string) {
+  const xml = redactGatewayPassword(rawXml);
   const w = window.open("", "_blank");
   if (!w) throw new Error("Popup blocked. Please allow popups and try again.");
 
@@ -198,21 +312,29 @@ export default function AdminClaimDetail() {
   const [error, setError] = useState<string | null>(null);
 
   // Add single item form fields
+  const [itemType, setItemType] = useState<ClaimItemType>("donor");
+  const [aggDescription, setAggDescription] = useState("");
+  const [sponsored, setSponsored] = useState(false);
   const [title, setTitle] = useState("");
   const [firstName, setFirstName] = useState("");
   const [lastName, setLastName] = useState("");
   const [address, setAddress] = useState("");
   const [postcode, setPostcode] = useState("");
+  const [overseas, setOverseas] = useState(false);
   const [donationDate, setDonationDate] = useState("");
   const [donationAmount, setDonationAmount] = useState("");
 
   // Edit row state
   const [editingId, setEditingId] = useState<string | null>(null);
+  const [editItemType, setEditItemType] = useState<ClaimItemType>("donor");
+  const [editAggDescription, setEditAggDescription] = useState("");
+  const [editSponsored, setEditSponsored] = useState(false);
   const [editTitle, setEditTitle] = useState("");
   const [editFirstName, setEditFirstName] = useState("");
   const [editLastName, setEditLastName] = useState("");
   const [editAddress, setEditAddress] = useState("");
   const [editPostcode, setEditPostcode] = useState("");
+  const [editOverseas, setEditOverseas] = useState(false);
   const [editDonationDate, setEditDonationDate] = useState("");
   const [editDonationAmount, setEditDonationAmount] = useState("");
 
@@ -220,11 +342,15 @@ export default function AdminClaimDetail() {
   const [csvFilename, setCsvFilename] = useState<string | null>(null);
   const [csvRows, setCsvRows] = useState<
     Array<{
+      item_type: string;
+      agg_description: string;
+      sponsored: string;
       title: string;
       first_name: string;
       last_name: string;
       address: string;
       postcode: string;
+      overseas: string;
       donation_amount: string;
       donation_date: string;
     }>
@@ -232,11 +358,62 @@ export default function AdminClaimDetail() {
   const [csvErrors, setCsvErrors] = useState<Array<{ row: number; error: string }>>([]);
   const [csvPreviewOpen, setCsvPreviewOpen] = useState(false);
 
+  // What the last add/edit/import adjusted to fit HMRC's format
+  const [normalizeNotes, setNormalizeNotes] = useState<string[]>([]);
+
+  // Auto-aggregation of small donations
+  const [aggIncludeNamed, setAggIncludeNamed] = useState(false);
+
+  // Other income (tax deducted)
+  const [otherIncome, setOtherIncome] = useState<OtherIncomeRow[]>([]);
+  const [oiPayer, setOiPayer] = useState("");
+  const [oiDate, setOiDate] = useState("");
+  const [oiGross, setOiGross] = useState("");
+  const [oiTax, setOiTax] = useState("");
+  const [oiEditingId, setOiEditingId] = useState<string | null>(null);
+  const [oiCsvRows, setOiCsvRows] = useState<Array<{ payer: string; date: string; gross: string; tax: string }>>([]);
+  const [oiCsvErrors, setOiCsvErrors] = useState<Array<{ row: number; error: string }>>([]);
+
+  // Adjustments deducted from this claim (<Adjustment>)
+  const [adjustments, setAdjustments] = useState<ClaimAdjustment[]>([]);
+
+  // Messages sent to HMRC for this claim, oldest first
+  const [attempts, setAttempts] = useState<SubmissionAttempt[]>([]);
+
+  // Submit guard: one request at a time, and one Idempotency-Key per submit intent
+  // (a retry after a lost/5xx response reuses it; a definite answer starts a new one)
+  const sendingRef = useRef(false);
+  const submitKeyRef = useRef<string | null>(null);
+
+  // GASDS (small donations top-up)
+  const [gasdsRows, setGasdsRows] = useState<Array<{ taxYear: string; amount: string; buildingId: string }>>([]);
+  const [gasdsBuildings, setGasdsBuildings] = useState<Array<{ id: string; name: string; postcode: string }>>([]);
+  const [gasdsConnectedCount, setGasdsConnectedCount] = useState(0);
+  const [gasdsAdjustment, setGasdsAdjustment] = useState("");
+  const [gasdsChecks, setGasdsChecks] = useState<GasdsYearCheck[]>([]);
+
+  // Actions the server accepts for this claim in its current state
+  const [actions, setActions] = useState<ClaimAction[]>([]);
+  const can = (a: ClaimAction) => actions.includes(a);
+
+  // Sent before but never answered (IRmark on record, no CorrelationID), or rejected
+  const canResubmit = can("resubmit");
+
   const computedTotal = useMemo(() => {
     return items.reduce((s, it) => s + Number(it.donation_amount || 0), 0);
   }, [items]);
 
-  const canEditItems = claim?.status === "draft";
+  const canEditItems = can("edit");
+
+  // HMRC errors that point at a specific donation row
+  const itemErrors = useMemo(() => {
+    const m = new Map<string, HmrcClaimError[]>();
+    for (const e of claim?.hmrc_errors ?? []) {
+      if (!e.itemId) continue;
+      m.set(e.itemId, [...(m.get(e.itemId) ?? []), e]);
+    }
+    return m;
+  }, [claim]);
 
   const load = async () => {
     try {
@@ -255,6 +432,7 @@ export default function AdminClaimDetail() {
       if (!claimJson?.ok) throw new Error(claimJson?.error || "Failed to load claim");
 
       setClaim(claimJson.claim as Claim);
+      setActions((claimJson.actions ?? []) as ClaimAction[]);
       setCharity(claimJson.charity as Charity);
 
       const itemsRes = await fetch(`/api/admin/claims/items?claimId=${encodeURIComponent(claimId)}`, {
@@ -266,6 +444,64 @@ export default function AdminClaimDetail() {
       if (!itemsJson?.ok) throw new Error(itemsJson?.error || "Failed to load claim items");
 
       setItems((itemsJson.items || []) as ClaimItem[]);
+
+      const oiRes = await fetch(`/api/admin/claims/other-income?claimId=${encodeURIComponent(claimId)}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      const { json: oiJson, text: oiText } = await safeReadJson(oiRes);
+      if (!oiRes.ok) throw new Error(`claims/other-income failed (${oiRes.status}): ${oiText.slice(0, 160)}`);
+      if (!oiJson?.ok) throw new Error(oiJson?.error || "Failed to load other income");
+
+      setOtherIncome((oiJson.rows || []) as OtherIncomeRow[]);
+
+      const loadedClaim = claimJson.claim as Claim;
+      const adjRes = await fetch(
+        `/api/admin/charities/adjustments?charityId=${encodeURIComponent(loadedClaim.charity_id)}`,
+        { headers: { Authorization: `Bearer ${token}` } }
+      );
+
+      const { json: adjJson, text: adjText } = await safeReadJson(adjRes);
+      if (!adjRes.ok) throw new Error(`charities/adjustments failed (${adjRes.status}): ${adjText.slice(0, 160)}`);
+      if (!adjJson?.ok) throw new Error(adjJson?.error || "Failed to load adjustments");
+
+      // Same selection as the XML generator: sent with this claim, or open while it is unsent
+      const pullsOpen = ["draft", "ready", "submitting"].includes(loadedClaim.status);
+      setAdjustments(
+        ((adjJson.adjustments || []) as ClaimAdjustment[]).filter((a) =>
+          a.claim_id === loadedClaim.id ? true : pullsOpen && !a.claim_id && !a.consumed_at
+        )
+      );
+
+      const attRes = await fetch(`/api/admin/claims/attempts?claimId=${encodeURIComponent(claimId)}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      const { json: attJson, text: attText } = await safeReadJson(attRes);
+      if (!attRes.ok) throw new Error(`claims/attempts failed (${attRes.status}): ${attText.slice(0, 160)}`);
+      if (!attJson?.ok) throw new Error(attJson?.error || "Failed to load HMRC message history");
+
+      setAttempts((attJson.attempts || []) as SubmissionAttempt[]);
+
+      const gasdsRes = await fetch(`/api/admin/claims/gasds?claimId=${encodeURIComponent(claimId)}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      const { json: gasdsJson, text: gasdsText } = await safeReadJson(gasdsRes);
+      if (!gasdsRes.ok) throw new Error(`claims/gasds failed (${gasdsRes.status}): ${gasdsText.slice(0, 160)}`);
+      if (!gasdsJson?.ok) throw new Error(gasdsJson?.error || "Failed to load GASDS");
+
+      setGasdsRows(
+        (gasdsJson.entries || []).map((e: any) => ({
+          taxYear: String(e.tax_year),
+          amount: String(e.amount),
+          buildingId: e.building_id ? String(e.building_id) : "",
+        }))
+      );
+      setGasdsBuildings(gasdsJson.buildings || []);
+      setGasdsConnectedCount((gasdsJson.connected || []).length);
+      setGasdsAdjustment(gasdsJson.adjustment ? String(gasdsJson.adjustment) : "");
+      setGasdsChecks((gasdsJson.checks || []) as GasdsYearCheck[]);
     } catch (e: any) {
       setError(e.message || "Error");
       setClaim(null);
@@ -292,6 +528,23 @@ export default function AdminClaimDetail() {
         headers: { Authorization: `Bearer ${token}` },
       });
 
+      // 422 = generated fine but failed the XSD check; still show the XML alongside the violations
+      if (res.status === 422) {
+        const { json, text } = await safeReadJson(res);
+        if (json?.xml) openXmlInNewTab("HMRC XML Preview (INVALID)", `Claim: ${claimId}`, String(json.xml));
+
+        const violations: any[] = Array.isArray(json?.violations) ? json.violations : [];
+        const lines = violations.slice(0, 10).map((v) => {
+          const where = v?.gadIndex ? `donation #${v.gadIndex}` : v?.line ? `line ${v.line}` : "envelope";
+          return `${where}: ${v?.message ?? "invalid"}`;
+        });
+        if (violations.length > 10) lines.push(`+${violations.length - 10} more`);
+
+        throw new Error(
+          `${json?.error ?? `XML preview failed (422): ${text.slice(0, 200)}`}${lines.length ? `\n${lines.join("\n")}` : ""}`
+        );
+      }
+
       const text = await res.text();
       if (!res.ok) throw new Error(`XML preview failed (${res.status}): ${text.slice(0, 200)}`);
 
@@ -306,18 +559,32 @@ export default function AdminClaimDetail() {
   /**
    * ✅ NEW: Send to HMRC ISV and show receipt
    */
+  const postSubmission = async (path: string) => {
+    submitKeyRef.current ??= crypto.randomUUID();
+    const token = await getToken();
+
+    const res = await fetch(path, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${token}`,
+        "Idempotency-Key": submitKeyRef.current,
+      },
+      body: JSON.stringify({ claimId }),
+    });
+
+    if (res.status < 500) submitKeyRef.current = null;
+    return res;
+  };
+
   const sendToIsv = async () => {
+    if (sendingRef.current) return;
+    sendingRef.current = true;
     try {
       setBusy("isv");
       setError(null);
 
-      const token = await getToken();
-
-      const res = await fetch("/api/admin/claims/submit-isv", {
-        method: "POST",
-        headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
-        body: JSON.stringify({ claimId }),
-      });
+      const res = await postSubmission("/api/admin/claims/submit-isv");
 
       const { json, text } = await safeReadJson(res);
 
@@ -345,6 +612,7 @@ export default function AdminClaimDetail() {
     } catch (e: any) {
       setError(e?.message ?? "Failed to send to ISV");
     } finally {
+      sendingRef.current = false;
       setBusy(null);
     }
   };
@@ -355,10 +623,14 @@ export default function AdminClaimDetail() {
       setError(null);
 
       if (!canEditItems) throw new Error("Items can only be added while claim is draft");
-      if (!firstName.trim()) throw new Error("First Name is required");
-      if (!lastName.trim()) throw new Error("Last Name is required");
-      if (!address.trim()) throw new Error("Address is required");
-      if (!postcode.trim()) throw new Error("Postcode is required");
+      if (itemType === "aggregated") {
+        if (!aggDescription.trim()) throw new Error("Description is required for an aggregated row");
+      } else {
+        if (!firstName.trim()) throw new Error("First Name is required");
+        if (!lastName.trim()) throw new Error("Last Name is required");
+        if (!address.trim()) throw new Error("Address is required");
+        if (!postcode.trim() && !overseas) throw new Error("Postcode is required (or tick Overseas donor)");
+      }
       if (!donationDate) throw new Error("Donation Date is required");
       if (!donationAmount) throw new Error("Donation Amount is required");
 
@@ -372,11 +644,15 @@ export default function AdminClaimDetail() {
         headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
         body: JSON.stringify({
           claimId,
+          itemType,
+          aggDescription: aggDescription.trim(),
+          sponsored: itemType === "donor" && sponsored,
           title: title.trim() || null,
           firstName: firstName.trim(),
           lastName: lastName.trim(),
           address: address.trim(),
-          postcode: postcode.trim(),
+          postcode: overseas ? "" : postcode.trim(),
+          overseas: itemType === "donor" && overseas,
           donationDate,
           donationAmount: amount,
         }),
@@ -386,11 +662,16 @@ export default function AdminClaimDetail() {
       if (!res.ok) throw new Error(`add-item failed (${res.status}): ${(json?.error ?? text).slice(0, 160)}`);
       if (!json?.ok) throw new Error(json?.error || "Failed to add item");
 
+      setNormalizeNotes(((json.changes || []) as NormalizationChange[]).map(describeChange));
+
+      setAggDescription("");
+      setSponsored(false);
       setTitle("");
       setFirstName("");
       setLastName("");
       setAddress("");
       setPostcode("");
+      setOverseas(false);
       setDonationDate("");
       setDonationAmount("");
       await load();
@@ -403,22 +684,30 @@ export default function AdminClaimDetail() {
 
   const startEdit = (it: ClaimItem) => {
     setEditingId(it.id);
+    setEditItemType(it.item_type === "aggregated" ? "aggregated" : "donor");
+    setEditAggDescription(it.agg_description ?? "");
+    setEditSponsored(it.sponsored === true);
     setEditTitle(it.donor_title ?? "");
     setEditFirstName(it.donor_first_name ?? "");
     setEditLastName(it.donor_last_name ?? "");
     setEditAddress(it.donor_address ?? "");
     setEditPostcode(it.donor_postcode ?? "");
+    setEditOverseas(it.donor_overseas === true);
     setEditDonationDate(it.donation_date ?? "");
     setEditDonationAmount(String(it.donation_amount ?? ""));
   };
 
   const cancelEdit = () => {
     setEditingId(null);
+    setEditItemType("donor");
+    setEditAggDescription("");
+    setEditSponsored(false);
     setEditTitle("");
     setEditFirstName("");
     setEditLastName("");
     setEditAddress("");
     setEditPostcode("");
+    setEditOverseas(false);
     setEditDonationDate("");
     setEditDonationAmount("");
   };
@@ -431,10 +720,14 @@ export default function AdminClaimDetail() {
       setError(null);
 
       if (!canEditItems) throw new Error("Items can only be edited while claim is draft");
-      if (!editFirstName.trim()) throw new Error("First Name is required");
-      if (!editLastName.trim()) throw new Error("Last Name is required");
-      if (!editAddress.trim()) throw new Error("Address is required");
-      if (!editPostcode.trim()) throw new Error("Postcode is required");
+      if (editItemType === "aggregated") {
+        if (!editAggDescription.trim()) throw new Error("Description is required for an aggregated row");
+      } else {
+        if (!editFirstName.trim()) throw new Error("First Name is required");
+        if (!editLastName.trim()) throw new Error("Last Name is required");
+        if (!editAddress.trim()) throw new Error("Address is required");
+        if (!editPostcode.trim() && !editOverseas) throw new Error("Postcode is required (or tick Overseas)");
+      }
       if (!editDonationDate) throw new Error("Donation Date is required");
       if (!editDonationAmount) throw new Error("Donation Amount is required");
 
@@ -448,11 +741,15 @@ export default function AdminClaimDetail() {
         headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
         body: JSON.stringify({
           itemId: editingId,
+          itemType: editItemType,
+          aggDescription: editAggDescription.trim(),
+          sponsored: editItemType === "donor" && editSponsored,
           title: editTitle.trim() || null,
           firstName: editFirstName.trim(),
           lastName: editLastName.trim(),
           address: editAddress.trim(),
-          postcode: editPostcode.trim(),
+          postcode: editOverseas ? "" : editPostcode.trim(),
+          overseas: editItemType === "donor" && editOverseas,
           donationDate: editDonationDate,
           donationAmount: amt,
         }),
@@ -462,6 +759,8 @@ export default function AdminClaimDetail() {
       if (!res.ok) throw new Error(`update-item failed (${res.status}): ${(json?.error ?? text).slice(0, 160)}`);
       if (!json?.ok) throw new Error(json?.error || "Failed to update item");
 
+      setNormalizeNotes(((json.changes || []) as NormalizationChange[]).map(describeChange));
+
       cancelEdit();
       await load();
     } catch (e: any) {
@@ -526,11 +825,15 @@ export default function AdminClaimDetail() {
         for (const [k, v] of Object.entries(r)) map[normKey(k)] = (v ?? "").trim();
 
         return {
+          item_type: map["item_type"] || map["type"] || "",
+          agg_description: map["agg_description"] || map["description"] || "",
+          sponsored: map["sponsored"] || "",
           title: map["title"] || "",
           first_name: map["first_name"] || map["firstname"] || "",
           last_name: map["last_name"] || map["lastname"] || "",
           address: map["address"] || "",
           postcode: map["postcode"] || map["post_code"] || "",
+          overseas: map["overseas"] || "",
           donation_amount: map["donation_amount"] || map["amount"] || "",
           donation_date: map["donation_date"] || map["date"] || "",
         };
@@ -570,6 +873,210 @@ export default function AdminClaimDetail() {
       if (!json?.ok) throw new Error(json?.error || "Failed to import CSV");
 
       setCsvErrors(json.errors || []);
+      setNormalizeNotes(
+        ((json.adjusted || []) as Array<{ row: number; changes: NormalizationChange[] }>).flatMap((a) =>
+          a.changes.map((c) => `Row ${a.row}: ${describeChange(c)}`)
+        )
+      );
+      await load();
+    } catch (e: any) {
+      setError(e?.message ?? "Import failed");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const aggregateSmallDonations = async () => {
+    try {
+      setBusy("aggregate");
+      setError(null);
+
+      if (!canEditItems) throw new Error("Items can only be aggregated while claim is draft");
+
+      const token = await getToken();
+      const call = async (dryRun: boolean) => {
+        const res = await fetch("/api/admin/claims/aggregate-small", {
+          method: "POST",
+          headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+          body: JSON.stringify({ claimId, includeNamed: aggIncludeNamed, dryRun }),
+        });
+
+        const { json, text } = await safeReadJson(res);
+        if (!res.ok) throw new Error(`aggregate-small failed (${res.status}): ${(json?.error ?? text).slice(0, 200)}`);
+        if (!json?.ok) throw new Error(json?.error || "Failed to aggregate donations");
+        return json;
+      };
+
+      // Preview first so the operator sees what will be replaced
+      const plan = await call(true);
+      if (!plan.replaced) {
+        setError(
+          aggIncludeNamed
+            ? "No donations of £20 or less to aggregate."
+            : "No anonymous donations of £20 or less to aggregate (tick “include named donors” to sweep up named ones)."
+        );
+        return;
+      }
+
+      const ok = window.confirm(
+        `Replace ${plan.replaced} donation item(s) with ${plan.groups.length} aggregated row(s)? ` +
+          "Donor details on those items will be removed from the claim."
+      );
+      if (!ok) return;
+
+      await call(false);
+      await load();
+    } catch (e: any) {
+      setError(e?.message ?? "Aggregation failed");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const resetOtherIncomeForm = () => {
+    setOiEditingId(null);
+    setOiPayer("");
+    setOiDate("");
+    setOiGross("");
+    setOiTax("");
+  };
+
+  const startEditOtherIncome = (r: OtherIncomeRow) => {
+    setOiEditingId(r.id);
+    setOiPayer(r.payer_name);
+    setOiDate(r.income_date);
+    setOiGross(String(r.gross_amount));
+    setOiTax(String(r.tax_deducted));
+  };
+
+  const saveOtherIncome = async () => {
+    try {
+      setBusy("otherIncome");
+      setError(null);
+
+      if (!canEditItems) throw new Error("Other income can only be changed while claim is draft");
+      if (!oiPayer.trim()) throw new Error("Payer is required");
+      if (!oiDate) throw new Error("Date is required");
+
+      const gross = Number(oiGross);
+      const tax = Number(oiTax);
+      if (!Number.isFinite(gross) || gross <= 0) throw new Error("Gross amount must be a positive number");
+      if (!Number.isFinite(tax) || tax <= 0) throw new Error("Tax deducted must be a positive number");
+      if (tax > gross) throw new Error("Tax deducted cannot be more than the gross amount");
+
+      const token = await getToken();
+
+      const res = await fetch("/api/admin/claims/other-income", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+        body: JSON.stringify({
+          claimId,
+          id: oiEditingId,
+          payerName: oiPayer.trim(),
+          incomeDate: oiDate,
+          grossAmount: gross,
+          taxDeducted: tax,
+        }),
+      });
+
+      const { json, text } = await safeReadJson(res);
+      if (!res.ok) throw new Error(`other-income failed (${res.status}): ${(json?.error ?? text).slice(0, 160)}`);
+      if (!json?.ok) throw new Error(json?.error || "Failed to save other income");
+
+      resetOtherIncomeForm();
+      await load();
+    } catch (e: any) {
+      setError(e?.message ?? "Save failed");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const deleteOtherIncome = async (rowId: string) => {
+    try {
+      if (!window.confirm("Delete this other income row?")) return;
+
+      setBusy(`oidel:${rowId}`);
+      setError(null);
+
+      const token = await getToken();
+
+      const res = await fetch(`/api/admin/claims/other-income?id=${encodeURIComponent(rowId)}`, {
+        method: "DELETE",
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      const { json, text } = await safeReadJson(res);
+      if (!res.ok) throw new Error(`other-income delete failed (${res.status}): ${(json?.error ?? text).slice(0, 160)}`);
+      if (!json?.ok) throw new Error(json?.error || "Failed to delete other income");
+
+      if (oiEditingId === rowId) resetOtherIncomeForm();
+      await load();
+    } catch (e: any) {
+      setError(e?.message ?? "Delete failed");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const onPickOtherIncomeCsv = async (file: File | null) => {
+    try {
+      setOiCsvErrors([]);
+      setError(null);
+
+      if (!file) {
+        setOiCsvRows([]);
+        return;
+      }
+
+      const parsed = parseCsvToObjects(await file.text());
+      if (parsed.length === 0) throw new Error("CSV contains no rows (check header row and data).");
+
+      const normKey = (k: string) =>
+        k.trim().toLowerCase().replace(/\s+/g, "_").replace(/[^a-z0-9_]/g, "");
+
+      setOiCsvRows(
+        parsed.map((r) => {
+          const map: Record<string, string> = {};
+          for (const [k, v] of Object.entries(r)) map[normKey(k)] = (v ?? "").trim();
+
+          return {
+            payer: map["payer"] || map["payer_name"] || "",
+            date: map["date"] || map["income_date"] || "",
+            gross: map["gross"] || map["gross_amount"] || "",
+            tax: map["tax"] || map["tax_deducted"] || "",
+          };
+        })
+      );
+    } catch (e: any) {
+      setOiCsvRows([]);
+      setError(e?.message ?? "Failed to parse CSV");
+    }
+  };
+
+  const importOtherIncomeCsv = async () => {
+    try {
+      setBusy("importOtherIncome");
+      setError(null);
+      setOiCsvErrors([]);
+
+      if (!canEditItems) throw new Error("Can only import into a draft claim");
+      if (oiCsvRows.length === 0) throw new Error("No CSV rows to import");
+
+      const token = await getToken();
+
+      const res = await fetch("/api/admin/claims/import-other-income-csv", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+        body: JSON.stringify({ claimId, rows: oiCsvRows }),
+      });
+
+      const { json, text } = await safeReadJson(res);
+      if (!res.ok) throw new Error(`import failed (${res.status}): ${(json?.error ?? text).slice(0, 200)}`);
+      if (!json?.ok) throw new Error(json?.error || "Failed to import other income");
+
+      setOiCsvErrors(json.errors || []);
+      setOiCsvRows([]);
       await load();
     } catch (e: any) {
       setError(e?.message ?? "Import failed");
@@ -578,6 +1085,40 @@ export default function AdminClaimDetail() {
     }
   };
 
+  const saveGasds = async () => {
+    try {
+      setBusy("gasds");
+      setError(null);
+
+      if (!canEditItems) throw new Error("GASDS can only be changed while claim is draft");
+
+      const token = await getToken();
+
+      const res = await fetch("/api/admin/claims/gasds", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+        body: JSON.stringify({
+          claimId,
+          entries: gasdsRows
+            .filter((r) => r.taxYear.trim() || r.amount.trim())
+            .map((r) => ({ taxYear: Number(r.taxYear), amount: Number(r.amount), buildingId: r.buildingId || null })),
+          adjustment: gasdsAdjustment.trim() ? Number(gasdsAdjustment) : null,
+        }),
+      });
+
+      const { json, text } = await safeReadJson(res);
+      if (Array.isArray(json?.checks)) setGasdsChecks(json.checks as GasdsYearCheck[]);
+      if (!res.ok) throw new Error(`GASDS save failed (${res.status}): ${(json?.error ?? text).slice(0, 300)}`);
+      if (!json?.ok) throw new Error(json?.error || "Failed to save GASDS");
+
+      await load();
+    } catch (e: any) {
+      setError(e?.message ?? "GASDS save failed");
+    } finally {
+      setBusy(null);
+    }
+  };
+
   const markReady = async () => {
     try {
       setBusy("ready");
@@ -592,6 +1133,11 @@ export default function AdminClaimDetail() {
       });
 
       const { json, text } = await safeReadJson(res);
+      // every failing rule comes back at once
+      const problems: Array<{ message: string }> = Array.isArray(json?.problems) ? json.problems : [];
+      if (problems.length) {
+        throw new Error(`Cannot mark ready (${problems.length} problem${problems.length === 1 ? "" : "s"}):\n${problems.map((p) => `• ${p.message}`).join("\n")}`);
+      }
       if (!res.ok) throw new Error(`mark-ready failed (${res.status}): ${(json?.error ?? text).slice(0, 200)}`);
       if (!json?.ok) throw new Error(json?.error || "Failed to mark ready");
 
@@ -603,19 +1149,42 @@ export default function AdminClaimDetail() {
     }
   };
 
-  const submitClaim = async () => {
+  // approve / reopen / markPaid / withdraw
+  const transitionClaim = async (action: ClaimAction, confirmText?: string) => {
+    if (confirmText && !window.confirm(confirmText)) return;
     try {
-      setBusy("submit");
+      setBusy(action);
       setError(null);
 
       const token = await getToken();
 
-      const res = await fetch("/api/admin/claims/submit", {
+      const res = await fetch("/api/admin/claims/transition", {
         method: "POST",
         headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
-        body: JSON.stringify({ claimId }),
+        body: JSON.stringify({ claimId, action }),
       });
 
+      const { json, text } = await safeReadJson(res);
+      if (!res.ok) throw new Error(`${action} failed (${res.status}): ${(json?.error ?? text).slice(0, 300)}`);
+      if (!json?.ok) throw new Error(json?.error || `Failed to ${action} claim`);
+
+      await load();
+    } catch (e: any) {
+      setError(e?.message ?? `${action} failed`);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const submitClaim = async () => {
+    if (sendingRef.current) return;
+    sendingRef.current = true;
+    try {
+      setBusy("submit");
+      setError(null);
+
+      const res = await postSubmission("/api/admin/claims/submit");
+
       const { json, text } = await safeReadJson(res);
       if (!res.ok) throw new Error(`submit failed (${res.status}): ${(json?.error ?? text).slice(0, 200)}`);
       if (!json?.ok) throw new Error(json?.error || "Failed to submit claim");
@@ -624,6 +1193,34 @@ export default function AdminClaimDetail() {
     } catch (e: any) {
       setError(e?.message ?? "Submit failed");
     } finally {
+      sendingRef.current = false;
+      setBusy(null);
+    }
+  };
+
+  const resubmitClaim = async () => {
+    if (sendingRef.current) return;
+    const ok = window.confirm(
+      "Send this claim to HMRC again? Only do this if HMRC rejected it, or if Outstanding shows HMRC never received the last send."
+    );
+    if (!ok) return;
+
+    sendingRef.current = true;
+    try {
+      setBusy("resubmit");
+      setError(null);
+
+      const res = await postSubmission("/api/admin/claims/resubmit");
+
+      const { json, text } = await safeReadJson(res);
+      if (!res.ok) throw new Error(`resubmit failed (${res.status}): ${(json?.error ?? text).slice(0, 200)}`);
+      if (!json?.ok) throw new Error(json?.error || "Failed to resubmit claim");
+
+      await load();
+    } catch (e: any) {
+      setError(e?.message ?? "Resubmit failed");
+    } finally {
+      sendingRef.current = false;
       setBusy(null);
     }
   };
@@ -652,7 +1249,7 @@ export default function AdminClaimDetail() {
       </div>
 
       {error && (
-        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded mb-4">{error}</div>
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded mb-4 whitespace-pre-line">{error}</div>
       )}
 
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
@@ -675,6 +1272,47 @@ export default function AdminClaimDetail() {
             HMRC Ref: <span className="font-medium">{claim?.hmrc_reference ?? "-"}</span>
           </div>
 
+          {claim?.hmrc_irmark && (
+            <div className="text-xs text-gray-500 mt-1 break-all" title={claim.hmrc_irmark_receipt ?? ""}>
+              IRmark: <span className="font-mono">{claim.hmrc_irmark}</span>
+            </div>
+          )}
+
+          {claim?.ready_snapshot && (
+            <div className="text-xs text-gray-500 mt-1" title="Submissions use this frozen copy of the donations and charity details">
+              Frozen: <span className="font-medium">{new Date(claim.ready_snapshot.takenAt).toLocaleString()}</span> ·{" "}
+              {claim.ready_snapshot.totals.donation_count} donations · £
+              {Number(claim.ready_snapshot.totals.total_amount).toFixed(2)}
+            </div>
+          )}
+
+          {claim?.approved_at && (
+            <div className="text-xs text-gray-500 mt-1">
+              Approved: <span className="font-medium">{new Date(claim.approved_at).toLocaleString()}</span>
+            </div>
+          )}
+
+          {claim?.hmrc_delete_status && (
+            <div className="text-xs text-gray-500 mt-1" title={claim.hmrc_delete_message ?? ""}>
+              Gateway delete: <span className="font-medium">{claim.hmrc_delete_status}</span>
+            </div>
+          )}
+
+          {!!claim?.hmrc_errors?.length && (
+            <div className="mt-2 bg-red-50 border border-red-200 text-red-700 rounded px-2 py-2 text-xs space-y-2">
+              {claim.hmrc_errors.map((e, idx) => (
+                <div key={idx}>
+                  <div className="font-medium">
+                    [{e.number || "?"}] {e.text || e.explanation}
+                    {e.gadIndex !== null && <span> (donation #{e.gadIndex})</span>}
+                  </div>
+                  {e.text && <div>{e.explanation}</div>}
+                  {e.location && <div className="font-mono break-all text-red-500">{e.location}</div>}
+                </div>
+              ))}
+            </div>
+          )}
+
           <div className="mt-3 flex flex-wrap gap-2">
             <button
               onClick={previewHmrcXml}
@@ -688,7 +1326,7 @@ export default function AdminClaimDetail() {
             {/* ✅ NEW */}
             <button
               onClick={sendToIsv}
-              disabled={busy !== null}
+              disabled={busy !== null || !can("submit")}
               className="px-3 py-2 text-sm rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
               title="Send this claim XML to HMRC ISV test gateway and show the receipt"
             >
@@ -696,26 +1334,139 @@ export default function AdminClaimDetail() {
             </button>
 
             <button
-              disabled={busy !== null || (claim?.status !== "draft" && claim?.status !== "ready")}
+              disabled={busy !== null || !can("markReady")}
               onClick={markReady}
               className="px-3 py-2 text-sm rounded border border-gray-200 hover:bg-gray-50 disabled:opacity-50"
-              title="Recalculate totals and move claim to 'ready'"
+              title="Check every claim rule, freeze the donations and charity details, and move the claim to 'ready'"
             >
               {busy === "ready" ? "Marking…" : "Mark Ready"}
             </button>
 
             <button
-              disabled={busy !== null || claim?.status !== "ready"}
+              disabled={busy !== null || !can("approve")}
+              onClick={() => transitionClaim("approve")}
+              className="px-3 py-2 text-sm rounded border border-gray-200 hover:bg-gray-50 disabled:opacity-50"
+              title="Sign off a ready claim for submission (checks gateway credentials)"
+            >
+              {busy === "approve" ? "Approving…" : "Approve"}
+            </button>
+
+            <button
+              disabled={busy !== null || !can("submit")}
               onClick={submitClaim}
               className="px-3 py-2 text-sm rounded border border-gray-200 hover:bg-gray-50 disabled:opacity-50"
               title="Your existing stub submit (separate from ISV test)"
             >
               {busy === "submit" ? "Submitting…" : "Submit (stub)"}
             </button>
+
+            {canResubmit && (
+              <button
+                disabled={busy !== null}
+                onClick={resubmitClaim}
+                className="px-3 py-2 text-sm rounded border border-red-200 text-red-700 hover:bg-red-50 disabled:opacity-50"
+                title="Clear the previous transmission and send this claim to HMRC again"
+              >
+                {busy === "resubmit" ? "Resubmitting…" : "Resubmit after rejection"}
+              </button>
+            )}
+
+            {can("reopen") && (
+              <button
+                disabled={busy !== null}
+                onClick={() => transitionClaim("reopen", "Move this claim back to draft? Its approval is cleared.")}
+                className="px-3 py-2 text-sm rounded border border-gray-200 hover:bg-gray-50 disabled:opacity-50"
+                title="Back to draft so donations can be changed"
+              >
+                {busy === "reopen" ? "Reopening…" : "Reopen as draft"}
+              </button>
+            )}
+
+            {can("markPaid") && (
+              <button
+                disabled={busy !== null}
+                onClick={() => transitionClaim("markPaid", "Mark this claim as paid by HMRC?")}
+                className="px-3 py-2 text-sm rounded border border-green-200 text-green-700 hover:bg-green-50 disabled:opacity-50"
+                title="HMRC has paid the repayment"
+              >
+                {busy === "markPaid" ? "Saving…" : "Mark Paid"}
+              </button>
+            )}
+
+            {can("withdraw") && (
+              <button
+                disabled={busy !== null}
+                onClick={() => transitionClaim("withdraw", "Withdraw this claim? It can no longer be edited or submitted.")}
+                className="px-3 py-2 text-sm rounded border border-red-200 text-red-700 hover:bg-red-50 disabled:opacity-50"
+                title="Abandon this claim"
+              >
+                {busy === "withdraw" ? "Withdrawing…" : "Withdraw"}
+              </button>
+            )}
           </div>
         </div>
       </div>
 
+      {/* HMRC message history */}
+      {attempts.length > 0 && (
+        <div className="bg-white rounded-lg shadow p-4 mb-6">
+          <h2 className="font-semibold">HMRC Message History</h2>
+          <p className="text-xs text-gray-500 mt-1">
+            Every submit, poll and delete sent to the gateway for this claim. Passwords are redacted.
+          </p>
+
+          <ol className="mt-3 border-l border-gray-200 space-y-3">
+            {attempts.map((a) => (
+              <li key={a.id} className="ml-4 relative">
+                <span
+                  className={`absolute -left-[21px] top-1.5 w-2.5 h-2.5 rounded-full ${
+                    a.error || a.qualifier === "error"
+                      ? "bg-red-500"
+                      : a.qualifier === "response"
+                        ? "bg-green-500"
+                        : "bg-gray-400"
+                  }`}
+                />
+                <div className="text-sm flex flex-wrap items-center gap-2">
+                  <span className="font-medium">{a.kind}</span>
+                  <span className="text-gray-500">{new Date(a.created_at).toLocaleString()}</span>
+                  <span className="text-xs text-gray-500">by {a.actor_email || a.actor_user_id || "scheduler"}</span>
+                </div>
+                <div className="text-xs text-gray-600 mt-1 space-x-3">
+                  <span>HTTP {a.http_status ?? "-"}</span>
+                  <span>Qualifier: {a.qualifier ?? "-"}</span>
+                  <span className="break-all">CorrelationID: {a.correlation_id ?? "-"}</span>
+                </div>
+                <div className="text-xs text-gray-400 break-all">{a.endpoint}</div>
+                {a.error && <div className="text-xs text-red-600 mt-1 whitespace-pre-line">{a.error}</div>}
+                <div className="mt-1 flex gap-2">
+                  {a.request_body && (
+                    <button
+                      onClick={() =>
+                        openXmlInNewTab(`HMRC ${a.kind} request`, `${a.created_at} · ${a.endpoint}`, a.request_body ?? "")
+                      }
+                      className="px-2 py-1 text-xs rounded border border-gray-200 hover:bg-gray-50"
+                    >
+                      Request
+                    </button>
+                  )}
+                  {a.response_body && (
+                    <button
+                      onClick={() =>
+                        openXmlInNewTab(`HMRC ${a.kind} response`, `${a.created_at} · HTTP ${a.http_status ?? "-"}`, a.response_body ?? "")
+                      }
+                      className="px-2 py-1 text-xs rounded border border-gray-200 hover:bg-gray-50"
+                    >
+                      Response
+                    </button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+
       {/* Donation Items */}
       <div className="bg-white rounded-lg shadow p-4 mb-6">
         <div className="flex items-center justify-between">
@@ -734,6 +1485,11 @@ export default function AdminClaimDetail() {
               <div className="text-xs text-gray-500 mt-1">
                 Required columns: title, first_name, last_name, address, postcode, donation_amount, donation_date
               </div>
+              <div className="text-xs text-gray-500 mt-1">
+                Optional: item_type (&quot;aggregated&quot; for a row of small donations), agg_description (max 35
+                chars; replaces the donor columns on aggregated rows), sponsored (yes/no, named donors only) and overseas
+                (yes/no; donor lives outside the UK, postcode left blank)
+              </div>
             </div>
             <div className="text-xs text-gray-500">{canEditItems ? "Claim is draft ✅" : "Import disabled ❗"}</div>
           </div>
@@ -775,11 +1531,15 @@ export default function AdminClaimDetail() {
               <table className="min-w-full divide-y divide-gray-200 text-sm">
                 <thead className="bg-gray-50">
                   <tr>
+                    <th className="px-2 py-2 text-left">item_type</th>
                     <th className="px-2 py-2 text-left">title</th>
                     <th className="px-2 py-2 text-left">first_name</th>
                     <th className="px-2 py-2 text-left">last_name</th>
                     <th className="px-2 py-2 text-left">address</th>
                     <th className="px-2 py-2 text-left">postcode</th>
+                    <th className="px-2 py-2 text-left">overseas</th>
+                    <th className="px-2 py-2 text-left">agg_description</th>
+                    <th className="px-2 py-2 text-left">sponsored</th>
                     <th className="px-2 py-2 text-left">donation_amount</th>
                     <th className="px-2 py-2 text-left">donation_date</th>
                   </tr>
@@ -787,11 +1547,15 @@ export default function AdminClaimDetail() {
                 <tbody className="divide-y">
                   {csvRows.slice(0, 5).map((r, idx) => (
                     <tr key={idx}>
+                      <td className="px-2 py-2">{r.item_type || "donor"}</td>
                       <td className="px-2 py-2">{r.title || "-"}</td>
                       <td className="px-2 py-2">{r.first_name}</td>
                       <td className="px-2 py-2">{r.last_name}</td>
                       <td className="px-2 py-2">{r.address}</td>
                       <td className="px-2 py-2">{r.postcode}</td>
+                      <td className="px-2 py-2">{r.overseas || "-"}</td>
+                      <td className="px-2 py-2">{r.agg_description || "-"}</td>
+                      <td className="px-2 py-2">{r.sponsored || "-"}</td>
                       <td className="px-2 py-2">{r.donation_amount}</td>
                       <td className="px-2 py-2">{r.donation_date}</td>
                     </tr>
@@ -802,6 +1566,25 @@ export default function AdminClaimDetail() {
             </div>
           )}
 
+          {normalizeNotes.length > 0 && (
+            <div className="mt-3 bg-blue-50 border border-blue-200 text-blue-800 rounded p-3">
+              <div className="flex items-center justify-between">
+                <div className="font-medium">Adjusted to fit HMRC&apos;s format:</div>
+                <button onClick={() => setNormalizeNotes([])} className="text-xs text-blue-700 hover:underline">
+                  Dismiss
+                </button>
+              </div>
+              <ul className="list-disc ml-5 mt-2 text-sm">
+                {normalizeNotes.slice(0, 15).map((n, idx) => (
+                  <li key={idx}>{n}</li>
+                ))}
+              </ul>
+              {normalizeNotes.length > 15 && (
+                <div className="text-xs mt-2">Showing first 15 of {normalizeNotes.length} changes.</div>
+              )}
+            </div>
+          )}
+
           {csvErrors.length > 0 && (
             <div className="mt-3 bg-yellow-50 border border-yellow-200 text-yellow-800 rounded p-3">
               <div className="font-medium">Some rows were skipped:</div>
@@ -818,57 +1601,117 @@ export default function AdminClaimDetail() {
         </div>
 
         {/* Add item form */}
-        <div className="mt-4 grid grid-cols-1 md:grid-cols-8 gap-3">
-          <input
-            id="title"
-            name="title"
-            className="border rounded px-2 py-2 text-sm"
-            placeholder="Title (e.g. Mr)"
-            value={title}
-            onChange={(e) => setTitle(e.target.value)}
-            disabled={busy !== null || !canEditItems}
-            autoComplete="honorific-prefix"
-          />
-          <input
-            id="first-name"
-            name="firstName"
-            className="border rounded px-2 py-2 text-sm"
-            placeholder="First Name"
-            value={firstName}
-            onChange={(e) => setFirstName(e.target.value)}
-            disabled={busy !== null || !canEditItems}
-            autoComplete="given-name"
-          />
-          <input
-            id="last-name"
-            name="lastName"
-            className="border rounded px-2 py-2 text-sm"
-            placeholder="Last Name"
-            value={lastName}
-            onChange={(e) => setLastName(e.target.value)}
-            disabled={busy !== null || !canEditItems}
-            autoComplete="family-name"
-          />
-          <input
-            id="address"
-            name="address"
-            className="border rounded px-2 py-2 text-sm md:col-span-2"
-            placeholder="Address"
-            value={address}
-            onChange={(e) => setAddress(e.target.value)}
-            disabled={busy !== null || !canEditItems}
-            autoComplete="street-address"
-          />
-          <input
-            id="postcode"
-            name="postcode"
+        <div className="mt-4 flex items-center gap-3 text-sm">
+          <label htmlFor="item-type" className="text-gray-600">
+            Row type
+          </label>
+          <select
+            id="item-type"
+            name="itemType"
             className="border rounded px-2 py-2 text-sm"
-            placeholder="Postcode"
-            value={postcode}
-            onChange={(e) => setPostcode(e.target.value)}
+            value={itemType}
+            onChange={(e) => setItemType(e.target.value as ClaimItemType)}
             disabled={busy !== null || !canEditItems}
-            autoComplete="postal-code"
-          />
+          >
+            <option value="donor">Named donor</option>
+            <option value="aggregated">Aggregated small donations (≤ £20 each, max £1,000)</option>
+          </select>
+
+          {itemType === "donor" && (
+            <label className="inline-flex items-center gap-1 text-gray-600">
+              <input
+                id="sponsored"
+                name="sponsored"
+                type="checkbox"
+                checked={sponsored}
+                onChange={(e) => setSponsored(e.target.checked)}
+                disabled={busy !== null || !canEditItems}
+              />
+              Sponsored event
+            </label>
+          )}
+
+          {itemType === "donor" && (
+            <label className="inline-flex items-center gap-1 text-gray-600">
+              <input
+                id="overseas"
+                name="overseas"
+                type="checkbox"
+                checked={overseas}
+                onChange={(e) => setOverseas(e.target.checked)}
+                disabled={busy !== null || !canEditItems}
+              />
+              Overseas donor (no UK postcode)
+            </label>
+          )}
+        </div>
+
+        <div className="mt-3 grid grid-cols-1 md:grid-cols-8 gap-3">
+          {itemType === "aggregated" ? (
+            <input
+              id="agg-description"
+              name="aggDescription"
+              className="border rounded px-2 py-2 text-sm md:col-span-6"
+              placeholder="Description (e.g. Church collection, max 35 characters)"
+              maxLength={35}
+              value={aggDescription}
+              onChange={(e) => setAggDescription(e.target.value)}
+              disabled={busy !== null || !canEditItems}
+            />
+          ) : (
+            <>
+              <input
+                id="title"
+                name="title"
+                className="border rounded px-2 py-2 text-sm"
+                placeholder="Title (e.g. Mr)"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                disabled={busy !== null || !canEditItems}
+                autoComplete="honorific-prefix"
+              />
+              <input
+                id="first-name"
+                name="firstName"
+                className="border rounded px-2 py-2 text-sm"
+                placeholder="First Name"
+                value={firstName}
+                onChange={(e) => setFirstName(e.target.value)}
+                disabled={busy !== null || !canEditItems}
+                autoComplete="given-name"
+              />
+              <input
+                id="last-name"
+                name="lastName"
+                className="border rounded px-2 py-2 text-sm"
+                placeholder="Last Name"
+                value={lastName}
+                onChange={(e) => setLastName(e.target.value)}
+                disabled={busy !== null || !canEditItems}
+                autoComplete="family-name"
+              />
+              <input
+                id="address"
+                name="address"
+                className="border rounded px-2 py-2 text-sm md:col-span-2"
+                placeholder="Address"
+                value={address}
+                onChange={(e) => setAddress(e.target.value)}
+                disabled={busy !== null || !canEditItems}
+                autoComplete="street-address"
+              />
+              <input
+                id="postcode"
+                name="postcode"
+                className="border rounded px-2 py-2 text-sm"
+                placeholder={overseas ? "Overseas" : "Postcode"}
+                value={overseas ? "" : postcode}
+                onChange={(e) => setPostcode(e.target.value)}
+                disabled={busy !== null || !canEditItems || overseas}
+                autoComplete="postal-code"
+              />
+            </>
+          )}
           <input
             id="donation-date"
             name="donationDate"
@@ -898,6 +1741,25 @@ export default function AdminClaimDetail() {
             {busy === "addItem" ? "Adding…" : "Add Donation Item"}
           </button>
 
+          <button
+            onClick={aggregateSmallDonations}
+            disabled={busy !== null || !canEditItems}
+            className="ml-2 px-3 py-2 text-sm rounded border border-gray-200 hover:bg-gray-50 disabled:opacity-50"
+            title="Replace donations of £20 or less with aggregated rows of up to £1,000"
+          >
+            {busy === "aggregate" ? "Aggregating…" : "Aggregate small donations"}
+          </button>
+
+          <label className="ml-2 text-sm text-gray-600 inline-flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={aggIncludeNamed}
+              onChange={(e) => setAggIncludeNamed(e.target.checked)}
+              disabled={busy !== null || !canEditItems}
+            />
+            include named donors
+          </label>
+
           {!canEditItems && (
             <div className="text-xs text-gray-500 mt-2">
               Items can only be added/edited/deleted/imported while the claim is in{" "}
@@ -921,6 +1783,7 @@ export default function AdminClaimDetail() {
                   <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Postcode</th>
                   <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Donation Date</th>
                   <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Amount</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Sponsored</th>
                   <th className="px-3 py-2"></th>
                 </tr>
               </thead>
@@ -929,73 +1792,114 @@ export default function AdminClaimDetail() {
                 {items.map((it) => {
                   const isEditing = editingId === it.id;
                   const rowBusy = busy === `save:${it.id}` || busy === `del:${it.id}`;
+                  const rowErrors = itemErrors.get(it.id) ?? [];
+                  const isAggregated = it.item_type === "aggregated";
 
                   return (
-                    <tr key={it.id}>
-                      <td className="px-3 py-2 text-sm">
-                        {isEditing ? (
-                          <input
-                            className="border rounded px-2 py-1 text-sm w-24"
-                            value={editTitle}
-                            onChange={(e) => setEditTitle(e.target.value)}
-                            disabled={rowBusy || !canEditItems}
-                          />
-                        ) : (
-                          it.donor_title || "-"
-                        )}
-                      </td>
-
-                      <td className="px-3 py-2 text-sm">
-                        {isEditing ? (
-                          <input
-                            className="border rounded px-2 py-1 text-sm w-40"
-                            value={editFirstName}
-                            onChange={(e) => setEditFirstName(e.target.value)}
-                            disabled={rowBusy || !canEditItems}
-                          />
-                        ) : (
-                          it.donor_first_name
-                        )}
-                      </td>
-
-                      <td className="px-3 py-2 text-sm">
-                        {isEditing ? (
-                          <input
-                            className="border rounded px-2 py-1 text-sm w-40"
-                            value={editLastName}
-                            onChange={(e) => setEditLastName(e.target.value)}
-                            disabled={rowBusy || !canEditItems}
-                          />
-                        ) : (
-                          it.donor_last_name
-                        )}
-                      </td>
-
-                      <td className="px-3 py-2 text-sm">
-                        {isEditing ? (
-                          <input
-                            className="border rounded px-2 py-1 text-sm w-full min-w-[260px]"
-                            value={editAddress}
-                            onChange={(e) => setEditAddress(e.target.value)}
-                            disabled={rowBusy || !canEditItems}
-                          />
-                        ) : (
-                          it.donor_address
-                        )}
-                      </td>
-
-                      <td className="px-3 py-2 text-sm">
-                        {isEditing ? (
-                          <input
-                            className="border rounded px-2 py-1 text-sm w-32"
-                            value={editPostcode}
-                            onChange={(e) => setEditPostcode(e.target.value)}
-                            disabled={rowBusy || !canEditItems}
-                          />
-                        ) : (
-                          it.donor_postcode
-                        )}
-                      </td>
+                    <tr
+                      key={it.id}
+                      className={rowErrors.length ? "bg-red-50" : undefined}
+                      title={rowErrors.map((e) => `[${e.number}] ${e.text || e.explanation}`).join("\n") || undefined}
+                    >
+                      {isAggregated ? (
+                        <td className="px-3 py-2 text-sm" colSpan={5}>
+                          {isEditing ? (
+                            <input
+                              className="border rounded px-2 py-1 text-sm w-full min-w-[260px]"
+                              maxLength={35}
+                              value={editAggDescription}
+                              onChange={(e) => setEditAggDescription(e.target.value)}
+                              disabled={rowBusy || !canEditItems}
+                            />
+                          ) : (
+                            <>
+                              <span className="text-xs uppercase text-gray-500 mr-2">Aggregated</span>
+                              {it.agg_description}
+                            </>
+                          )}
+                        </td>
+                      ) : (
+                        <>
+                          <td className="px-3 py-2 text-sm">
+                            {isEditing ? (
+                              <input
+                                className="border rounded px-2 py-1 text-sm w-24"
+                                value={editTitle}
+                                onChange={(e) => setEditTitle(e.target.value)}
+                                disabled={rowBusy || !canEditItems}
+                              />
+                            ) : (
+                              it.donor_title || "-"
+                            )}
+                          </td>
+
+                          <td className="px-3 py-2 text-sm">
+                            {isEditing ? (
+                              <input
+                                className="border rounded px-2 py-1 text-sm w-40"
+                                value={editFirstName}
+                                onChange={(e) => setEditFirstName(e.target.value)}
+                                disabled={rowBusy || !canEditItems}
+                              />
+                            ) : (
+                              it.donor_first_name
+                            )}
+                          </td>
+
+                          <td className="px-3 py-2 text-sm">
+                            {isEditing ? (
+                              <input
+                                className="border rounded px-2 py-1 text-sm w-40"
+                                value={editLastName}
+                                onChange={(e) => setEditLastName(e.target.value)}
+                                disabled={rowBusy || !canEditItems}
+                              />
+                            ) : (
+                              it.donor_last_name
+                            )}
+                          </td>
+
+                          <td className="px-3 py-2 text-sm">
+                            {isEditing ? (
+                              <input
+                                className="border rounded px-2 py-1 text-sm w-full min-w-[260px]"
+                                value={editAddress}
+                                onChange={(e) => setEditAddress(e.target.value)}
+                                disabled={rowBusy || !canEditItems}
+                              />
+                            ) : (
+                              it.donor_address
+                            )}
+                          </td>
+
+                          <td className="px-3 py-2 text-sm">
+                            {isEditing ? (
+                              <div className="space-y-1">
+                                <input
+                                  className="border rounded px-2 py-1 text-sm w-32"
+                                  placeholder={editOverseas ? "Overseas" : "Postcode"}
+                                  value={editOverseas ? "" : editPostcode}
+                                  onChange={(e) => setEditPostcode(e.target.value)}
+                                  disabled={rowBusy || !canEditItems || editOverseas}
+                                />
+                                <label className="flex items-center gap-1 text-xs text-gray-600">
+                                  <input
+                                    type="checkbox"
+                                    checked={editOverseas}
+                                    onChange={(e) => setEditOverseas(e.target.checked)}
+                                    disabled={rowBusy || !canEditItems}
+                                  />
+                                  Overseas
+                                </label>
+                              </div>
+                            ) : it.donor_overseas ? (
+                              <span className="text-gray-500">Overseas</span>
+                            ) : (
+                              it.donor_postcode
+                            )}
+                          </td>
+                        </>
+                      )}
 
                       <td className="px-3 py-2 text-sm">
                         {isEditing ? (
@@ -1024,6 +1928,21 @@ export default function AdminClaimDetail() {
                         )}
                       </td>
 
+                      <td className="px-3 py-2 text-sm">
+                        {isEditing && !isAggregated ? (
+                          <input
+                            type="checkbox"
+                            checked={editSponsored}
+                            onChange={(e) => setEditSponsored(e.target.checked)}
+                            disabled={rowBusy || !canEditItems}
+                          />
+                        ) : it.sponsored ? (
+                          "Yes"
+                        ) : (
+                          "-"
+                        )}
+                      </td>
+
                       <td className="px-3 py-2 text-sm whitespace-nowrap text-right space-x-2">
                         {isEditing ? (
                           <>
@@ -1070,9 +1989,300 @@ export default function AdminClaimDetail() {
         </div>
       </div>
 
+      {/* Other income */}
+      <div className="bg-white rounded-lg shadow p-4 mb-6">
+        <div className="flex items-center justify-between">
+          <h2 className="font-semibold">Other Income (tax deducted)</h2>
+          <div className="text-sm text-gray-600">
+            Rows: <span className="font-medium">{otherIncome.length}</span> • Tax to reclaim:{" "}
+            <span className="font-medium">
+              £{otherIncome.reduce((sum, r) => sum + Number(r.tax_deducted || 0), 0).toLocaleString()}
+            </span>
+          </div>
+        </div>
+
+        {otherIncome.length > 0 && (
+          <div className="mt-3 overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Payer</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Date</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Gross</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Tax deducted</th>
+                  <th className="px-3 py-2"></th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {otherIncome.map((r) => (
+                  <tr key={r.id} className={oiEditingId === r.id ? "bg-blue-50" : undefined}>
+                    <td className="px-3 py-2">{r.payer_name}</td>
+                    <td className="px-3 py-2">{new Date(r.income_date).toLocaleDateString()}</td>
+                    <td className="px-3 py-2">£{Number(r.gross_amount || 0).toLocaleString()}</td>
+                    <td className="px-3 py-2">£{Number(r.tax_deducted || 0).toLocaleString()}</td>
+                    <td className="px-3 py-2 whitespace-nowrap text-right space-x-2">
+                      <button
+                        onClick={() => startEditOtherIncome(r)}
+                        disabled={!canEditItems || busy !== null}
+                        className="px-2 py-1 text-sm rounded border border-gray-200 hover:bg-gray-50 disabled:opacity-50"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => deleteOtherIncome(r.id)}
+                        disabled={!canEditItems || busy !== null}
+                        className="px-2 py-1 text-sm rounded border border-red-200 text-red-700 hover:bg-red-50 disabled:opacity-50"
+                      >
+                        {busy === `oidel:${r.id}` ? "Deleting…" : "Delete"}
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <div className="mt-4 grid grid-cols-1 md:grid-cols-6 gap-3">
+          <input
+            className="border rounded px-2 py-2 text-sm md:col-span-2"
+            placeholder="Payer (e.g. bank name)"
+            maxLength={40}
+            value={oiPayer}
+            onChange={(e) => setOiPayer(e.target.value)}
+            disabled={busy !== null || !canEditItems}
+          />
+          <input
+            type="date"
+            className="border rounded px-2 py-2 text-sm"
+            value={oiDate}
+            onChange={(e) => setOiDate(e.target.value)}
+            disabled={busy !== null || !canEditItems}
+          />
+          <input
+            className="border rounded px-2 py-2 text-sm"
+            placeholder="Gross (£)"
+            value={oiGross}
+            onChange={(e) => setOiGross(e.target.value)}
+            disabled={busy !== null || !canEditItems}
+          />
+          <input
+            className="border rounded px-2 py-2 text-sm"
+            placeholder="Tax deducted (£)"
+            value={oiTax}
+            onChange={(e) => setOiTax(e.target.value)}
+            disabled={busy !== null || !canEditItems}
+          />
+          <div className="flex gap-2">
+            <button
+              onClick={saveOtherIncome}
+              disabled={busy !== null || !canEditItems}
+              className="px-3 py-2 text-sm rounded border border-gray-200 hover:bg-gray-50 disabled:opacity-50"
+            >
+              {busy === "otherIncome" ? "Saving…" : oiEditingId ? "Save" : "Add"}
+            </button>
+            {oiEditingId && (
+              <button
+                onClick={resetOtherIncomeForm}
+                disabled={busy !== null}
+                className="px-3 py-2 text-sm rounded border border-gray-200 hover:bg-gray-50 disabled:opacity-50"
+              >
+                Cancel
+              </button>
+            )}
+          </div>
+        </div>
+
+        <div className="mt-4 flex flex-wrap items-center gap-3">
+          <span className="text-xs text-gray-500">
+            CSV import (columns: <span className="font-mono">payer,date,gross,tax</span>)
+          </span>
+          <input
+            type="file"
+            accept=".csv,text/csv"
+            disabled={!canEditItems || busy !== null}
+            onChange={(e) => onPickOtherIncomeCsv(e.target.files?.[0] ?? null)}
+          />
+          <button
+            onClick={importOtherIncomeCsv}
+            disabled={!canEditItems || busy !== null || oiCsvRows.length === 0}
+            className="px-3 py-2 text-sm rounded border border-gray-200 hover:bg-gray-50 disabled:opacity-50"
+          >
+            {busy === "importOtherIncome" ? "Importing…" : `Import ${oiCsvRows.length || ""} row(s)`}
+          </button>
+        </div>
+
+        {oiCsvErrors.length > 0 && (
+          <div className="mt-3 bg-yellow-50 border border-yellow-200 text-yellow-800 rounded p-3">
+            <div className="font-medium">Some rows were skipped:</div>
+            <ul className="list-disc ml-5 mt-2 text-sm">
+              {oiCsvErrors.slice(0, 15).map((e, idx) => (
+                <li key={idx}>
+                  Row {e.row}: {e.error}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+
+      {/* Adjustments */}
+      {adjustments.length > 0 && (
+        <div className="bg-white rounded-lg shadow p-4 mb-6">
+          <div className="flex items-center justify-between">
+            <h2 className="font-semibold">Adjustment (previous overclaims)</h2>
+            <div className="text-sm text-gray-600">
+              Deducted:{" "}
+              <span className="font-medium">
+                £{adjustments.reduce((sum, a) => sum + Number(a.amount || 0), 0).toLocaleString()}
+              </span>
+            </div>
+          </div>
+          <ul className="mt-2 text-sm list-disc ml-5">
+            {adjustments.map((a) => (
+              <li key={a.id}>
+                £{Number(a.amount || 0).toLocaleString()} — {a.reason}
+                {a.consumed_at && <span className="text-xs text-gray-500"> (consumed)</span>}
+              </li>
+            ))}
+          </ul>
+          {charity && (
+            <div className="text-xs text-gray-500 mt-2">
+              Recorded in the{" "}
+              <Link to={`/admin/charities/${charity.id}`} className="text-blue-600 hover:underline">
+                charity's adjustments ledger
+              </Link>
+              .
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* GASDS */}
+      <div className="bg-white rounded-lg shadow p-4 mb-6">
+        <div className="flex items-center justify-between">
+          <h2 className="font-semibold">Gift Aid Small Donations Scheme (GASDS)</h2>
+          <div className="text-xs text-gray-500">
+            Small cash donations per tax year • capped at £8,000 a year and 10x the Gift Aid donations claimed
+          </div>
+        </div>
+
+        <div className="text-xs text-gray-500 mt-1">
+          {gasdsBuildings.length} community building(s) registered •{" "}
+          {gasdsConnectedCount ? `${gasdsConnectedCount} connected charit${gasdsConnectedCount === 1 ? "y" : "ies"}` : "no connected charities"}
+          {charity && (
+            <>
+              {" "}
+              •{" "}
+              <Link to={`/admin/charities/${charity.id}`} className="text-blue-600 hover:underline">
+                manage on the charity page
+              </Link>
+            </>
+          )}
+        </div>
+
+        <div className="mt-3 space-y-2">
+          {gasdsRows.length === 0 && <div className="text-sm text-gray-500">No GASDS amounts on this claim.</div>}
+
+          {gasdsRows.map((r, idx) => {
+            const check = gasdsChecks.find(
+              (c) => String(c.tax_year) === r.taxYear.trim() && (c.building_id ?? "") === r.buildingId
+            );
+
+            return (
+              <div key={idx} className="flex flex-wrap items-center gap-3">
+                <input
+                  className="border rounded px-2 py-2 text-sm w-32"
+                  placeholder="Tax year end"
+                  value={r.taxYear}
+                  onChange={(e) =>
+                    setGasdsRows((rows) => rows.map((x, i) => (i === idx ? { ...x, taxYear: e.target.value } : x)))
+                  }
+                  disabled={busy !== null || !canEditItems}
+                  title="Year the tax year ends, e.g. 2025 for 2024-25"
+                />
+                <input
+                  className="border rounded px-2 py-2 text-sm w-36"
+                  placeholder="Amount (£)"
+                  value={r.amount}
+                  onChange={(e) =>
+                    setGasdsRows((rows) => rows.map((x, i) => (i === idx ? { ...x, amount: e.target.value } : x)))
+                  }
+                  disabled={busy !== null || !canEditItems}
+                />
+                <select
+                  className="border rounded px-2 py-2 text-sm"
+                  value={r.buildingId}
+                  onChange={(e) =>
+                    setGasdsRows((rows) => rows.map((x, i) => (i === idx ? { ...x, buildingId: e.target.value } : x)))
+                  }
+                  disabled={busy !== null || !canEditItems}
+                  title="Where the donations were collected"
+                >
+                  <option value="">General (anywhere)</option>
+                  {gasdsBuildings.map((b) => (
+                    <option key={b.id} value={b.id}>
+                      Community building: {b.name} ({b.postcode})
+                    </option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => setGasdsRows((rows) => rows.filter((_, i) => i !== idx))}
+                  disabled={busy !== null || !canEditItems}
+                  className="px-2 py-1 text-sm rounded border border-red-200 text-red-700 hover:bg-red-50 disabled:opacity-50"
+                >
+                  Remove
+                </button>
+
+                {check && (
+                  <span className={`text-xs ${check.problems.length ? "text-red-700" : "text-gray-500"}`}>
+                    {taxYearLabel(check.tax_year)}: cap £{check.cap.toLocaleString()}
+                    {check.claimed_elsewhere ? ` (£${check.claimed_elsewhere.toLocaleString()} on other claims)` : ""} •
+                    Gift Aid claimed £{check.gift_aid_donations.toLocaleString()}
+                    {check.problems.length ? ` • ${check.problems.join("; ")}` : " ✅"}
+                  </span>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="mt-3 flex flex-wrap items-center gap-3">
+          <button
+            onClick={() => setGasdsRows((rows) => [...rows, { taxYear: "", amount: "", buildingId: "" }])}
+            disabled={busy !== null || !canEditItems}
+            className="px-3 py-2 text-sm rounded border border-gray-200 hover:bg-gray-50 disabled:opacity-50"
+          >
+            Add tax year
+          </button>
+
+          <label className="text-sm text-gray-600 inline-flex items-center gap-2">
+            Adjustment (£)
+            <input
+              className="border rounded px-2 py-2 text-sm w-32"
+              placeholder="0.00"
+              value={gasdsAdjustment}
+              onChange={(e) => setGasdsAdjustment(e.target.value)}
+              disabled={busy !== null || !canEditItems}
+              title="GASDS over-claimed on earlier claims, to be paid back"
+            />
+          </label>
+
+          <button
+            onClick={saveGasds}
+            disabled={busy !== null || !canEditItems}
+            className="px-3 py-2 text-sm rounded border border-gray-200 hover:bg-gray-50 disabled:opacity-50"
+          >
+            {busy === "gasds" ? "Saving…" : "Save GASDS"}
+          </button>
+        </div>
+      </div>
+
       <div className="text-xs text-gray-500 mt-6">
         CSV template header:{" "}
-        <span className="font-mono">title,first_name,last_name,address,postcode,donation_amount,donation_date</span>
+        <span className="font-mono">
+          item_type,title,first_name,last_name,address,postcode,overseas,agg_description,sponsored,donation_amount,donation_date
+        </span>
       </div>
     </div>
   );
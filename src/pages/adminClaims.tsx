@@ -1,4 +1,4 @@
-import { useEffect, useMemo, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import { supabase } from "../lib/supabase";
 import { Link, useNavigate } from "react-router-dom";
 
@@ -15,6 +15,8 @@ type ClaimRow = {
   status: string;
   hmrc_reference: string | null;
   hmrc_last_message: string | null;
+  /** what the server allows right now (api/_utils/claimLifecycle.ts) */
+  actions?: string[];
 };
 
 type Charity = {
@@ -24,7 +26,7 @@ type Charity = {
   self_submit_enabled?: boolean;
 };
 
-const STATUSES = ["", "draft", "ready", "submitted", "accepted", "rejected", "failed"] as const;
+const STATUSES = ["", "draft", "ready", "submitting", "submitted", "acknowledged", "accepted", "rejected", "paid", "withdrawn"] as const;
 
 async function getToken(): Promise<string> {
   const { data } = await supabase.auth.getSession();
@@ -42,6 +44,12 @@ export default function AdminClaims() {
   const [loading, setLoading] = useState(true);
   const [creating, setCreating] = useState(false);
   const [busyId, setBusyId] = useState<string | null>(null); // busy claim id for quick actions
+
+  // Submit guard per claim: one request at a time, and one Idempotency-Key per submit intent
+  // (kept for a retry after a lost/5xx response, dropped once the server gives a definite answer)
+  const sendingRef = useRef(new Set<string>());
+  const submitKeysRef = useRef(new Map<string, string>());
+
   const [error, setError] = useState<string | null>(null);
 
   const [status, setStatus] = useState<string>("");
@@ -171,16 +179,22 @@ export default function AdminClaims() {
   };
 
   const quickSubmit = async (id: string) => {
+    if (sendingRef.current.has(id)) return;
+    sendingRef.current.add(id);
     try {
       setBusyId(id);
       setError(null);
 
+      const key = submitKeysRef.current.get(id) ?? crypto.randomUUID();
+      submitKeysRef.current.set(id, key);
+
       const token = await getToken();
       const res = await fetch("/api/admin/claims/submit", {
         method: "POST",
-        headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}`, "Idempotency-Key": key },
         body: JSON.stringify({ claimId: id }),
       });
+      if (res.status < 500) submitKeysRef.current.delete(id);
 
       const json = await res.json();
       if (!res.ok || !json.ok) throw new Error(json?.error || "Failed to submit claim");
@@ -188,6 +202,7 @@ export default function AdminClaims() {
     } catch (e: any) {
       setError(e.message || "Error");
     } finally {
+      sendingRef.current.delete(id);
       setBusyId(null);
     }
   };
@@ -368,7 +383,7 @@ export default function AdminClaims() {
                     </Link>
 
                     {/* Quick actions (optional but helpful) */}
-                    {c.status === "draft" && (
+                    {c.actions?.includes("markReady") && (
                       <button
                         onClick={() => quickMarkReady(c.id)}
                         disabled={busyId === c.id}
@@ -378,7 +393,7 @@ export default function AdminClaims() {
                       </button>
                     )}
 
-                    {c.status === "ready" && (
+                    {c.actions?.includes("submit") && (
                       <button
                         onClick={() => quickSubmit(c.id)}
                         disabled={busyId === c.id}
@@ -6,6 +6,15 @@ export default function CharitySetup() {
   const [contactEmail, setContactEmail] = useState("");
   const [charityNumber, setCharityNumber] = useState("");
 
+  // Authorised official + regulator (declared on every Gift Aid claim)
+  const [officialTitle, setOfficialTitle] = useState("");
+  const [officialFore, setOfficialFore] = useState("");
+  const [officialSur, setOfficialSur] = useState("");
+  const [officialPostcode, setOfficialPostcode] = useState("");
+  const [officialPhone, setOfficialPhone] = useState("");
+  const [regulator, setRegulator] = useState("");
+  const [regulatorNumber, setRegulatorNumber] = useState("");
+
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -42,6 +51,10 @@ export default function CharitySetup() {
         throw new Error("Registered charity number must contain only letters and numbers (no spaces).");
       }
 
+      if (regulator && regulator !== "none" && !regulatorNumber.trim()) {
+        throw new Error("Regulator number is required for a registered charity");
+      }
+
       const { data } = await supabase.auth.getSession();
       const token = data.session?.access_token;
       if (!token) throw new Error("Not logged in");
@@ -58,6 +71,13 @@ export default function CharitySetup() {
           // ✅ Single source of truth:
           // Charity Number = HMRC CHARID
           charity_number: cleanCharityNumber,
+          officialTitle,
+          officialFore,
+          officialSur,
+          officialPostcode,
+          officialPhone,
+          regulator,
+          regulatorNumber: regulator === "none" ? "" : regulatorNumber,
         }),
       });
 
@@ -131,6 +151,86 @@ export default function CharitySetup() {
           Charity users cannot edit this later — only an operator can.
         </div>
 
+        {/* Authorised official */}
+        <div className="text-sm font-semibold mt-2 mb-1">Authorised official</div>
+        <div className="text-xs text-gray-500 mb-2">
+          The person HMRC will contact about claims. Needed before live claims can be sent.
+        </div>
+        <div className="flex gap-2 mb-3">
+          <input
+            className="w-20 border rounded px-3 py-2"
+            value={officialTitle}
+            onChange={(e) => setOfficialTitle(e.target.value)}
+            placeholder="Title"
+            maxLength={4}
+            disabled={loading}
+          />
+          <input
+            className="flex-1 min-w-0 border rounded px-3 py-2"
+            value={officialFore}
+            onChange={(e) => setOfficialFore(e.target.value)}
+            placeholder="First name"
+            maxLength={35}
+            autoComplete="given-name"
+            disabled={loading}
+          />
+          <input
+            className="flex-1 min-w-0 border rounded px-3 py-2"
+            value={officialSur}
+            onChange={(e) => setOfficialSur(e.target.value)}
+            placeholder="Last name"
+            maxLength={35}
+            autoComplete="family-name"
+            disabled={loading}
+          />
+        </div>
+        <div className="flex gap-2 mb-3">
+          <input
+            className="w-32 border rounded px-3 py-2"
+            value={officialPostcode}
+            onChange={(e) => setOfficialPostcode(e.target.value)}
+            placeholder="Postcode"
+            autoComplete="postal-code"
+            disabled={loading}
+          />
+          <input
+            className="flex-1 min-w-0 border rounded px-3 py-2"
+            value={officialPhone}
+            onChange={(e) => setOfficialPhone(e.target.value)}
+            placeholder="Phone"
+            maxLength={19}
+            autoComplete="tel"
+            disabled={loading}
+          />
+        </div>
+
+        {/* Regulator */}
+        <label className="block text-sm font-medium mb-1">Regulator</label>
+        <div className="flex gap-2 mb-4">
+          <select
+            className="border rounded px-3 py-2"
+            value={regulator}
+            onChange={(e) => setRegulator(e.target.value)}
+            disabled={loading}
+          >
+            <option value="">Choose…</option>
+            <option value="CCEW">Charity Commission (England &amp; Wales)</option>
+            <option value="OSCR">OSCR (Scotland)</option>
+            <option value="CCNI">Charity Commission NI</option>
+            <option value="none">Exempt / not registered</option>
+          </select>
+          {regulator !== "none" && (
+            <input
+              className="flex-1 min-w-0 border rounded px-3 py-2"
+              value={regulatorNumber}
+              onChange={(e) => setRegulatorNumber(e.target.value)}
+              placeholder="Registration number"
+              maxLength={20}
+              disabled={loading}
+            />
+          )}
+        </div>
+
         <button
           onClick={submit}
           disabled={loading}